@@ -30,6 +30,7 @@ export default [
         fetch: 'readonly',
         performance: 'readonly',
         requestAnimationFrame: 'readonly',
+        queueMicrotask: 'readonly',
         cancelAnimationFrame: 'readonly',
         PerformanceObserver: 'readonly',
         process: 'readonly',
@@ -103,6 +104,7 @@ export default [
         fetch: 'readonly',
         performance: 'readonly',
         requestAnimationFrame: 'readonly',
+        queueMicrotask: 'readonly',
         cancelAnimationFrame: 'readonly',
         PerformanceObserver: 'readonly',
         process: 'readonly',
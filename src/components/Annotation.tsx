@@ -2,6 +2,7 @@ import { Ref, SVGProps } from 'react';
 import { AnnotationProps } from '../types';
 import { useMapContext } from './MapProvider';
 import { createConnectorPath } from '../utils';
+import usePointVisibility from './usePointVisibility';
 
 function Annotation({
   subject,
@@ -10,12 +11,18 @@ function Annotation({
   dx = 30,
   dy = 30,
   curve = 0,
+  horizonFade,
+  onVisibilityChange,
   className = '',
   ref,
   ...restProps
 }: AnnotationProps & { ref?: Ref<SVGGElement> }) {
   const { projection } = useMapContext();
   const projectedCoords = projection(subject);
+  const { visible, opacity } = usePointVisibility(subject, {
+    ...(horizonFade !== undefined && { horizonFade }),
+    ...(onVisibilityChange && { onVisibilityChange }),
+  });
 
   if (!projectedCoords) {
     return null;
@@ -29,6 +36,8 @@ function Annotation({
       ref={ref}
       transform={`translate(${x + dx}, ${y + dy})`}
       className={`rsm-annotation ${className}`}
+      {...(!visible && { visibility: 'hidden', 'aria-hidden': true })}
+      {...(visible && opacity < 1 && { opacity })}
       {...restProps}
     >
       <path
@@ -0,0 +1,150 @@
+import { CSSProperties, Ref, useEffect, useMemo } from 'react';
+import { Feature, Geometry } from 'geojson';
+import {
+  ChoroplethProps,
+  ConditionalStyle,
+  PreparedFeature,
+  StyleVariant,
+} from '../types';
+import { isValueInBin } from '../utils/color-scales';
+import Geographies from './Geographies';
+import Geography from './Geography';
+import useChoropleth from './useChoropleth';
+
+const DEFAULT_NO_DATA_STYLE: ConditionalStyle<CSSProperties> = Object.freeze({
+  default: { fill: '#EEE' },
+});
+const DEFAULT_HIGHLIGHT_STYLE: ConditionalStyle<CSSProperties> = Object.freeze({
+  default: { stroke: '#222', strokeWidth: 1.5 },
+});
+const EMPTY_STYLE: ConditionalStyle<CSSProperties> = Object.freeze({});
+const STYLE_VARIANTS: StyleVariant[] = [
+  'default',
+  'hover',
+  'pressed',
+  'focused',
+  'selected',
+];
+
+function withFill(
+  style: ConditionalStyle<CSSProperties>,
+  fill: string,
+): ConditionalStyle<CSSProperties> {
+  const result: ConditionalStyle<CSSProperties> = {};
+  for (const variant of STYLE_VARIANTS) {
+    const variantStyle = style[variant];
+    if (variant === 'default') {
+      // The data color wins over a default fill; interaction states may
+      // still recolor the feature
+      result.default = { ...variantStyle, fill };
+    } else if (variant === 'selected') {
+      // Layered over the other variants, so it keeps only its own properties
+      if (variantStyle) result.selected = variantStyle;
+    } else if (variantStyle) {
+      result[variant] = { fill, ...variantStyle };
+    }
+  }
+  return result;
+}
+
+function mergeStyles(
+  base: ConditionalStyle<CSSProperties>,
+  override: ConditionalStyle<CSSProperties>,
+): ConditionalStyle<CSSProperties> {
+  const result: ConditionalStyle<CSSProperties> = {};
+  for (const variant of STYLE_VARIANTS) {
+    if (base[variant] || override[variant]) {
+      result[variant] = { ...base[variant], ...override[variant] };
+    }
+  }
+  return result;
+}
+
+function Choropleth<T>({
+  data,
+  featureKey,
+  dataKey,
+  value,
+  scale,
+  style = EMPTY_STYLE,
+  noDataStyle = DEFAULT_NO_DATA_STYLE,
+  geographyProps,
+  highlight = null,
+  highlightStyle = DEFAULT_HIGHLIGHT_STYLE,
+  className = '',
+  onGeographyError,
+  ref,
+  ...geographiesProps
+}: ChoroplethProps<T> & { ref?: Ref<SVGGElement> }) {
+  const choropleth = useChoropleth({
+    data,
+    ...(featureKey !== undefined && { featureKey }),
+    dataKey,
+    value,
+    scale,
+  });
+
+  // An invalid scale config leaves every feature uncolored
+  useEffect(() => {
+    if (choropleth.error && onGeographyError) {
+      onGeographyError(choropleth.error);
+    }
+  }, [choropleth.error, onGeographyError]);
+
+  // Share one style object per color so memoized Geography paths only
+  // re-render when their fill actually changes.
+  const getStyle = useMemo(() => {
+    const stylesByColor = new Map<string, ConditionalStyle<CSSProperties>>();
+    const highlightedStyle = mergeStyles(style, highlightStyle);
+    return (color: string | null, isHighlighted: boolean) => {
+      if (color === null) return noDataStyle;
+      const cacheKey = isHighlighted ? `highlight:${color}` : color;
+      let colorStyle = stylesByColor.get(cacheKey);
+      if (!colorStyle) {
+        colorStyle = withFill(isHighlighted ? highlightedStyle : style, color);
+        stylesByColor.set(cacheKey, colorStyle);
+      }
+      return colorStyle;
+    };
+  }, [style, noDataStyle, highlightStyle]);
+
+  // Legend entries from bins match by value range; plain entries by color
+  const isHighlighted = (geography: Feature<Geometry>): boolean => {
+    if (!highlight) return false;
+    if (highlight.bin) {
+      const datumValue = choropleth.getValue(geography);
+      return (
+        datumValue !== null &&
+        isValueInBin(choropleth.scale, highlight.bin, datumValue)
+      );
+    }
+    return choropleth.getColor(geography) === highlight.color;
+  };
+
+  return (
+    <Geographies
+      {...(ref && { ref })}
+      className={`rsm-choropleth ${className}`}
+      {...(onGeographyError && { onGeographyError })}
+      {...geographiesProps}
+    >
+      {({ geographies }) =>
+        (geographies as PreparedFeature[]).map((geo) => {
+          const datum = choropleth.getDatum(geo);
+          return (
+            <Geography
+              key={geo.rsmKey}
+              {...geographyProps?.(geo, datum)}
+              geography={geo}
+              style={getStyle(choropleth.getColor(geo), isHighlighted(geo))}
+            />
+          );
+        })
+      }
+    </Geographies>
+  );
+}
+
+Choropleth.displayName = 'Choropleth';
+
+export default Choropleth;
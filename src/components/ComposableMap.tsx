@@ -1,42 +1,112 @@
-import { Ref, memo, useEffect } from 'react';
+import {
+  CSSProperties,
+  Ref,
+  memo,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react';
 import { ComposableMapProps, ProjectionConfig } from '../types';
 import { MapProvider } from './MapProvider';
 import { useMapDebugger } from '../utils/debugging';
+import { useParentSize } from '../hooks/useParentSize';
 
 const EMPTY_PROJECTION_CONFIG: ProjectionConfig = Object.freeze({});
 
+// Covers the map without taking pointer input; HTML content opts back in
+const HTML_LAYER_STYLE: CSSProperties = {
+  position: 'absolute',
+  inset: 0,
+  overflow: 'hidden',
+  pointerEvents: 'none',
+};
+
 function ComposableMap({
   width = 800,
   height = 600,
   projection = 'geoEqualEarth',
   projectionConfig = EMPTY_PROJECTION_CONFIG,
+  projectionRegistry,
   className = '',
+  responsive = false,
+  resizePolicy = 'refit',
+  htmlLayer: htmlLayerEnabled = false,
   debug = false,
   children,
   ref,
+  style,
   ...restProps
 }: Omit<ComposableMapProps, 'metadata'> & { ref?: Ref<SVGSVGElement> }) {
   const { logRender } = useMapDebugger('ComposableMap', debug);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [htmlLayer, setHtmlLayer] = useState<HTMLDivElement | null>(null);
+  useImperativeHandle(ref, () => svgRef.current as SVGSVGElement, []);
+
+  // Until the parent is measured the nominal size is drawn, scaled to fit
+  const measured = useParentSize(
+    htmlLayerEnabled ? containerRef : svgRef,
+    responsive,
+    height / width,
+  );
+  const mapWidth = measured?.width ?? width;
+  const mapHeight = measured?.height ?? height;
+  // Block layout keeps the inline baseline gap from growing the parent
+  const svgStyle = responsive ? { display: 'block', ...style } : style;
 
   useEffect(() => {
     logRender({ width, height, projection, projectionConfig, className });
   }, [logRender, width, height, projection, projectionConfig, className]);
 
+  const svg = (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${mapWidth} ${mapHeight}`}
+      className={`rsm-svg ${className}`}
+      {...(responsive && { width: '100%', height: '100%' })}
+      style={svgStyle}
+      {...restProps}
+    >
+      {children}
+    </svg>
+  );
+
   return (
     <MapProvider
-      width={width}
-      height={height}
+      width={mapWidth}
+      height={mapHeight}
       projection={projection}
       projectionConfig={projectionConfig}
+      projectionRegistry={projectionRegistry}
+      svgRef={svgRef}
+      htmlLayerEnabled={htmlLayerEnabled}
+      htmlLayer={htmlLayer}
+      {...(responsive && {
+        referenceWidth: width,
+        referenceHeight: height,
+        resizePolicy,
+      })}
     >
-      <svg
-        ref={ref}
-        viewBox={`0 0 ${width} ${height}`}
-        className={`rsm-svg ${className}`}
-        {...restProps}
-      >
-        {children}
-      </svg>
+      {htmlLayerEnabled ? (
+        <div
+          ref={containerRef}
+          className="rsm-map-container"
+          style={{
+            position: 'relative',
+            ...(responsive && { width: '100%', height: '100%' }),
+          }}
+        >
+          {svg}
+          <div
+            ref={setHtmlLayer}
+            className="rsm-html-layer"
+            style={HTML_LAYER_STYLE}
+          />
+        </div>
+      ) : (
+        svg
+      )}
     </MapProvider>
   );
 }
@@ -0,0 +1,52 @@
+import { Ref } from 'react';
+import { CoordinateReadoutProps } from '../types';
+import { formatCoordinates } from '../utils/coordinate-utils';
+import { useMapContext } from './MapProvider';
+import usePointerCoordinates from './usePointerCoordinates';
+
+// Shows the geographic coordinates under the pointer in a corner of the map.
+// Render it outside any ZoomableGroup so it stays fixed while zooming. It is
+// not a live region: announcing every pointer move would flood screen readers.
+function CoordinateReadout({
+  position = 'bottom-left',
+  margin = 16,
+  precision = 2,
+  format,
+  placeholder = null,
+  className = '',
+  ref,
+  ...restProps
+}: CoordinateReadoutProps & { ref?: Ref<SVGGElement> }) {
+  const { width, height } = useMapContext();
+  const pointer = usePointerCoordinates();
+
+  const alignRight = position.endsWith('right');
+  const alignBottom = position.startsWith('bottom');
+  const content = pointer
+    ? (format?.(pointer.coordinates) ??
+      formatCoordinates(pointer.coordinates, precision))
+    : placeholder;
+
+  return (
+    <g
+      {...(ref && { ref })}
+      className={`rsm-coordinate-readout ${className}`}
+      fontSize={11}
+      pointerEvents="none"
+      {...restProps}
+    >
+      <text
+        x={alignRight ? width - margin : margin}
+        y={alignBottom ? height - margin : margin}
+        textAnchor={alignRight ? 'end' : 'start'}
+        dominantBaseline={alignBottom ? 'auto' : 'hanging'}
+      >
+        {content}
+      </text>
+    </g>
+  );
+}
+
+CoordinateReadout.displayName = 'CoordinateReadout';
+
+export default CoordinateReadout;
@@ -1,8 +1,14 @@
 import { Ref, ReactNode, memo, useCallback, useEffect } from 'react';
-import { GeographiesProps, ErrorBoundaryFallback } from '../types';
+import {
+  GeographiesProps,
+  ErrorBoundaryFallback,
+  TopologyObjectName,
+} from '../types';
 import { useMapContext } from './MapProvider';
 import useGeographies from './useGeographies';
 import GeographyErrorBoundary from './GeographyErrorBoundary';
+import GeographyCanvas from './GeographyCanvas';
+import { GeographyNavigation } from './GeographyNavigation';
 
 const LOADING_FALLBACK = (
   <text className="rsm-loading-text" x="50%" y="50%" textAnchor="middle">
@@ -10,10 +16,16 @@ const LOADING_FALLBACK = (
   </text>
 );
 
+const EMPTY_MESHES: Record<string, string> = Object.freeze({});
+
 const GEOGRAPHIES_KNOWN_PROP_KEYS = new Set([
   'geography',
+  'objectName',
+  'meshes',
+  'renderer',
   'children',
   'parseGeographies',
+  'geographyLabel',
   'className',
   'errorBoundary',
   'onGeographyError',
@@ -21,15 +33,31 @@ const GEOGRAPHIES_KNOWN_PROP_KEYS = new Set([
   'ref',
 ]);
 
+function areObjectNamesEqual(
+  prev: TopologyObjectName | undefined,
+  next: TopologyObjectName | undefined,
+): boolean {
+  if (prev === next) return true;
+  if (typeof prev !== 'object' || typeof next !== 'object') return false;
+  return (
+    prev.length === next.length &&
+    prev.every((name, index) => name === next[index])
+  );
+}
+
 function areGeographiesPropsEqual(
   prev: Readonly<GeographiesProps<boolean> & { ref?: Ref<SVGGElement> }>,
   next: Readonly<GeographiesProps<boolean> & { ref?: Ref<SVGGElement> }>,
 ): boolean {
   if (prev.geography !== next.geography) return false;
+  if (!areObjectNamesEqual(prev.objectName, next.objectName)) return false;
+  if (prev.meshes !== next.meshes) return false;
+  if (prev.renderer !== next.renderer) return false;
   if (prev.className !== next.className) return false;
   if (prev.errorBoundary !== next.errorBoundary) return false;
   if (prev.children !== next.children) return false;
   if (prev.parseGeographies !== next.parseGeographies) return false;
+  if (prev.geographyLabel !== next.geographyLabel) return false;
   if (prev.onGeographyError !== next.onGeographyError) return false;
   if (prev.fallback !== next.fallback) return false;
   if (prev.ref !== next.ref) return false;
@@ -46,8 +74,12 @@ function areGeographiesPropsEqual(
 
 function Geographies({
   geography,
+  objectName,
+  meshes,
+  renderer = 'svg',
   children,
   parseGeographies,
+  geographyLabel,
   className = '',
   errorBoundary = false,
   onGeographyError,
@@ -59,11 +91,15 @@ function Geographies({
 
   const geographyData = useGeographies({
     geography,
+    ...(objectName !== undefined && { objectName }),
+    ...(meshes && { meshes }),
     ...(parseGeographies && { parseGeographies }),
+    renderer,
   });
 
   const { geographies, outline, borders, isLoading, error, refetch } =
     geographyData;
+  const customMeshes = geographyData.meshes ?? EMPTY_MESHES;
 
   useEffect(() => {
     if (error && onGeographyError) {
@@ -75,8 +111,15 @@ function Geographies({
     if (!geographies || geographies.length === 0) {
       return null;
     }
-    return children({ geographies, outline, borders, path, projection });
-  }, [geographies, outline, borders, children, path, projection]);
+    return children({
+      geographies,
+      outline,
+      borders,
+      meshes: customMeshes,
+      path,
+      projection,
+    });
+  }, [geographies, outline, borders, customMeshes, children, path, projection]);
 
   if (isLoading) {
     return (
@@ -109,7 +152,15 @@ function Geographies({
     );
   }
 
-  const content = renderChildren();
+  const rendered = renderChildren();
+  const content =
+    renderer === 'canvas' ? (
+      <GeographyCanvas>{rendered}</GeographyCanvas>
+    ) : (
+      <GeographyNavigation label={geographyLabel}>
+        {rendered}
+      </GeographyNavigation>
+    );
 
   if (errorBoundary) {
     const errorBoundaryProps: {
@@ -1,10 +1,31 @@
-import { useState, memo, Ref, useMemo, useCallback } from 'react';
+import {
+  useState,
+  memo,
+  Ref,
+  useMemo,
+  useCallback,
+  useContext,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
 import { GeographyProps, PreparedFeature, GeographyEventData } from '../types';
+import { CanvasGeographyContext } from './GeographyCanvas';
+import { GeographyNavigationContext } from './GeographyNavigation';
+import { SelectionContext } from './SelectionProvider';
 import {
   getGeographyCentroid,
   getGeographyBounds,
   getBestGeographyCoordinates,
 } from '../utils/geography-utils';
+import { getFeatureKey, getGeographyLabel } from '../utils/feature-keys';
+import {
+  dispatchKeyboardClick,
+  getArrowKeyDirection,
+} from '../utils/keyboard-navigation';
+import { getVariantStyle } from '../utils/selection';
 
 const GEOGRAPHY_KNOWN_PROP_KEYS = new Set([
   'geography',
@@ -13,13 +34,30 @@ const GEOGRAPHY_KNOWN_PROP_KEYS = new Set([
   'onMouseLeave',
   'onMouseDown',
   'onMouseUp',
+  'onPointerEnter',
+  'onPointerLeave',
+  'onPointerDown',
+  'onPointerUp',
   'onFocus',
   'onBlur',
+  'onKeyDown',
   'style',
   'className',
   'ref',
 ]);
 
+function areAttributesEqual(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+): boolean {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  for (const key of keys) {
+    if (GEOGRAPHY_KNOWN_PROP_KEYS.has(key)) continue;
+    if (prev[key] !== next[key]) return false;
+  }
+  return true;
+}
+
 function areGeographyPropsEqual(
   prev: Readonly<GeographyProps & { ref?: Ref<SVGPathElement> }>,
   next: Readonly<GeographyProps & { ref?: Ref<SVGPathElement> }>,
@@ -32,20 +70,24 @@ function areGeographyPropsEqual(
   if (prev.onMouseLeave !== next.onMouseLeave) return false;
   if (prev.onMouseDown !== next.onMouseDown) return false;
   if (prev.onMouseUp !== next.onMouseUp) return false;
+  if (prev.onPointerEnter !== next.onPointerEnter) return false;
+  if (prev.onPointerLeave !== next.onPointerLeave) return false;
+  if (prev.onPointerDown !== next.onPointerDown) return false;
+  if (prev.onPointerUp !== next.onPointerUp) return false;
   if (prev.onFocus !== next.onFocus) return false;
   if (prev.onBlur !== next.onBlur) return false;
+  if (prev.onKeyDown !== next.onKeyDown) return false;
   if (prev.ref !== next.ref) return false;
 
-  const prevRec = prev as Record<string, unknown>;
-  const nextRec = next as Record<string, unknown>;
-  const restKeys = new Set([...Object.keys(prevRec), ...Object.keys(nextRec)]);
-  for (const key of restKeys) {
-    if (GEOGRAPHY_KNOWN_PROP_KEYS.has(key)) continue;
-    if (prevRec[key] !== nextRec[key]) return false;
-  }
-  return true;
+  return areAttributesEqual(
+    prev as Record<string, unknown>,
+    next as Record<string, unknown>,
+  );
 }
 
+const subscribeToNothing = () => () => {};
+const EMPTY_STYLE: NonNullable<GeographyProps['style']> = Object.freeze({});
+
 function Geography({
   geography,
   onClick,
@@ -53,13 +95,21 @@ function Geography({
   onMouseLeave,
   onMouseDown,
   onMouseUp,
+  onPointerEnter,
+  onPointerLeave,
+  onPointerDown,
+  onPointerUp,
   onFocus,
   onBlur,
-  style = {},
+  onKeyDown,
+  style = EMPTY_STYLE,
   className = '',
   ref,
   ...restProps
 }: GeographyProps & { ref?: Ref<SVGPathElement> }) {
+  const pathRef = useRef<SVGPathElement>(null);
+  useImperativeHandle(ref, () => pathRef.current as SVGPathElement, []);
+
   const [isPressed, setPressed] = useState(false);
   const [isHovered, setHovered] = useState(false);
   const [isFocused, setFocused] = useState(false);
@@ -74,12 +124,28 @@ function Geography({
     };
   }, [geography]);
 
+  // Inside a SelectionProvider clicks select the geography by its feature key
+  const selection = useContext(SelectionContext);
+  const selectionKey = useMemo(
+    () => (selection ? getFeatureKey(geography, selection.featureKey) : null),
+    [selection, geography],
+  );
+  const isSelectable = selectionKey !== null;
+  const isSelected = useSyncExternalStore(
+    selection?.subscribe ?? subscribeToNothing,
+    () => isSelectable && !!selection?.isSelected(selectionKey),
+    () => isSelectable && !!selection?.isSelected(selectionKey),
+  );
+
   // Enhanced event handlers with geographic data
   const handleClick = useCallback(
     (evt: React.MouseEvent<SVGPathElement>) => {
+      if (selection && selectionKey !== null) {
+        selection.selectWithModifiers(selectionKey, evt);
+      }
       if (onClick) onClick(evt, geographyEventData);
     },
-    [onClick, geographyEventData],
+    [onClick, geographyEventData, selection, selectionKey],
   );
 
   const handleMouseEnter = useCallback(
@@ -99,21 +165,41 @@ function Geography({
     [onMouseLeave, geographyEventData, isPressed],
   );
 
+  // Inside a Geographies layer only the active geography is a tab stop
+  const navigation = useContext(GeographyNavigationContext);
+  const geographyId = useId();
+  const isTabStop = useSyncExternalStore(
+    navigation?.registry.subscribe ?? subscribeToNothing,
+    () => !navigation || navigation.registry.getActiveId() === geographyId,
+    () => !navigation || navigation.registry.getActiveId() === geographyId,
+  );
+  // Focused here or through its MapDataTable row
+  const isActive = useSyncExternalStore(
+    navigation?.featureIndex.subscribe ?? subscribeToNothing,
+    () => navigation?.featureIndex.getActiveId() === geographyId,
+    () => false,
+  );
+
   const handleFocus = useCallback(
     (evt: React.FocusEvent<SVGPathElement>) => {
       setFocused(true);
+      navigation?.registry.activate(geographyId);
+      navigation?.featureIndex.setActiveId(geographyId);
       if (onFocus) onFocus(evt, geographyEventData);
     },
-    [onFocus, geographyEventData],
+    [onFocus, geographyEventData, navigation, geographyId],
   );
 
   const handleBlur = useCallback(
     (evt: React.FocusEvent<SVGPathElement>) => {
       setFocused(false);
+      if (navigation?.featureIndex.getActiveId() === geographyId) {
+        navigation.featureIndex.setActiveId(null);
+      }
       if (isPressed) setPressed(false);
       if (onBlur) onBlur(evt, geographyEventData);
     },
-    [onBlur, geographyEventData, isPressed],
+    [onBlur, geographyEventData, isPressed, navigation, geographyId],
   );
 
   const handleMouseDown = useCallback(
@@ -132,12 +218,96 @@ function Geography({
     [onMouseUp, geographyEventData],
   );
 
+  // Pointer events also press the geography for touch and pen input, which
+  // may not produce mouse events until the gesture ends
+  const handlePointerEnter = useCallback(
+    (evt: React.PointerEvent<SVGPathElement>) => {
+      if (onPointerEnter) onPointerEnter(evt, geographyEventData);
+    },
+    [onPointerEnter, geographyEventData],
+  );
+
+  const handlePointerLeave = useCallback(
+    (evt: React.PointerEvent<SVGPathElement>) => {
+      if (isPressed) setPressed(false);
+      if (onPointerLeave) onPointerLeave(evt, geographyEventData);
+    },
+    [onPointerLeave, geographyEventData, isPressed],
+  );
+
+  const handlePointerDown = useCallback(
+    (evt: React.PointerEvent<SVGPathElement>) => {
+      setPressed(true);
+      if (onPointerDown) onPointerDown(evt, geographyEventData);
+    },
+    [onPointerDown, geographyEventData],
+  );
+
+  const handlePointerUp = useCallback(
+    (evt: React.PointerEvent<SVGPathElement>) => {
+      setPressed(false);
+      if (onPointerUp) onPointerUp(evt, geographyEventData);
+    },
+    [onPointerUp, geographyEventData],
+  );
+
+  // Arrow keys move to the nearest neighbor; Enter and Space click the path
+  const handleKeyDown = useCallback(
+    (evt: React.KeyboardEvent<SVGPathElement>) => {
+      onKeyDown?.(evt);
+      if (evt.defaultPrevented) return;
+
+      const direction = getArrowKeyDirection(evt.key);
+      if (direction && navigation) {
+        evt.preventDefault();
+        navigation.registry.move(geographyId, direction);
+      } else if (
+        (evt.key === 'Enter' || evt.key === ' ') &&
+        (onClick || isSelectable)
+      ) {
+        evt.preventDefault();
+        dispatchKeyboardClick(evt.currentTarget, evt);
+      }
+    },
+    [onKeyDown, onClick, isSelectable, navigation, geographyId],
+  );
+
+  const label = getGeographyLabel(geography, navigation?.label);
+
+  useLayoutEffect(() => {
+    if (!navigation) return;
+    const { centroid } = geographyEventData;
+    const focus = () => pathRef.current?.focus();
+    navigation.registry.set(geographyId, { centroid, focus });
+    navigation.featureIndex.set({
+      id: geographyId,
+      geography,
+      label,
+      centroid,
+      focus,
+    });
+  }, [navigation, geographyId, geography, geographyEventData, label]);
+
+  useLayoutEffect(() => {
+    if (!navigation) return;
+    return () => {
+      navigation.registry.remove(geographyId);
+      navigation.featureIndex.remove(geographyId);
+    };
+  }, [navigation, geographyId]);
+
+  useLayoutEffect(() => {
+    if (!selection || selectionKey === null) return;
+    selection.setItem(geographyId, { key: selectionKey, geography });
+    return () => selection.removeItem(geographyId);
+  }, [selection, selectionKey, geographyId, geography]);
+
   const currentState = useMemo(() => {
     if (isPressed) return 'pressed' as const;
-    if (isFocused) return 'focused' as const;
+    if (isFocused || isActive) return 'focused' as const;
     if (isHovered) return 'hover' as const;
     return 'default' as const;
-  }, [isPressed, isFocused, isHovered]);
+  }, [isPressed, isFocused, isActive, isHovered]);
 
   // Memoize the SVG path to prevent unnecessary recalculations
   const svgPath = useMemo(() => {
@@ -146,22 +316,102 @@ function Geography({
 
   // Memoize the current style to prevent unnecessary style recalculations
   const currentStyle = useMemo(() => {
-    return style[currentState];
-  }, [style, currentState]);
+    return getVariantStyle(style, currentState, isSelected);
+  }, [style, currentState, isSelected]);
+
+  // Inside a canvas renderer the layer draws and hit-tests this geography,
+  // calling the same handlers with the canvas event
+  const canvasRegistry = useContext(CanvasGeographyContext);
+
+  // Kept while the pass-through attributes are shallowly equal, so the
+  // canvas entry is only replaced when something it draws changes
+  const attributesRef = useRef(restProps);
+  if (!areAttributesEqual(attributesRef.current, restProps)) {
+    attributesRef.current = restProps;
+  }
+  const attributes = attributesRef.current;
+
+  const canvasHandlers = useMemo(
+    () => ({
+      ...((onClick || isSelectable) && { onClick: handleClick }),
+      ...(onMouseEnter && { onMouseEnter }),
+      ...(onMouseLeave && { onMouseLeave }),
+      ...(onMouseDown && { onMouseDown }),
+      ...(onMouseUp && { onMouseUp }),
+      ...(onPointerEnter && { onPointerEnter }),
+      ...(onPointerLeave && { onPointerLeave }),
+      ...(onPointerDown && { onPointerDown }),
+      ...(onPointerUp && { onPointerUp }),
+      ...(onFocus && { onFocus }),
+      ...(onBlur && { onBlur }),
+    }),
+    [
+      onClick,
+      isSelectable,
+      handleClick,
+      onMouseEnter,
+      onMouseLeave,
+      onMouseDown,
+      onMouseUp,
+      onPointerEnter,
+      onPointerLeave,
+      onPointerDown,
+      onPointerUp,
+      onFocus,
+      onBlur,
+    ],
+  );
+
+  useLayoutEffect(() => {
+    canvasRegistry?.set(geographyId, {
+      geography,
+      style,
+      selected: isSelected,
+      attributes,
+      eventData: geographyEventData,
+      handlers: canvasHandlers,
+    });
+  }, [
+    canvasRegistry,
+    geographyId,
+    geography,
+    style,
+    isSelected,
+    attributes,
+    geographyEventData,
+    canvasHandlers,
+  ]);
+
+  useLayoutEffect(() => {
+    if (!canvasRegistry) return;
+    return () => canvasRegistry.remove(geographyId);
+  }, [canvasRegistry, geographyId]);
+
+  if (canvasRegistry) {
+    return null;
+  }
 
   return (
     <path
-      ref={ref}
-      tabIndex={0}
+      ref={pathRef}
+      tabIndex={isTabStop ? 0 : -1}
+      role={onClick || isSelectable ? 'button' : 'img'}
+      {...(isSelectable && { 'aria-pressed': isSelected })}
+      {...(label && { 'aria-label': label })}
       className={`rsm-geography ${className}`}
       d={svgPath}
       onClick={handleClick}
+      onKeyDown={handleKeyDown}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
       onFocus={handleFocus}
       onBlur={handleBlur}
       onMouseDown={handleMouseDown}
       onMouseUp={handleMouseUp}
+      onPointerEnter={handlePointerEnter}
+      onPointerLeave={handlePointerLeave}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
       style={currentStyle}
       {...restProps}
     />
@@ -0,0 +1,428 @@
+import {
+  CSSProperties,
+  FocusEvent,
+  KeyboardEvent,
+  MouseEvent,
+  PointerEvent,
+  ReactNode,
+  SVGProps,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+} from 'react';
+import { geoPath } from 'd3-geo';
+import { Feature, Geometry } from 'geojson';
+import {
+  ConditionalStyle,
+  GeographyEventData,
+  GeographyProps,
+  StyleVariant,
+} from '../types';
+import {
+  findGeographyAt,
+  paintGeography,
+  ProjectedBounds,
+  resolveCanvasPaint,
+} from '../utils/canvas-rendering';
+import { dispatchKeyboardClick } from '../utils/keyboard-navigation';
+import { getVariantStyle } from '../utils/selection';
+import { useMapContext } from './MapProvider';
+import { ZoomPanContext } from './ZoomPanProvider';
+
+type GeographyHandlers = Pick<
+  GeographyProps,
+  | 'onClick'
+  | 'onMouseEnter'
+  | 'onMouseLeave'
+  | 'onMouseDown'
+  | 'onMouseUp'
+  | 'onPointerEnter'
+  | 'onPointerLeave'
+  | 'onPointerDown'
+  | 'onPointerUp'
+  | 'onFocus'
+  | 'onBlur'
+>;
+
+export interface CanvasGeographyEntry {
+  geography: Feature<Geometry>;
+  style: ConditionalStyle<CSSProperties>;
+  selected: boolean;
+  attributes: SVGProps<SVGPathElement>;
+  eventData: GeographyEventData;
+  handlers: GeographyHandlers;
+}
+
+export interface CanvasGeographyRegistry {
+  set: (id: string, entry: CanvasGeographyEntry) => void;
+  remove: (id: string) => void;
+}
+
+interface CanvasTarget extends CanvasGeographyEntry {
+  id: string;
+}
+
+interface InteractionState {
+  hovered: string | null;
+  // Target of pointer enter and leave handlers, which follow pointer events
+  pointerHovered: string | null;
+  pressed: string | null;
+  focused: string | null;
+}
+
+// Geography elements rendered inside a canvas layer register here instead of
+// rendering an SVG path.
+export const CanvasGeographyContext =
+  createContext<CanvasGeographyRegistry | null>(null);
+
+const IDENTITY_TRANSFORM = { x: 0, y: 0, k: 1 };
+
+// Draws registered geographies to a <canvas> and hit-tests pointer input
+export function GeographyCanvas({ children }: { children: ReactNode }) {
+  const { width, height, projection, path } = useMapContext();
+  const zoom = useContext(ZoomPanContext) ?? IDENTITY_TRANSFORM;
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const targetsRef = useRef(new Map<string, CanvasTarget>());
+  const interactionRef = useRef<InteractionState>({
+    hovered: null,
+    pointerHovered: null,
+    pressed: null,
+    focused: null,
+  });
+  const frameRef = useRef<number | null>(null);
+  // Target of a keyboard click, which has no pointer position to hit-test
+  const activatedRef = useRef<CanvasTarget | null>(null);
+
+  // devicePixelRatio is undefined outside the browser
+  const pixelRatio = globalThis.devicePixelRatio || 1;
+
+  // Projected bounds let hit-testing skip most features without a
+  // spherical containment test
+  const getBounds = useMemo(() => {
+    const cache = new WeakMap<Feature<Geometry>, ProjectedBounds>();
+    return (geography: Feature<Geometry>): ProjectedBounds => {
+      let bounds = cache.get(geography);
+      if (!bounds) {
+        bounds = path.bounds(geography);
+        cache.set(geography, bounds);
+      }
+      return bounds;
+    };
+  }, [path]);
+
+  const draw = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.setTransform(
+      pixelRatio * zoom.k,
+      0,
+      0,
+      pixelRatio * zoom.k,
+      pixelRatio * zoom.x,
+      pixelRatio * zoom.y,
+    );
+
+    const canvasPath = geoPath(projection, context);
+    const { hovered, pressed, focused } = interactionRef.current;
+    for (const target of targetsRef.current.values()) {
+      const variant: StyleVariant =
+        target.id === pressed
+          ? 'pressed'
+          : target.id === focused
+            ? 'focused'
+            : target.id === hovered
+              ? 'hover'
+              : 'default';
+      paintGeography(
+        context,
+        canvasPath,
+        target.geography,
+        resolveCanvasPaint(
+          target.attributes,
+          getVariantStyle(target.style, variant, target.selected),
+        ),
+      );
+    }
+  }, [projection, zoom.x, zoom.y, zoom.k, pixelRatio]);
+
+  const drawRef = useRef(draw);
+
+  // Children register in their own layout effects, which run before this one,
+  // so the first draw already sees every geography
+  useLayoutEffect(() => {
+    drawRef.current = draw;
+    draw();
+  }, [draw]);
+
+  useEffect(
+    () => () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    },
+    [],
+  );
+
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    if (typeof requestAnimationFrame === 'undefined') {
+      drawRef.current();
+      return;
+    }
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+
+  const registry = useMemo(
+    (): CanvasGeographyRegistry => ({
+      set: (id, entry) => {
+        targetsRef.current.set(id, { id, ...entry });
+        scheduleDraw();
+      },
+      remove: (id) => {
+        targetsRef.current.delete(id);
+        const interaction = interactionRef.current;
+        if (interaction.hovered === id) interaction.hovered = null;
+        if (interaction.pointerHovered === id)
+          interaction.pointerHovered = null;
+        if (interaction.pressed === id) interaction.pressed = null;
+        if (interaction.focused === id) interaction.focused = null;
+        scheduleDraw();
+      },
+    }),
+    [scheduleDraw],
+  );
+
+  const getTargetAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    // The SVG may be scaled by CSS, so map client pixels to viewBox units
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? width / rect.width : 1;
+    const scaleY = rect.height > 0 ? height / rect.height : 1;
+    const x = ((clientX - rect.left) * scaleX - zoom.x) / zoom.k;
+    const y = ((clientY - rect.top) * scaleY - zoom.y) / zoom.k;
+
+    return findGeographyAt(
+      Array.from(targetsRef.current.values()),
+      [x, y],
+      projection,
+      getBounds,
+    );
+  };
+
+  const setHovered = (
+    target: CanvasTarget | null,
+    event: MouseEvent<HTMLCanvasElement>,
+  ) => {
+    const interaction = interactionRef.current;
+    const nextId = target?.id ?? null;
+    if (interaction.hovered === nextId) return;
+
+    const previous = interaction.hovered
+      ? targetsRef.current.get(interaction.hovered)
+      : undefined;
+    interaction.hovered = nextId;
+    if (previous) {
+      if (interaction.pressed === previous.id) interaction.pressed = null;
+      previous.handlers.onMouseLeave?.(event, previous.eventData);
+    }
+    target?.handlers.onMouseEnter?.(event, target.eventData);
+
+    event.currentTarget.style.cursor = target?.handlers.onClick
+      ? 'pointer'
+      : '';
+    drawRef.current();
+  };
+
+  const setFocused = (
+    target: CanvasTarget | null,
+    event: FocusEvent<HTMLCanvasElement> | KeyboardEvent<HTMLCanvasElement>,
+  ) => {
+    const interaction = interactionRef.current;
+    const nextId = target?.id ?? null;
+    if (interaction.focused === nextId) return;
+
+    const previous = interaction.focused
+      ? targetsRef.current.get(interaction.focused)
+      : undefined;
+    interaction.focused = nextId;
+    if (previous) {
+      if (interaction.pressed === previous.id) interaction.pressed = null;
+      previous.handlers.onBlur?.(event, previous.eventData);
+    }
+    target?.handlers.onFocus?.(event, target.eventData);
+    drawRef.current();
+  };
+
+  const handleMouseMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    setHovered(getTargetAt(event.clientX, event.clientY), event);
+  };
+
+  const handleMouseLeave = (event: MouseEvent<HTMLCanvasElement>) => {
+    setHovered(null, event);
+  };
+
+  const handleMouseDown = (event: MouseEvent<HTMLCanvasElement>) => {
+    const target = getTargetAt(event.clientX, event.clientY);
+    setHovered(target, event);
+    if (!target) return;
+    interactionRef.current.pressed = target.id;
+    target.handlers.onMouseDown?.(event, target.eventData);
+    drawRef.current();
+  };
+
+  const handleMouseUp = (event: MouseEvent<HTMLCanvasElement>) => {
+    const target = getTargetAt(event.clientX, event.clientY);
+    if (interactionRef.current.pressed !== null) {
+      interactionRef.current.pressed = null;
+      drawRef.current();
+    }
+    target?.handlers.onMouseUp?.(event, target.eventData);
+  };
+
+  const setPointerHovered = (
+    target: CanvasTarget | null,
+    event: PointerEvent<HTMLCanvasElement>,
+  ) => {
+    const interaction = interactionRef.current;
+    const nextId = target?.id ?? null;
+    if (interaction.pointerHovered === nextId) return;
+
+    const previous = interaction.pointerHovered
+      ? targetsRef.current.get(interaction.pointerHovered)
+      : undefined;
+    interaction.pointerHovered = nextId;
+    previous?.handlers.onPointerLeave?.(event, previous.eventData);
+    target?.handlers.onPointerEnter?.(event, target.eventData);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    setPointerHovered(getTargetAt(event.clientX, event.clientY), event);
+  };
+
+  const handlePointerLeave = (event: PointerEvent<HTMLCanvasElement>) => {
+    setPointerHovered(null, event);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const target = getTargetAt(event.clientX, event.clientY);
+    setPointerHovered(target, event);
+    target?.handlers.onPointerDown?.(event, target.eventData);
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    const target = getTargetAt(event.clientX, event.clientY);
+    target?.handlers.onPointerUp?.(event, target.eventData);
+  };
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    const target =
+      activatedRef.current ?? getTargetAt(event.clientX, event.clientY);
+    target?.handlers.onClick?.(event, target.eventData);
+  };
+
+  // Focusing the canvas focuses the geography under the pointer, or the first one
+  const handleFocus = (event: FocusEvent<HTMLCanvasElement>) => {
+    const { hovered } = interactionRef.current;
+    const target =
+      (hovered && targetsRef.current.get(hovered)) ||
+      targetsRef.current.values().next().value ||
+      null;
+    setFocused(target, event);
+  };
+
+  const handleBlur = (event: FocusEvent<HTMLCanvasElement>) => {
+    setFocused(null, event);
+  };
+
+  // Arrow keys move focus between geographies in draw order; Enter and Space
+  // click the focused one
+  const handleKeyDown = (event: KeyboardEvent<HTMLCanvasElement>) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      const { focused } = interactionRef.current;
+      const target = focused ? targetsRef.current.get(focused) : undefined;
+      if (!target?.handlers.onClick) return;
+      event.preventDefault();
+      activatedRef.current = target;
+      try {
+        dispatchKeyboardClick(event.currentTarget, event);
+      } finally {
+        activatedRef.current = null;
+      }
+      return;
+    }
+
+    const step =
+      event.key === 'ArrowRight' || event.key === 'ArrowDown'
+        ? 1
+        : event.key === 'ArrowLeft' || event.key === 'ArrowUp'
+          ? -1
+          : 0;
+    const targets = Array.from(targetsRef.current.values());
+    if (step === 0 || targets.length === 0) return;
+
+    event.preventDefault();
+    const { focused } = interactionRef.current;
+    const index = targets.findIndex((target) => target.id === focused);
+    const nextIndex =
+      index === -1 ? 0 : (index + step + targets.length) % targets.length;
+    setFocused(targets[nextIndex] ?? null, event);
+  };
+
+  return (
+    <>
+      {/* Cancel the zoom transform so the bitmap stays at screen resolution */}
+      <foreignObject
+        className="rsm-geographies-canvas"
+        x={0}
+        y={0}
+        width={width}
+        height={height}
+        transform={`scale(${1 / zoom.k}) translate(${-zoom.x} ${-zoom.y})`}
+      >
+        <canvas
+          ref={canvasRef}
+          width={Math.round(width * pixelRatio)}
+          height={Math.round(height * pixelRatio)}
+          style={{ display: 'block', width: '100%', height: '100%' }}
+          tabIndex={0}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={handleMouseLeave}
+          onMouseDown={handleMouseDown}
+          onMouseUp={handleMouseUp}
+          onPointerMove={handlePointerMove}
+          onPointerLeave={handlePointerLeave}
+          onPointerDown={handlePointerDown}
+          onPointerUp={handlePointerUp}
+          onClick={handleClick}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
+        />
+      </foreignObject>
+      <CanvasGeographyContext value={registry}>
+        {children}
+      </CanvasGeographyContext>
+    </>
+  );
+}
+
+GeographyCanvas.displayName = 'GeographyCanvas';
+
+export default GeographyCanvas;
@@ -0,0 +1,127 @@
+import {
+  ReactNode,
+  createContext,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Coordinates, FeatureKeyAccessor, MapFeatureIndex } from '../types';
+import {
+  findNearestInDirection,
+  NavigationDirection,
+} from '../utils/keyboard-navigation';
+import { useMapContext } from './MapProvider';
+
+export interface GeographyNavigationEntry {
+  centroid: Coordinates | null;
+  focus: () => void;
+}
+
+// Roving tabindex over the geographies of one Geographies layer: only the
+// active geography is a tab stop, and arrow keys move between neighbors
+export interface GeographyNavigationRegistry {
+  set: (id: string, entry: GeographyNavigationEntry) => void;
+  remove: (id: string) => void;
+  // Makes a geography the tab stop, e.g. when it receives focus
+  activate: (id: string) => void;
+  // Focuses the nearest geography in a direction from the given one
+  move: (id: string, direction: NavigationDirection) => void;
+  subscribe: (listener: () => void) => () => void;
+  // The activated geography, or the first registered one
+  getActiveId: () => string | null;
+}
+
+export interface GeographyNavigationValue {
+  registry: GeographyNavigationRegistry;
+  label: FeatureKeyAccessor | undefined;
+  // Map-wide list of rendered geographies, shared with MapDataTable
+  featureIndex: MapFeatureIndex;
+}
+
+export const GeographyNavigationContext =
+  createContext<GeographyNavigationValue | null>(null);
+
+// Provides keyboard navigation to the Geography elements rendered inside it
+export function GeographyNavigation({
+  label,
+  children,
+}: {
+  label?: FeatureKeyAccessor | undefined;
+  children: ReactNode;
+}) {
+  const { projection, featureIndex } = useMapContext();
+  // Read by the registry's move, which lives as long as the component
+  const projectionRef = useRef(projection);
+  useLayoutEffect(() => {
+    projectionRef.current = projection;
+  }, [projection]);
+
+  const [registry] = useState((): GeographyNavigationRegistry => {
+    const entries = new Map<string, GeographyNavigationEntry>();
+    const listeners = new Set<() => void>();
+    let selectedId: string | null = null;
+    let activeId: string | null = null;
+
+    const update = () => {
+      const nextId =
+        selectedId !== null && entries.has(selectedId)
+          ? selectedId
+          : (entries.keys().next().value ?? null);
+      if (nextId === activeId) return;
+      activeId = nextId;
+      listeners.forEach((listener) => listener());
+    };
+
+    return {
+      set: (id, entry) => {
+        entries.set(id, entry);
+        update();
+      },
+      remove: (id) => {
+        entries.delete(id);
+        update();
+      },
+      activate: (id) => {
+        selectedId = id;
+        update();
+      },
+      move: (id, direction) => {
+        const project = (entry: GeographyNavigationEntry) =>
+          entry.centroid ? projectionRef.current(entry.centroid) : null;
+        const from = entries.get(id);
+        const start = from && project(from);
+        if (!start) return;
+
+        const ids = Array.from(entries.keys());
+        const points = Array.from(entries.values(), (entry, index) =>
+          ids[index] === id ? null : project(entry),
+        );
+        const nextId = ids[findNearestInDirection(start, points, direction)];
+        if (nextId === undefined) return;
+
+        selectedId = nextId;
+        update();
+        entries.get(nextId)?.focus();
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      getActiveId: () => activeId,
+    };
+  });
+
+  const value = useMemo(
+    () => ({ registry, label, featureIndex }),
+    [registry, label, featureIndex],
+  );
+
+  return (
+    <GeographyNavigationContext value={value}>
+      {children}
+    </GeographyNavigationContext>
+  );
+}
+
+GeographyNavigation.displayName = 'GeographyNavigation';
@@ -0,0 +1,136 @@
+import {
+  CSSProperties,
+  Ref,
+  createContext,
+  useCallback,
+  useContext,
+} from 'react';
+import { createPortal } from 'react-dom';
+import {
+  Coordinates,
+  HtmlOverlayAnchor,
+  HtmlOverlayItemProps,
+  HtmlOverlayProps,
+} from '../types';
+import { createGeographyError } from '../utils';
+import { mapToScreenCoordinates } from '../utils/coordinate-utils';
+import { useActiveZoomTransform } from '../hooks/useActiveZoomTransform';
+import { useHtmlLayerFit } from '../hooks/useHtmlLayerFit';
+import { useHtmlLayer } from '../hooks/useHtmlLayer';
+import { useMapContext } from './MapProvider';
+
+// Position of a point in the overlay in CSS pixels, or null when it is hidden
+type OverlayLocator = (coordinates: Coordinates) => [number, number] | null;
+
+const HtmlOverlayContext = createContext<OverlayLocator | null>(null);
+
+const ANCHOR_TRANSLATE: Record<HtmlOverlayAnchor, string> = {
+  center: 'translate(-50%, -50%)',
+  top: 'translate(-50%, 0)',
+  bottom: 'translate(-50%, -100%)',
+  left: 'translate(0, -50%)',
+  right: 'translate(-100%, -50%)',
+};
+
+// Layer of HTML content over the map. It renders in the HTML layer next to
+// the map's <svg>, so items are laid out in CSS pixels and never scaled with
+// the viewBox. Place it outside any ZoomableGroup; items follow its zoom and
+// pan.
+export function HtmlOverlay({
+  className = '',
+  style,
+  children,
+  ref,
+  ...restProps
+}: HtmlOverlayProps & { ref?: Ref<HTMLDivElement> }) {
+  const { width, height, projection } = useMapContext();
+  const htmlLayer = useHtmlLayer('HtmlOverlay');
+  const { x, y, k } = useActiveZoomTransform();
+  const fit = useHtmlLayerFit();
+
+  // Points on the far side of a globe or outside the map are hidden
+  const locate = useCallback<OverlayLocator>(
+    (coordinates) => {
+      if (!fit) return null;
+      const point = mapToScreenCoordinates(coordinates, projection, {
+        x,
+        y,
+        k,
+      });
+      if (!point) return null;
+      const [px, py] = point;
+      if (px < 0 || px > width || py < 0 || py > height) return null;
+      return [px * fit.scale + fit.left, py * fit.scale + fit.top];
+    },
+    [fit, projection, x, y, k, width, height],
+  );
+
+  if (!htmlLayer) return null;
+
+  return createPortal(
+    <div
+      ref={ref}
+      className={`rsm-html-overlay ${className}`}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        pointerEvents: 'none',
+        ...style,
+      }}
+      {...restProps}
+    >
+      <HtmlOverlayContext value={locate}>{children}</HtmlOverlayContext>
+    </div>,
+    htmlLayer,
+  );
+}
+
+HtmlOverlay.displayName = 'HtmlOverlay';
+
+// HTML content placed at geographic coordinates inside an HtmlOverlay. Hidden
+// items stay mounted, so form controls keep their state.
+export function HtmlOverlayItem({
+  coordinates,
+  anchor = 'center',
+  className = '',
+  style,
+  children,
+  ref,
+  ...restProps
+}: HtmlOverlayItemProps & { ref?: Ref<HTMLDivElement> }) {
+  const locate = useContext(HtmlOverlayContext);
+  if (!locate) {
+    throw createGeographyError(
+      'CONTEXT_ERROR',
+      'HtmlOverlayItem must be used within an HtmlOverlay',
+    );
+  }
+
+  const point = locate(coordinates);
+  const positionStyle: CSSProperties = point
+    ? {
+        left: point[0],
+        top: point[1],
+        transform: ANCHOR_TRANSLATE[anchor],
+      }
+    : { display: 'none' };
+
+  return (
+    <div
+      ref={ref}
+      className={`rsm-html-overlay-item ${className}`}
+      style={{
+        position: 'absolute',
+        pointerEvents: 'auto',
+        ...style,
+        ...positionStyle,
+      }}
+      {...(!point && { 'aria-hidden': true })}
+      {...restProps}
+    >
+      {children}
+    </div>
+  );
+}
+
+HtmlOverlayItem.displayName = 'HtmlOverlayItem';
@@ -0,0 +1,33 @@
+import { Ref } from 'react';
+import {
+  CategoricalLegendProps,
+  GradientLegendProps,
+  LegendProps,
+  ProportionalLegendProps,
+  SteppedLegendProps,
+} from '../types';
+import {
+  CategoricalLegend,
+  GradientLegend,
+  ProportionalLegend,
+  SteppedLegend,
+} from './legend';
+
+function Legend({ type, ...props }: LegendProps & { ref?: Ref<SVGGElement> }) {
+  switch (type) {
+    case 'categorical':
+      return <CategoricalLegend {...(props as CategoricalLegendProps)} />;
+    case 'stepped':
+      return <SteppedLegend {...(props as SteppedLegendProps)} />;
+    case 'gradient':
+      return <GradientLegend {...(props as GradientLegendProps)} />;
+    case 'proportional':
+      return <ProportionalLegend {...(props as ProportionalLegendProps)} />;
+    default:
+      return null;
+  }
+}
+
+Legend.displayName = 'Legend';
+
+export default Legend;
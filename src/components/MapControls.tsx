@@ -1,205 +1,123 @@
-import { useActionState, useOptimistic, ReactNode } from 'react';
-import { Position, Coordinates, Longitude, Latitude } from '../types';
-
-// Action types for map controls (currently unused but kept for future extensibility)
-// type MapControlAction =
-//   | { type: "RESET_VIEW" }
-//   | { type: "SET_ZOOM"; zoom: number }
-//   | { type: "SET_CENTER"; center: Coordinates }
-//   | { type: "SELECT_GEOGRAPHY"; geography: string }
-
-interface MapControlState {
-  position: Position;
-  selectedGeography: string | null;
-  isLoading: boolean;
-  error: string | null;
+import { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Coordinates,
+  MapController,
+  MapControlsProps,
+  Position,
+  ScaleExtent,
+  createCoordinates,
+  createScaleExtent,
+} from '../types';
+import { useMapCamera } from '../hooks/useMapCamera';
+import { MapContext } from './MapProvider';
+
+// Zoom levels this close to a limit count as at the limit
+const ZOOM_EPSILON = 1e-6;
+
+const DEFAULT_POSITION: Position = {
+  coordinates: createCoordinates(0, 0),
+  zoom: 1,
+};
+// Zoom limits of controls that keep their own position
+const STANDALONE_SCALE_EXTENT = createScaleExtent(0.1, 20);
+
+// The camera moves the controls make
+interface ControlsCamera {
+  controller: Pick<MapController, 'flyTo' | 'zoomIn' | 'zoomOut' | 'resetView'>;
+  scaleExtent: ScaleExtent;
 }
 
-interface MapControlsProps {
-  initialPosition?: Position;
-  onPositionChange?: (position: Position) => void;
-  onGeographySelect?: (geography: string | null) => void;
-  children?: (props: {
-    position: Position;
-    selectedGeography: string | null;
-    isLoading: boolean;
-    resetView: () => void;
-    setZoom: (zoom: number) => void;
-    setCenter: (center: Coordinates) => void;
-    selectGeography: (geography: string | null) => void;
-  }) => ReactNode;
-}
+type ControlsProps = Omit<MapControlsProps, 'initialPosition'> & {
+  camera: ControlsCamera | null;
+  position: Position;
+};
 
-// Server Action for map control updates
-async function updateMapControlAction(
-  previousState: MapControlState,
-  formData: FormData,
-): Promise<MapControlState> {
-  const action = formData.get('action') as string;
-
-  try {
-    switch (action) {
-      case 'RESET_VIEW':
-        return {
-          ...previousState,
-          position: { coordinates: [0 as Longitude, 0 as Latitude], zoom: 1 },
-          selectedGeography: null,
-          isLoading: false,
-          error: null,
-        };
-
-      case 'SET_ZOOM': {
-        const zoom = parseFloat(formData.get('zoom') as string);
-        if (isNaN(zoom) || zoom < 0.1 || zoom > 20) {
-          return {
-            ...previousState,
-            error: 'Invalid zoom level. Must be between 0.1 and 20.',
-          };
-        }
-        return {
-          ...previousState,
-          position: { ...previousState.position, zoom },
-          error: null,
-        };
-      }
-
-      case 'SET_CENTER': {
-        const lng = parseFloat(formData.get('lng') as string);
-        const lat = parseFloat(formData.get('lat') as string);
-        if (
-          isNaN(lng) ||
-          isNaN(lat) ||
-          lng < -180 ||
-          lng > 180 ||
-          lat < -90 ||
-          lat > 90
-        ) {
-          return {
-            ...previousState,
-            error:
-              'Invalid coordinates. Longitude: -180 to 180, Latitude: -90 to 90.',
-          };
-        }
-        return {
-          ...previousState,
-          position: {
-            ...previousState.position,
-            coordinates: [lng as Longitude, lat as Latitude],
-          },
-          error: null,
-        };
-      }
-
-      case 'SELECT_GEOGRAPHY': {
-        const geography = formData.get('geography') as string;
-        return {
-          ...previousState,
-          selectedGeography: geography || null,
-          error: null,
-        };
-      }
-
-      default:
-        return {
-          ...previousState,
-          error: 'Unknown action',
-        };
-    }
-  } catch (error) {
-    return {
-      ...previousState,
-      error: error instanceof Error ? error.message : 'An error occurred',
-    };
-  }
-}
+const isSamePosition = (a: Position, b: Position) =>
+  a.zoom === b.zoom &&
+  a.coordinates[0] === b.coordinates[0] &&
+  a.coordinates[1] === b.coordinates[1];
 
-export function MapControls({
-  initialPosition = { coordinates: [0 as Longitude, 0 as Latitude], zoom: 1 },
+function Controls({
+  camera,
+  position,
   onPositionChange,
   onGeographySelect,
+  animation,
   children,
-}: MapControlsProps) {
-  const initialState: MapControlState = {
-    position: initialPosition,
-    selectedGeography: null,
-    isLoading: false,
-    error: null,
-  };
-
-  const [state, submitAction, isPending] = useActionState(
-    updateMapControlAction,
-    initialState,
-  );
-
-  // Optimistic updates for immediate UI feedback
-  const [optimisticState, setOptimisticState] = useOptimistic(
-    state,
-    (currentState, optimisticUpdate: Partial<MapControlState>) => ({
-      ...currentState,
-      ...optimisticUpdate,
-    }),
+}: ControlsProps) {
+  const [selectedGeography, setSelectedGeography] = useState<string | null>(
+    null,
   );
+  const [error, setError] = useState<string | null>(null);
+
+  const [minZoom, maxZoom] = camera?.scaleExtent ?? [
+    position.zoom,
+    position.zoom,
+  ];
+  const controller = camera?.controller;
+
+  // Report every move after the first published position
+  const onPositionChangeRef = useRef(onPositionChange);
+  const reportedRef = useRef<Position | null>(null);
+  useEffect(() => {
+    onPositionChangeRef.current = onPositionChange;
+  });
+  useEffect(() => {
+    if (!camera) return;
+    const reported = reportedRef.current;
+    reportedRef.current = position;
+    if (reported && !isSamePosition(reported, position)) {
+      onPositionChangeRef.current?.(position);
+    }
+  }, [camera, position]);
 
-  // Action creators that use the Actions API
   const resetView = () => {
-    setOptimisticState({
-      position: { coordinates: [0 as Longitude, 0 as Latitude], zoom: 1 },
-      selectedGeography: null,
-    });
-
-    const formData = new FormData();
-    formData.append('action', 'RESET_VIEW');
-    submitAction(formData);
-
-    if (onPositionChange) {
-      onPositionChange({
-        coordinates: [0 as Longitude, 0 as Latitude],
-        zoom: 1,
-      });
-    }
+    controller?.resetView(animation);
+    setSelectedGeography(null);
+    setError(null);
     if (onGeographySelect) {
       onGeographySelect(null);
     }
   };
 
   const setZoom = (zoom: number) => {
-    const newPosition = { ...optimisticState.position, zoom };
-    setOptimisticState({ position: newPosition });
-
-    const formData = new FormData();
-    formData.append('action', 'SET_ZOOM');
-    formData.append('zoom', zoom.toString());
-    submitAction(formData);
-
-    if (onPositionChange) {
-      onPositionChange(newPosition);
+    if (!controller) return;
+    if (
+      !Number.isFinite(zoom) ||
+      zoom < minZoom - ZOOM_EPSILON ||
+      zoom > maxZoom + ZOOM_EPSILON
+    ) {
+      setError(
+        `Invalid zoom level. Must be between ${minZoom} and ${maxZoom}.`,
+      );
+      return;
     }
+    setError(null);
+    controller.zoomIn(zoom / position.zoom, animation);
   };
 
   const setCenter = (center: Coordinates) => {
-    const newPosition = { ...optimisticState.position, coordinates: center };
-    setOptimisticState({ position: newPosition });
-
-    const formData = new FormData();
-    formData.append('action', 'SET_CENTER');
-    formData.append('lng', center[0].toString());
-    formData.append('lat', center[1].toString());
-    submitAction(formData);
-
-    if (onPositionChange) {
-      onPositionChange(newPosition);
+    if (!controller) return;
+    const [lng, lat] = center;
+    if (
+      isNaN(lng) ||
+      isNaN(lat) ||
+      lng < -180 ||
+      lng > 180 ||
+      lat < -90 ||
+      lat > 90
+    ) {
+      setError(
+        'Invalid coordinates. Longitude: -180 to 180, Latitude: -90 to 90.',
+      );
+      return;
     }
+    setError(null);
+    controller.flyTo(center, undefined, animation);
   };
 
   const selectGeography = (geography: string | null) => {
-    setOptimisticState({ selectedGeography: geography });
-
-    const formData = new FormData();
-    formData.append('action', 'SELECT_GEOGRAPHY');
-    if (geography) {
-      formData.append('geography', geography);
-    }
-    submitAction(formData);
+    setSelectedGeography(geography);
 
     if (onGeographySelect) {
       onGeographySelect(geography);
@@ -210,9 +128,17 @@ export function MapControls({
     return (
       <>
         {children({
-          position: optimisticState.position,
-          selectedGeography: optimisticState.selectedGeography,
-          isLoading: isPending,
+          position,
+          minZoom,
+          maxZoom,
+          canZoomIn: !!controller && position.zoom < maxZoom - ZOOM_EPSILON,
+          canZoomOut: !!controller && position.zoom > minZoom + ZOOM_EPSILON,
+          isReady: !!controller,
+          isLoading: false,
+          error,
+          selectedGeography,
+          zoomIn: (factor) => controller?.zoomIn(factor, animation),
+          zoomOut: (factor) => controller?.zoomOut(factor, animation),
           resetView,
           setZoom,
           setCenter,
@@ -225,4 +151,59 @@ export function MapControls({
   return null;
 }
 
+function CameraControls(props: MapControlsProps) {
+  const { camera, position } = useMapCamera();
+  return <Controls {...props} camera={camera} position={position} />;
+}
+
+// Outside a map there is no camera to drive, so the controls keep their own
+// position, starting at initialPosition
+function StandaloneControls({
+  initialPosition = DEFAULT_POSITION,
+  ...props
+}: MapControlsProps) {
+  const [position, setPosition] = useState(initialPosition);
+
+  const camera = useMemo(
+    (): ControlsCamera => ({
+      controller: {
+        flyTo: (coordinates, zoom) =>
+          setPosition((current) => ({
+            coordinates,
+            zoom: zoom ?? current.zoom,
+          })),
+        zoomIn: (factor = 2) =>
+          setPosition((current) => ({
+            ...current,
+            zoom: current.zoom * factor,
+          })),
+        zoomOut: (factor = 2) =>
+          setPosition((current) => ({
+            ...current,
+            zoom: current.zoom / factor,
+          })),
+        resetView: () => setPosition(initialPosition),
+      },
+      scaleExtent: STANDALONE_SCALE_EXTENT,
+    }),
+    [initialPosition],
+  );
+
+  return <Controls {...props} camera={camera} position={position} />;
+}
+
+// Render-prop controls for the map's ZoomableGroup. The actions move the
+// group's camera within its scaleExtent, and position follows the camera,
+// including drags and wheel zooms. Outside a ComposableMap the controls keep
+// their own position instead.
+export function MapControls(props: MapControlsProps) {
+  return useContext(MapContext) ? (
+    <CameraControls {...props} />
+  ) : (
+    <StandaloneControls {...props} />
+  );
+}
+
+MapControls.displayName = 'MapControls';
+
 export default MapControls;
@@ -0,0 +1,222 @@
+import {
+  CSSProperties,
+  KeyboardEvent,
+  Ref,
+  useMemo,
+  useSyncExternalStore,
+} from 'react';
+import { createPortal } from 'react-dom';
+import {
+  MapDataTableColumn,
+  MapDataTableProps,
+  MapDataTableRow,
+  MapFeatureEntry,
+} from '../types';
+import { formatCoordinates } from '../utils/coordinate-utils';
+import { useHtmlLayer } from '../hooks/useHtmlLayer';
+import { useMapContext } from './MapProvider';
+
+// Keeps the table in the accessibility tree while taking no visible space
+const VISUALLY_HIDDEN: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  overflow: 'hidden',
+  clipPath: 'inset(50%)',
+  whiteSpace: 'nowrap',
+};
+
+// Shown over the map; takes pointer input back from the HTML layer
+const OVERLAY: CSSProperties = {
+  position: 'absolute',
+  inset: 0,
+  overflow: 'auto',
+  pointerEvents: 'auto',
+};
+
+function formatField(field: unknown): string {
+  if (field === null || field === undefined) return '';
+  return typeof field === 'object' ? JSON.stringify(field) : String(field);
+}
+
+// Fields of the bound data, in first-seen order across rows
+function getDatumFields(rows: readonly MapDataTableRow[]): string[] {
+  const fields = new Set<string>();
+  for (const { datum } of rows) {
+    if (datum !== null && typeof datum === 'object') {
+      Object.keys(datum).forEach((field) => fields.add(field));
+    }
+  }
+  return Array.from(fields);
+}
+
+function getDefaultColumns(
+  rows: readonly MapDataTableRow[],
+  hasData: boolean,
+  precision: number,
+): MapDataTableColumn[] {
+  const name: MapDataTableColumn = {
+    header: 'Name',
+    cell: ({ label }) => label ?? '',
+  };
+  const centroid: MapDataTableColumn = {
+    header: 'Centroid',
+    cell: ({ centroid }) =>
+      centroid ? formatCoordinates(centroid, precision) : '',
+  };
+  if (!hasData) return [name, centroid];
+
+  return [
+    name,
+    { header: 'Value', cell: ({ value }) => value ?? '' },
+    centroid,
+    ...getDatumFields(rows).map((field): MapDataTableColumn => ({
+      header: field,
+      cell: ({ datum }) =>
+        datum !== null && typeof datum === 'object'
+          ? formatField((datum as Record<string, unknown>)[field])
+          : '',
+    })),
+  ];
+}
+
+// HTML table of the geographies the map renders, as a non-visual equivalent
+// of the map. It renders in the HTML layer next to the map's <svg>. Focusing a
+// row highlights its Geography, and focusing a Geography marks its row.
+// Render it outside any ZoomableGroup.
+function MapDataTable({
+  caption,
+  columns,
+  data,
+  visuallyHidden = true,
+  precision = 2,
+  className = '',
+  ref,
+  ...restProps
+}: MapDataTableProps & { ref?: Ref<HTMLTableElement> }) {
+  const { featureIndex } = useMapContext();
+  const htmlLayer = useHtmlLayer('MapDataTable');
+  const entries = useSyncExternalStore(
+    featureIndex.subscribe,
+    featureIndex.getEntries,
+    featureIndex.getEntries,
+  );
+  const activeId = useSyncExternalStore(
+    featureIndex.subscribe,
+    featureIndex.getActiveId,
+    featureIndex.getActiveId,
+  );
+
+  const boundData = useSyncExternalStore(
+    featureIndex.subscribe,
+    featureIndex.getBindings,
+    featureIndex.getBindings,
+  );
+  const bindings = useMemo(
+    () => (data ? [data, ...boundData] : boundData),
+    [data, boundData],
+  );
+
+  // Each geography's data comes from the first binding that has a datum
+  const rows = useMemo(
+    () =>
+      entries.map((entry): MapDataTableRow => {
+        const binding = bindings.find(
+          ({ getDatum }) => getDatum(entry.geography) !== undefined,
+        );
+        return {
+          geography: entry.geography,
+          label: entry.label,
+          centroid: entry.centroid,
+          value: binding?.getValue(entry.geography) ?? null,
+          datum: binding?.getDatum(entry.geography),
+        };
+      }),
+    [entries, bindings],
+  );
+
+  const tableColumns = useMemo(
+    () => columns ?? getDefaultColumns(rows, bindings.length > 0, precision),
+    [columns, rows, bindings, precision],
+  );
+
+  // One tab stop: the active row, or the first one
+  const tabStopId = entries.some((entry) => entry.id === activeId)
+    ? activeId
+    : (entries[0]?.id ?? null);
+
+  // Up/Down/Home/End move between rows; Enter focuses the Geography
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLTableRowElement>,
+    index: number,
+  ) => {
+    const targetIndex =
+      event.key === 'ArrowDown'
+        ? index + 1
+        : event.key === 'ArrowUp'
+          ? index - 1
+          : event.key === 'Home'
+            ? 0
+            : event.key === 'End'
+              ? entries.length - 1
+              : null;
+
+    if (targetIndex !== null) {
+      event.preventDefault();
+      const row = event.currentTarget.parentElement?.children[
+        Math.max(0, Math.min(entries.length - 1, targetIndex))
+      ] as HTMLElement | undefined;
+      row?.focus();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      entries[index]?.focus();
+    }
+  };
+
+  if (!htmlLayer) return null;
+
+  return createPortal(
+    <div style={visuallyHidden ? VISUALLY_HIDDEN : OVERLAY}>
+      <table ref={ref} className={`rsm-data-table ${className}`} {...restProps}>
+        {caption && <caption>{caption}</caption>}
+        <thead>
+          <tr>
+            {tableColumns.map((column, columnIndex) => (
+              <th key={columnIndex} scope="col">
+                {column.header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const entry = entries[index] as MapFeatureEntry;
+            return (
+              <tr
+                key={entry.id}
+                tabIndex={entry.id === tabStopId ? 0 : -1}
+                {...(entry.id === activeId && { 'aria-current': true })}
+                onFocus={() => featureIndex.setActiveId(entry.id)}
+                onBlur={() => {
+                  if (featureIndex.getActiveId() === entry.id) {
+                    featureIndex.setActiveId(null);
+                  }
+                }}
+                onKeyDown={(event) => handleKeyDown(event, index)}
+              >
+                {tableColumns.map((column, columnIndex) => (
+                  <td key={columnIndex}>{column.cell(row)}</td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>,
+    htmlLayer,
+  );
+}
+
+MapDataTable.displayName = 'MapDataTable';
+
+export default MapDataTable;
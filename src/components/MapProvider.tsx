@@ -1,27 +1,128 @@
-import React, { createContext, useMemo, useContext, ReactNode } from 'react';
+import React, {
+  createContext,
+  useMemo,
+  useContext,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  ReactNode,
+  RefObject,
+} from 'react';
 import * as d3Geo from 'd3-geo';
-import { GeoProjection } from 'd3-geo';
-import { MapContextType, ProjectionConfig } from '../types';
+import { GeoPermissibleObjects, GeoProjection, GeoRawProjection } from 'd3-geo';
+import {
+  GlobeRotation,
+  GlobeView,
+  GlobeViewStore,
+  MapCamera,
+  MapCameraStore,
+  MapContextType,
+  MapDataBinding,
+  MapFeatureEntry,
+  MapFeatureIndex,
+  ProjectionConfig,
+  ProjectionFactories,
+  ProjectionFitTarget,
+  ProjectedExtent,
+  ResizePolicy,
+  ResizeTransform,
+  ZoomPanState,
+  ZoomTransformStore,
+} from '../types';
 import { createGeographyError } from '../utils';
+import { sampleBoundsOutline } from '../utils/coordinate-utils';
 import { validateProjectionConfig } from '../utils/input-validation';
+import {
+  getAvailableProjections,
+  resolveProjectionFactory,
+} from '../utils/projection-registry';
 
-const { geoPath, ...projections } = d3Geo;
+const { geoPath, geoProjection, geoRotation } = d3Geo;
 
 const MapContext = createContext<MapContextType | undefined>(undefined);
 const EMPTY_PROJECTION_CONFIG: ProjectionConfig = Object.freeze({});
+const IDENTITY_RESIZE_TRANSFORM: ResizeTransform = Object.freeze({
+  k: 1,
+  x: 0,
+  y: 0,
+});
+
+// Settings applied through the d3-geo projection method of the same name
+const PROJECTION_SETTINGS = [
+  'center',
+  'rotate',
+  'parallels',
+  'scale',
+  'clipAngle',
+  'clipExtent',
+  'precision',
+  'reflectX',
+  'reflectY',
+  'angle',
+] as const satisfies readonly (keyof ProjectionConfig)[];
 
 interface MakeProjectionParams {
   projectionConfig?: ProjectionConfig;
   projection: string | GeoProjection;
+  projectionRegistry?: ProjectionFactories | undefined;
   width: number;
   height: number;
+  // Nominal size the configuration was written for (default: width × height)
+  referenceWidth?: number | undefined;
+  referenceHeight?: number | undefined;
+  resizePolicy?: ResizePolicy | undefined;
+  // Globe view drawn instead of the configured rotation and the fitted scale
+  view?: ProjectionView | undefined;
+}
+
+interface ProjectionView {
+  rotation: GlobeRotation;
+  scale: number;
+  translate: [number, number];
 }
 
+/**
+ * Fits the projection so the target fills the extent, inset by padding.
+ * Targets without projected area (empty collections, single points) leave it
+ * unfitted.
+ */
+const fitProjection = (
+  proj: GeoProjection,
+  target: ProjectionFitTarget,
+  padding: number,
+  [[left, top], [right, bottom]]: ProjectedExtent,
+): GeoProjection => {
+  const object: GeoPermissibleObjects = Array.isArray(target)
+    ? { type: 'MultiPoint', coordinates: sampleBoundsOutline(target) }
+    : target;
+
+  const [[x0, y0], [x1, y1]] = geoPath(proj).bounds(object);
+  if (!(x1 - x0 > 0 || y1 - y0 > 0)) return proj;
+
+  // Keep a non-empty extent when the padding exceeds a small map
+  const inset = Math.min(
+    padding,
+    Math.max(0, (Math.min(right - left, bottom - top) - 1) / 2),
+  );
+  return proj.fitExtent(
+    [
+      [left + inset, top + inset],
+      [right - inset, bottom - inset],
+    ],
+    object,
+  );
+};
+
 const makeProjection = ({
   projectionConfig = EMPTY_PROJECTION_CONFIG,
   projection = 'geoEqualEarth',
+  projectionRegistry,
   width = 800,
   height = 600,
+  referenceWidth = width,
+  referenceHeight = height,
+  resizePolicy = 'refit',
+  view,
 }: MakeProjectionParams): GeoProjection => {
   const isFunc = typeof projection === 'function';
 
@@ -35,7 +136,11 @@ const makeProjection = ({
     );
   }
 
-  if (!/^geo[A-Za-z0-9]+$/.test(trimmedProjection)) {
+  const factory = resolveProjectionFactory(
+    trimmedProjection,
+    projectionRegistry,
+  );
+  if (!factory && !/^geo[A-Za-z0-9]+$/.test(trimmedProjection)) {
     throw createGeographyError(
       'PROJECTION_ERROR',
       `Invalid projection name: ${trimmedProjection}`,
@@ -45,40 +150,266 @@ const makeProjection = ({
   // Validate projection configuration
   const validatedConfig = validateProjectionConfig(projectionConfig);
 
-  const projectionName = trimmedProjection as keyof typeof projections;
-  if (!(projectionName in projections)) {
+  if (!factory) {
     throw createGeographyError(
       'PROJECTION_ERROR',
       `Unknown projection: ${trimmedProjection}`,
       undefined,
-      { availableProjections: Object.keys(projections) },
+      { availableProjections: getAvailableProjections(projectionRegistry) },
     );
   }
 
-  let proj = (projections[projectionName] as () => GeoProjection)().translate([
-    width / 2,
-    height / 2,
-  ]);
+  let proj = factory();
+  if (typeof proj?.translate !== 'function') {
+    throw createGeographyError(
+      'PROJECTION_ERROR',
+      `Projection factory for ${trimmedProjection} did not return a projection`,
+    );
+  }
+  proj = proj.translate([width / 2, height / 2]);
 
   // Apply validated projection configuration
-  if (validatedConfig.center && proj.center) {
-    proj = proj.center(validatedConfig.center);
+  for (const setting of PROJECTION_SETTINGS) {
+    const value = validatedConfig[setting];
+    if (value === undefined) continue;
+
+    const setter = (proj as unknown as Record<string, unknown>)[setting];
+    if (typeof setter !== 'function') {
+      throw createGeographyError(
+        'PROJECTION_ERROR',
+        `${trimmedProjection} does not support the ${setting} setting`,
+        undefined,
+        { projection: trimmedProjection, setting },
+      );
+    }
+    setter.call(proj, value);
+  }
+
+  if (view) {
+    return proj
+      .rotate(view.rotation)
+      .scale(view.scale)
+      .translate(view.translate);
   }
-  if (validatedConfig.rotate && proj.rotate) {
-    proj = proj.rotate(validatedConfig.rotate);
+
+  // A map resized from its nominal size either scales the configured view to
+  // the new size or keeps its scale, framing the nominal area in the middle
+  const refit = resizePolicy === 'refit';
+  const scaleFactor = refit
+    ? Math.min(width / referenceWidth, height / referenceHeight)
+    : 1;
+  if (scaleFactor !== 1 && Number.isFinite(scaleFactor) && scaleFactor > 0) {
+    proj = proj.scale(proj.scale() * scaleFactor);
   }
-  if (validatedConfig.scale && proj.scale) {
-    proj = proj.scale(validatedConfig.scale);
+
+  if (validatedConfig.fitTo) {
+    const fitWidth = refit ? width : referenceWidth;
+    const fitHeight = refit ? height : referenceHeight;
+    const left = (width - fitWidth) / 2;
+    const top = (height - fitHeight) / 2;
+    proj = fitProjection(
+      proj,
+      validatedConfig.fitTo,
+      validatedConfig.fitPadding ?? 0,
+      [
+        [left, top],
+        [left + fitWidth, top + fitHeight],
+      ],
+    );
   }
 
   return proj;
 };
 
+/**
+ * Copies a projection instance under another rotation and scale. The copy's
+ * raw projection undoes the instance's own rotation, so only the view's
+ * rotation applies, and the instance is left unchanged.
+ * @param base - Projection instance passed to the map
+ * @returns Builds a copy for a view
+ */
+const createProjectionCopier = (
+  base: GeoProjection,
+): ((view: ProjectionView) => GeoProjection) => {
+  const baseRotation = geoRotation(base.rotate());
+  const baseScale = base.scale();
+  const [tx, ty] = base.translate();
+  const degrees = 180 / Math.PI;
+
+  const raw: GeoRawProjection = (lambda, phi) => {
+    const [x, y] = base(
+      baseRotation.invert([lambda * degrees, phi * degrees]),
+    ) ?? [NaN, NaN];
+    return [(x - tx) / baseScale, (ty - y) / baseScale];
+  };
+  raw.invert = (x, y) => {
+    const point = base.invert?.([tx + x * baseScale, ty - y * baseScale]);
+    if (!point) return [NaN, NaN];
+    const [lambda, phi] = baseRotation(point);
+    return [lambda / degrees, phi / degrees];
+  };
+
+  const clipAngle = base.clipAngle();
+  const clipExtent = base.clipExtent();
+  const precision = base.precision();
+  return (view) => {
+    const copy = geoProjection(raw)
+      .rotate(view.rotation)
+      .scale(view.scale)
+      .translate(view.translate)
+      .precision(precision);
+    if (clipAngle) copy.clipAngle(clipAngle);
+    if (clipExtent) copy.clipExtent(clipExtent);
+    return copy;
+  };
+};
+
+const IDENTITY_ZOOM_TRANSFORM: ZoomPanState = Object.freeze({
+  x: 0,
+  y: 0,
+  k: 1,
+});
+
+const createZoomTransformStore = (): ZoomTransformStore => {
+  let current = IDENTITY_ZOOM_TRANSFORM;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => current,
+    set: (transform) => {
+      if (
+        transform.x === current.x &&
+        transform.y === current.y &&
+        transform.k === current.k
+      ) {
+        return;
+      }
+      current = { x: transform.x, y: transform.y, k: transform.k };
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const createCameraStore = (): MapCameraStore => {
+  let current: MapCamera | null = null;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => current,
+    set: (camera) => {
+      if (camera === current) return;
+      current = camera;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const createGlobeViewStore = (): GlobeViewStore => {
+  let current: GlobeView | null = null;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => current,
+    set: (view) => {
+      if (view === current) return;
+      current = view;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const createFeatureIndex = (): MapFeatureIndex => {
+  const entries = new Map<string, MapFeatureEntry>();
+  const listeners = new Set<() => void>();
+  let snapshot: readonly MapFeatureEntry[] | null = null;
+  let activeId: string | null = null;
+  let bindings: readonly MapDataBinding[] = [];
+
+  let notifyScheduled = false;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  // A layer registers its geographies one by one as it mounts; subscribers
+  // hear about the whole batch once instead of once per geography
+  const scheduleNotify = () => {
+    if (notifyScheduled) return;
+    notifyScheduled = true;
+    queueMicrotask(() => {
+      notifyScheduled = false;
+      notify();
+    });
+  };
+
+  return {
+    set: (entry) => {
+      entries.set(entry.id, entry);
+      snapshot = null;
+      scheduleNotify();
+    },
+    remove: (id) => {
+      if (!entries.delete(id)) return;
+      snapshot = null;
+      if (activeId === id) activeId = null;
+      scheduleNotify();
+    },
+    getEntries: () => (snapshot ??= Array.from(entries.values())),
+    getActiveId: () => activeId,
+    setActiveId: (id) => {
+      if (id === activeId) return;
+      activeId = id;
+      notify();
+    },
+    addBinding: (binding) => {
+      bindings = [...bindings, binding];
+      scheduleNotify();
+      return () => {
+        bindings = bindings.filter((other) => other !== binding);
+        scheduleNotify();
+      };
+    },
+    getBindings: () => bindings,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
 interface MapProviderProps {
   width: number;
   height: number;
   projection?: string | GeoProjection;
   projectionConfig?: ProjectionConfig;
+  projectionRegistry?: ProjectionFactories | undefined;
+  // Nominal size when width and height are measured (responsive maps)
+  referenceWidth?: number | undefined;
+  referenceHeight?: number | undefined;
+  resizePolicy?: ResizePolicy | undefined;
+  // Root <svg> rendered around the children, when there is one
+  svgRef?: RefObject<SVGSVGElement | null> | undefined;
+  // HTML layer over the root <svg>, when enabled (null until mounted)
+  htmlLayerEnabled?: boolean | undefined;
+  htmlLayer?: HTMLDivElement | null | undefined;
   children: ReactNode;
 }
 
@@ -87,25 +418,162 @@ const MapProvider: React.FC<MapProviderProps> = ({
   height,
   projection,
   projectionConfig = EMPTY_PROJECTION_CONFIG,
+  projectionRegistry,
+  referenceWidth = width,
+  referenceHeight = height,
+  resizePolicy = 'refit',
+  svgRef,
+  htmlLayerEnabled = false,
+  htmlLayer = null,
   children,
 }) => {
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const mapSvgRef = svgRef ?? ownSvgRef;
+  const [zoomTransform] = useState(createZoomTransformStore);
+  const [featureIndex] = useState(createFeatureIndex);
+  const [camera] = useState(createCameraStore);
+  const [globeView] = useState(createGlobeViewStore);
+  const view = useSyncExternalStore(
+    globeView.subscribe,
+    globeView.get,
+    globeView.get,
+  );
+
   const projMemo = useMemo(() => {
     return makeProjection({
       projectionConfig,
       projection: projection || 'geoEqualEarth',
+      projectionRegistry,
       width,
       height,
+      referenceWidth,
+      referenceHeight,
+      resizePolicy,
     });
-  }, [width, height, projection, projectionConfig]);
+  }, [
+    width,
+    height,
+    projection,
+    projectionConfig,
+    projectionRegistry,
+    referenceWidth,
+    referenceHeight,
+    resizePolicy,
+  ]);
+
+  // Projections built for two sizes differ only in scale and translate, so
+  // comparing them with the nominal one gives a linear map between the two
+  const resizeTransform = useMemo((): ResizeTransform => {
+    if (
+      typeof projection === 'function' ||
+      (referenceWidth === width && referenceHeight === height)
+    ) {
+      return IDENTITY_RESIZE_TRANSFORM;
+    }
+
+    const reference = makeProjection({
+      projectionConfig,
+      projection: projection || 'geoEqualEarth',
+      projectionRegistry,
+      width: referenceWidth,
+      height: referenceHeight,
+    });
+    const k = projMemo.scale() / reference.scale();
+    const [x, y] = projMemo.translate();
+    const [referenceX, referenceY] = reference.translate();
+    return { k, x: x - referenceX * k, y: y - referenceY * k };
+  }, [
+    width,
+    height,
+    projection,
+    projectionConfig,
+    projectionRegistry,
+    referenceWidth,
+    referenceHeight,
+    projMemo,
+  ]);
+
+  // The projection's own rotation and scale, which a globe view replaces
+  const baseView = useMemo(
+    (): ProjectionView | null =>
+      typeof projMemo.rotate === 'function'
+        ? {
+            rotation: projMemo.rotate(),
+            scale: projMemo.scale(),
+            translate: projMemo.translate(),
+          }
+        : null,
+    [projMemo],
+  );
+
+  // Projection instances passed to the map cannot be rebuilt, so views of
+  // them are drawn by a copy
+  const copyProjection = useMemo(
+    () =>
+      typeof projection === 'function' && baseView
+        ? createProjectionCopier(projMemo)
+        : null,
+    [projection, projMemo, baseView],
+  );
+
+  // Each globe view gets its own projection, so memoized projections and
+  // paths downstream recompute
+  const viewProjection = useMemo((): GeoProjection => {
+    if (!view || !baseView) return projMemo;
+    const projectionView: ProjectionView = {
+      rotation: view.rotation,
+      scale: baseView.scale * view.zoom,
+      translate: baseView.translate,
+    };
+    if (copyProjection) return copyProjection(projectionView);
+    return makeProjection({
+      projectionConfig,
+      projection: projection || 'geoEqualEarth',
+      projectionRegistry,
+      width,
+      height,
+      view: projectionView,
+    });
+  }, [
+    view,
+    baseView,
+    projMemo,
+    copyProjection,
+    projectionConfig,
+    projection,
+    projectionRegistry,
+    width,
+    height,
+  ]);
 
   const value = useMemo((): MapContextType => {
     return {
       width,
       height,
-      projection: projMemo,
-      path: geoPath().projection(projMemo),
+      projection: viewProjection,
+      path: geoPath().projection(viewProjection),
+      resizeTransform,
+      svgRef: mapSvgRef,
+      htmlLayer,
+      htmlLayerEnabled,
+      zoomTransform,
+      featureIndex,
+      camera,
+      globeView,
     };
-  }, [width, height, projMemo]);
+  }, [
+    width,
+    height,
+    viewProjection,
+    resizeTransform,
+    mapSvgRef,
+    htmlLayer,
+    htmlLayerEnabled,
+    zoomTransform,
+    featureIndex,
+    camera,
+    globeView,
+  ]);
 
   return <MapContext value={value}>{children}</MapContext>;
 };
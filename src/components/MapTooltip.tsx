@@ -0,0 +1,133 @@
+import { useLayoutEffect, useRef, useSyncExternalStore } from 'react';
+import { createPortal } from 'react-dom';
+import { MapTooltipProps } from '../types';
+import { mapToScreenCoordinates } from '../utils/coordinate-utils';
+import { useActiveZoomTransform } from '../hooks/useActiveZoomTransform';
+import { useHtmlLayerFit } from '../hooks/useHtmlLayerFit';
+import { useHtmlLayer } from '../hooks/useHtmlLayer';
+import { useMapContext } from './MapProvider';
+
+/**
+ * Places a box centered above a point, below it when there is no room above,
+ * and inside the container
+ * @param point - Anchor in container pixels
+ * @param size - Box width and height
+ * @param container - Container width and height
+ * @param offset - Gap between the anchor and the box
+ * @returns Top-left corner of the box
+ */
+function placeTooltip(
+  [x, y]: [number, number],
+  [boxWidth, boxHeight]: [number, number],
+  [width, height]: [number, number],
+  offset: number,
+): [number, number] {
+  const above = y - offset - boxHeight;
+  const top = above >= 0 ? above : y + offset;
+  return [
+    Math.max(0, Math.min(width - boxWidth, x - boxWidth / 2)),
+    Math.max(0, Math.min(height - boxHeight, top)),
+  ];
+}
+
+// HTML tooltip for the state of a useTooltip hook, rendered in the HTML layer
+// next to the map's <svg>. Geographic anchors follow zoom and pan; the tooltip
+// stays inside the map's container. Render it outside any ZoomableGroup.
+function MapTooltip<T>({
+  tooltip,
+  children,
+  offset = 12,
+  className = '',
+  style,
+  ...restProps
+}: MapTooltipProps<T>) {
+  const { projection } = useMapContext();
+  const htmlLayer = useHtmlLayer('MapTooltip');
+  const transform = useActiveZoomTransform();
+  const fit = useHtmlLayerFit();
+  const state = useSyncExternalStore(
+    tooltip.subscribe,
+    tooltip.getState,
+    tooltip.getState,
+  );
+  const tooltipRef = useRef<HTMLDivElement>(null);
+
+  // Geographic anchors in layer pixels; null when the projection clips them
+  // or before the map is laid out
+  const anchor = state?.anchor;
+  let anchorPoint: [number, number] | null = null;
+  if (anchor && 'coordinates' in anchor && fit) {
+    const point = mapToScreenCoordinates(
+      anchor.coordinates,
+      projection,
+      transform,
+    );
+    anchorPoint = point && [
+      point[0] * fit.scale + fit.left,
+      point[1] * fit.scale + fit.top,
+    ];
+  }
+  const hidden = !anchor || ('coordinates' in anchor && !anchorPoint);
+  const rendered = Boolean(state && !hidden && htmlLayer);
+
+  // The target references the tooltip only while it is in the document
+  const target = state?.target;
+  useLayoutEffect(() => {
+    if (!target || !rendered) return;
+    const describedBy = target.getAttribute('aria-describedby');
+    const ids = describedBy ? describedBy.split(/\s+/) : [];
+    if (ids.includes(tooltip.id)) return;
+    target.setAttribute('aria-describedby', [...ids, tooltip.id].join(' '));
+    return () => {
+      const remaining = (target.getAttribute('aria-describedby') ?? '')
+        .split(/\s+/)
+        .filter((id) => id && id !== tooltip.id);
+      if (remaining.length > 0) {
+        target.setAttribute('aria-describedby', remaining.join(' '));
+      } else {
+        target.removeAttribute('aria-describedby');
+      }
+    };
+  }, [target, rendered, tooltip.id]);
+
+  // Measured after each render since the content, its size and the
+  // container's position can change
+  useLayoutEffect(() => {
+    const element = tooltipRef.current;
+    if (!element || !htmlLayer || !anchor) return;
+    const rect = htmlLayer.getBoundingClientRect();
+    const point: [number, number] | null =
+      'coordinates' in anchor
+        ? anchorPoint
+        : [anchor.clientX - rect.left, anchor.clientY - rect.top];
+    if (!point) return;
+    const [left, top] = placeTooltip(
+      point,
+      [element.offsetWidth, element.offsetHeight],
+      [rect.width, rect.height],
+      offset,
+    );
+    element.style.left = `${left}px`;
+    element.style.top = `${top}px`;
+  });
+
+  if (!state || !rendered || !htmlLayer) return null;
+
+  return createPortal(
+    <div
+      ref={tooltipRef}
+      id={tooltip.id}
+      role="tooltip"
+      className={`rsm-tooltip ${className}`}
+      style={{ position: 'absolute', width: 'max-content', ...style }}
+      {...restProps}
+    >
+      {children(state.data)}
+    </div>,
+    htmlLayer,
+  );
+}
+
+MapTooltip.displayName = 'MapTooltip';
+
+export default MapTooltip;
@@ -1,6 +1,22 @@
-import { useState, Ref, memo, useMemo, useCallback } from 'react';
+import {
+  useState,
+  Ref,
+  memo,
+  useMemo,
+  useCallback,
+  useContext,
+  useId,
+  useLayoutEffect,
+  useSyncExternalStore,
+} from 'react';
 import { MarkerProps } from '../types';
+import { getVariantStyle } from '../utils/selection';
+import { dispatchKeyboardClick } from '../utils/keyboard-navigation';
 import { useMapContext } from './MapProvider';
+import { SelectionContext } from './SelectionProvider';
+import usePointVisibility from './usePointVisibility';
+
+const subscribeToNothing = () => () => {};
 
 function Marker({
   coordinates,
@@ -9,8 +25,16 @@ function Marker({
   onMouseLeave,
   onMouseDown,
   onMouseUp,
+  onPointerLeave,
+  onPointerDown,
+  onPointerUp,
   onFocus,
   onBlur,
+  onClick,
+  onKeyDown,
+  selectionKey,
+  horizonFade,
+  onVisibilityChange,
   style = {},
   className = '',
   ref,
@@ -21,6 +45,40 @@ function Marker({
   const [isHovered, setHovered] = useState(false);
   const [isFocused, setFocused] = useState(false);
 
+  // Inside a SelectionProvider a selectionKey makes the marker selectable
+  const selection = useContext(SelectionContext);
+  const isSelectable = !!selection && selectionKey !== undefined;
+  const isSelected = useSyncExternalStore(
+    selection?.subscribe ?? subscribeToNothing,
+    () => isSelectable && !!selection?.isSelected(selectionKey as string),
+    () => isSelectable && !!selection?.isSelected(selectionKey as string),
+  );
+  const markerId = useId();
+
+  // Markers the projection clips, e.g. on the far side of a globe, stay
+  // mounted but hidden
+  const { visible, opacity } = usePointVisibility(coordinates, {
+    ...(horizonFade !== undefined && { horizonFade }),
+    ...(onVisibilityChange && { onVisibilityChange }),
+  });
+
+  useLayoutEffect(() => {
+    if (!selection || selectionKey === undefined) return;
+    selection.setItem(markerId, { key: selectionKey, coordinates });
+    return () => selection.removeItem(markerId);
+  }, [selection, selectionKey, markerId, coordinates]);
+
+  const handleClick = useCallback(
+    (evt: React.MouseEvent<SVGGElement>) => {
+      if (selection && selectionKey !== undefined) {
+        selection.selectWithModifiers(selectionKey, evt);
+      }
+      if (onClick) onClick(evt);
+    },
+    [onClick, selection, selectionKey],
+  );
+  const isInteractive = !!onClick || isSelectable;
+
   const handleMouseEnter = useCallback(
     (evt: React.MouseEvent<SVGGElement>) => {
       setHovered(true);
@@ -71,6 +129,44 @@ function Marker({
     [onMouseUp],
   );
 
+  // Pointer events also press the marker for touch and pen input
+  const handlePointerLeave = useCallback(
+    (evt: React.PointerEvent<SVGGElement>) => {
+      if (isPressed) setPressed(false);
+      if (onPointerLeave) onPointerLeave(evt);
+    },
+    [onPointerLeave, isPressed],
+  );
+
+  const handlePointerDown = useCallback(
+    (evt: React.PointerEvent<SVGGElement>) => {
+      setPressed(true);
+      if (onPointerDown) onPointerDown(evt);
+    },
+    [onPointerDown],
+  );
+
+  const handlePointerUp = useCallback(
+    (evt: React.PointerEvent<SVGGElement>) => {
+      setPressed(false);
+      if (onPointerUp) onPointerUp(evt);
+    },
+    [onPointerUp],
+  );
+
+  // Clickable markers are focusable buttons that Enter and Space activate
+  const handleKeyDown = useCallback(
+    (evt: React.KeyboardEvent<SVGGElement>) => {
+      onKeyDown?.(evt);
+      if (evt.defaultPrevented || !isInteractive) return;
+      if (evt.key === 'Enter' || evt.key === ' ') {
+        evt.preventDefault();
+        dispatchKeyboardClick(evt.currentTarget, evt);
+      }
+    },
+    [onKeyDown, isInteractive],
+  );
+
   // Memoize projection calculation to prevent unnecessary recalculations
   const projectedCoords = useMemo(() => {
     return projection(coordinates);
@@ -85,8 +181,8 @@ function Marker({
 
   // Memoize current style to prevent unnecessary style recalculations
   const currentStyle = useMemo(() => {
-    return style?.[currentState];
-  }, [style, currentState]);
+    return getVariantStyle(style, currentState, isSelected);
+  }, [style, currentState, isSelected]);
 
   // Memoize transform string (only if coordinates exist)
   const transform = useMemo(() => {
@@ -104,12 +200,26 @@ function Marker({
       ref={ref}
       transform={transform}
       className={`rsm-marker ${className}`}
+      {...(isInteractive &&
+        visible && {
+          tabIndex: 0,
+          role: 'button',
+          onClick: handleClick,
+        })}
+      {...(isSelectable && { 'aria-pressed': isSelected })}
+      {...(restProps['aria-label'] && !isInteractive && { role: 'img' })}
+      {...(!visible && { visibility: 'hidden', 'aria-hidden': true })}
+      {...(visible && opacity < 1 && { opacity })}
+      onKeyDown={handleKeyDown}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
       onFocus={handleFocus}
       onBlur={handleBlur}
       onMouseDown={handleMouseDown}
       onMouseUp={handleMouseUp}
+      onPointerLeave={handlePointerLeave}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
       style={currentStyle}
       {...restProps}
     >
@@ -0,0 +1,108 @@
+import {
+  Fragment,
+  KeyboardEvent,
+  MouseEvent,
+  ReactNode,
+  Ref,
+  useContext,
+} from 'react';
+import { CameraFitOptions, MarkerClusterProps, PointCluster } from '../types';
+import Marker from './Marker';
+import useClusters from './useClusters';
+import { ZoomPanContext } from './ZoomPanProvider';
+
+const DEFAULT_ZOOM_OPTIONS: CameraFitOptions = { padding: 40 };
+
+function defaultRenderMarker<T>(_point: T, cluster: PointCluster<T>) {
+  return (
+    <Marker coordinates={cluster.coordinates}>
+      <circle r={4} fill="#F53" stroke="#FFF" strokeWidth={1} />
+    </Marker>
+  );
+}
+
+function defaultRenderCluster<T>(cluster: PointCluster<T>) {
+  const r = Math.min(12 + Math.sqrt(cluster.count) * 2, 32);
+  return (
+    <>
+      <circle r={r} fill="#F53" fillOpacity={0.85} stroke="#FFF" />
+      <text
+        textAnchor="middle"
+        dominantBaseline="central"
+        fill="#FFF"
+        fontSize={11}
+        fontWeight={600}
+      >
+        {cluster.count}
+      </text>
+    </>
+  );
+}
+
+function MarkerCluster<T>({
+  points,
+  coordinates,
+  radius = 40,
+  maxZoom = Infinity,
+  renderMarker = defaultRenderMarker,
+  renderCluster = defaultRenderCluster,
+  onClusterClick,
+  zoomOptions = DEFAULT_ZOOM_OPTIONS,
+  className = '',
+  ref,
+}: MarkerClusterProps<T> & { ref?: Ref<SVGGElement> }) {
+  const clusters = useClusters({ points, coordinates, radius, maxZoom });
+  const zoomPan = useContext(ZoomPanContext);
+  const k = zoomPan?.k ?? 1;
+
+  const activate = (
+    cluster: PointCluster<T>,
+    event: MouseEvent<SVGGElement> | KeyboardEvent<SVGGElement>,
+  ) => {
+    if (onClusterClick) {
+      onClusterClick(cluster, event);
+    } else {
+      zoomPan?.controller?.fitExtent(cluster.extent, zoomOptions);
+    }
+  };
+
+  return (
+    <g {...(ref && { ref })} className={`rsm-marker-cluster ${className}`}>
+      {clusters.map((cluster): ReactNode => {
+        if (cluster.count === 1) {
+          return (
+            <Fragment key={cluster.id}>
+              {renderMarker(cluster.points[0] as T, cluster)}
+            </Fragment>
+          );
+        }
+
+        // Counter-scale so cluster nodes keep their screen size while zooming
+        return (
+          <g
+            key={cluster.id}
+            className="rsm-cluster"
+            transform={`translate(${cluster.x}, ${cluster.y}) scale(${1 / k})`}
+            role="button"
+            tabIndex={0}
+            aria-label={`${cluster.count} points`}
+            style={{ cursor: 'pointer' }}
+            onClick={(event) => activate(cluster, event)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' || event.key === ' ') {
+                event.preventDefault();
+                activate(cluster, event);
+              }
+            }}
+          >
+            {renderCluster(cluster)}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+MarkerCluster.displayName = 'MarkerCluster';
+
+export default MarkerCluster;
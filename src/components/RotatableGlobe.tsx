@@ -0,0 +1,388 @@
+import {
+  KeyboardEvent,
+  PointerEvent,
+  Ref,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { GeoProjection, geoRotation } from 'd3-geo';
+import { GlobeRotation, GlobeView, RotatableGlobeProps } from '../types';
+import { createGeographyError } from '../utils';
+import { clientToViewBoxPoint } from '../utils/coordinate-utils';
+import { getArrowKeyDirection } from '../utils/keyboard-navigation';
+import {
+  Versor,
+  multiplyVersors,
+  toCartesian,
+  toRotation,
+  toVersor,
+  versorDelta,
+} from '../utils/versor';
+import { useMapContext } from './MapProvider';
+
+// Arrow keys rotate by this many degrees; +/- zoom by this factor
+const KEYBOARD_ROTATE_STEP = 15;
+const KEYBOARD_ZOOM_FACTOR = 2;
+// Share of a flick's spin kept per millisecond
+const INERTIA_DECAY = 0.995;
+// Slower spins, in degrees per millisecond, stop
+const MIN_SPIN = 0.001;
+// A pointer released longer than this after its last move (ms) had stopped
+const RELEASE_WINDOW = 50;
+
+interface GlobeDrag {
+  pointerId: number;
+  rotation: GlobeRotation;
+  versor: Versor;
+  start: [number, number, number];
+  last: GlobeRotation;
+  time: number;
+  // Degrees per millisecond of lambda and phi at the last move
+  velocity: [number, number];
+}
+
+const clampPhi = (phi: number) => Math.max(-90, Math.min(90, phi));
+
+// Shortest signed difference between two angles in degrees
+const angleDelta = (to: number, from: number) =>
+  ((((to - from + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Inverts a point as if the projection had another rotation
+ * @param projection - Map projection, at any rotation
+ * @param point - Point in untransformed map (projection) space
+ * @param rotation - Rotation to invert at
+ * @returns Geographic coordinates, or null outside the projected sphere
+ */
+function invertAt(
+  projection: GeoProjection,
+  point: [number, number],
+  rotation: GlobeRotation,
+): [number, number] | null {
+  const coordinates = projection.invert?.(point);
+  // Points off the sphere invert to its edge, which projects elsewhere
+  const projected = coordinates && projection(coordinates);
+  if (
+    !coordinates ||
+    !projected ||
+    Math.hypot(projected[0] - point[0], projected[1] - point[1]) > 1
+  ) {
+    return null;
+  }
+  return geoRotation(rotation).invert(
+    geoRotation(projection.rotate())(coordinates),
+  );
+}
+
+// Spins the map projection under the pointer instead of sliding a picture of
+// it. Dragging rotates the globe so the grabbed point follows the pointer,
+// the wheel zooms by scaling the projection, and every child re-projects on
+// each change. Use it in place of ZoomableGroup, with a projection such as
+// geoOrthographic.
+function RotatableGlobe({
+  rotation,
+  zoom = 1,
+  minZoom = 0.5,
+  maxZoom = 8,
+  inertia = true,
+  autoRotate = 0,
+  keyboardNavigation = true,
+  onRotate,
+  onRotateEnd,
+  onKeyDown,
+  className = '',
+  children,
+  ref,
+  ...restProps
+}: RotatableGlobeProps & { ref?: Ref<SVGGElement> }) {
+  const { width, height, projection, svgRef, globeView } = useMapContext();
+  if (typeof projection.rotate !== 'function') {
+    throw createGeographyError(
+      'PROJECTION_ERROR',
+      'RotatableGlobe requires a projection that supports rotate',
+    );
+  }
+
+  const groupRef = useRef<SVGGElement>(null);
+  useImperativeHandle(ref, () => groupRef.current as SVGGElement, []);
+
+  const dragRef = useRef<GlobeDrag | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const spinRef = useRef<[number, number]>([0, 0]);
+
+  const onRotateRef = useRef(onRotate);
+  const onRotateEndRef = useRef(onRotateEnd);
+  const autoRotateRef = useRef(autoRotate);
+  useEffect(() => {
+    onRotateRef.current = onRotate;
+    onRotateEndRef.current = onRotateEnd;
+    autoRotateRef.current = autoRotate;
+  });
+
+  const clampZoom = useCallback(
+    (value: number) => Math.max(minZoom, Math.min(maxZoom, value)),
+    [minZoom, maxZoom],
+  );
+
+  const update = useCallback(
+    (view: GlobeView) => {
+      globeView.set(view);
+      onRotateRef.current?.(view);
+    },
+    [globeView],
+  );
+
+  const notifyEnd = useCallback(() => {
+    const view = globeView.get();
+    if (view) onRotateEndRef.current?.(view);
+  }, [globeView]);
+
+  // Inertia and auto-rotation share one animation loop, which stops itself
+  // once there is nothing left to animate
+  const startLoop = useCallback(() => {
+    if (frameRef.current !== null) return;
+    let last: number | null = null;
+
+    const frame = (time: number) => {
+      frameRef.current = null;
+      const view = globeView.get();
+      if (!view || dragRef.current) return;
+
+      const [spinLambda, spinPhi] = spinRef.current;
+      const isSpinning = spinLambda !== 0 || spinPhi !== 0;
+      const autoSpin = autoRotateRef.current / 1000;
+      if (!isSpinning && !autoSpin) return;
+
+      const elapsed = last === null ? 0 : Math.min(time - last, 100);
+      last = time;
+      if (elapsed > 0) {
+        const [lambda, phi, gamma] = view.rotation;
+        update({
+          rotation: [
+            lambda + (spinLambda + autoSpin) * elapsed,
+            clampPhi(phi + spinPhi * elapsed),
+            gamma,
+          ],
+          zoom: view.zoom,
+        });
+      }
+
+      if (isSpinning) {
+        const decay = INERTIA_DECAY ** elapsed;
+        const next: [number, number] = [spinLambda * decay, spinPhi * decay];
+        if (Math.hypot(...next) < MIN_SPIN) {
+          spinRef.current = [0, 0];
+          notifyEnd();
+        } else {
+          spinRef.current = next;
+        }
+      }
+      frameRef.current = requestAnimationFrame(frame);
+    };
+
+    frameRef.current = requestAnimationFrame(frame);
+  }, [globeView, update, notifyEnd]);
+
+  const stopLoop = useCallback(() => {
+    if (frameRef.current === null) return;
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  // The initial view; later changes to rotation or zoom reset it
+  const [baseRotation] = useState(() => projection.rotate());
+  const [lambda0, phi0, gamma0 = 0] = rotation ?? baseRotation;
+  useLayoutEffect(() => {
+    globeView.set({
+      rotation: [lambda0, phi0, gamma0],
+      zoom: clampZoom(zoom),
+    });
+  }, [globeView, lambda0, phi0, gamma0, zoom, clampZoom]);
+
+  useLayoutEffect(() => () => globeView.set(null), [globeView]);
+
+  useEffect(() => {
+    if (autoRotate) startLoop();
+  }, [autoRotate, startLoop]);
+
+  useEffect(() => stopLoop, [stopLoop]);
+
+  // Registered directly since React's wheel listeners are passive
+  useEffect(() => {
+    const element = groupRef.current;
+    if (!element) return undefined;
+
+    const handleWheel = (event: WheelEvent) => {
+      const view = globeView.get();
+      if (!view) return;
+      event.preventDefault();
+      // Same scaling as d3-zoom's default wheel delta
+      const delta =
+        -event.deltaY *
+        (event.deltaMode === 1 ? 0.05 : event.deltaMode ? 1 : 0.002) *
+        (event.ctrlKey ? 10 : 1);
+      const next = clampZoom(view.zoom * 2 ** delta);
+      if (next === view.zoom) return;
+      update({ rotation: view.rotation, zoom: next });
+      notifyEnd();
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [globeView, clampZoom, update, notifyEnd]);
+
+  const toViewBox = (event: PointerEvent<SVGGElement>) =>
+    svgRef.current &&
+    clientToViewBoxPoint(svgRef.current, event.clientX, event.clientY);
+
+  const handlePointerDown = (event: PointerEvent<SVGGElement>) => {
+    restProps.onPointerDown?.(event);
+    if (event.button !== 0 || dragRef.current) return;
+    const view = globeView.get();
+    const point = toViewBox(event);
+    const start = view && point && invertAt(projection, point, view.rotation);
+    // Drags starting off the globe do nothing
+    if (!view || !start) return;
+
+    stopLoop();
+    spinRef.current = [0, 0];
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    dragRef.current = {
+      pointerId: event.pointerId,
+      rotation: view.rotation,
+      versor: toVersor(view.rotation),
+      start: toCartesian(start),
+      last: view.rotation,
+      time: event.timeStamp,
+      velocity: [0, 0],
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGGElement>) => {
+    restProps.onPointerMove?.(event);
+    const drag = dragRef.current;
+    const view = globeView.get();
+    if (!drag || !view || event.pointerId !== drag.pointerId) return;
+
+    const point = toViewBox(event);
+    const target = point && invertAt(projection, point, drag.rotation);
+    if (!target) return;
+
+    const next = toRotation(
+      multiplyVersors(
+        drag.versor,
+        versorDelta(drag.start, toCartesian(target)),
+      ),
+    );
+    const elapsed = event.timeStamp - drag.time;
+    if (elapsed > 0) {
+      drag.velocity = [
+        angleDelta(next[0], drag.last[0]) / elapsed,
+        (next[1] - drag.last[1]) / elapsed,
+      ];
+    }
+    drag.last = next;
+    drag.time = event.timeStamp;
+    update({ rotation: next, zoom: view.zoom });
+  };
+
+  const handlePointerUp = (event: PointerEvent<SVGGElement>) => {
+    restProps.onPointerUp?.(event);
+    const drag = dragRef.current;
+    if (!drag || event.pointerId !== drag.pointerId) return;
+    dragRef.current = null;
+
+    const isFlick =
+      inertia &&
+      event.timeStamp - drag.time < RELEASE_WINDOW &&
+      Math.hypot(...drag.velocity) >= MIN_SPIN;
+    if (isFlick) {
+      spinRef.current = drag.velocity;
+    } else {
+      notifyEnd();
+    }
+    startLoop();
+  };
+
+  const handlePointerCancel = (event: PointerEvent<SVGGElement>) => {
+    restProps.onPointerCancel?.(event);
+    if (dragRef.current?.pointerId !== event.pointerId) return;
+    dragRef.current = null;
+    notifyEnd();
+    startLoop();
+  };
+
+  // Arrow keys turn the globe to show what lies in that direction
+  const handleKeyDown = (event: KeyboardEvent<SVGGElement>) => {
+    onKeyDown?.(event);
+    if (!keyboardNavigation || event.defaultPrevented) return;
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    const view = globeView.get();
+    if (!view) return;
+
+    const [lambda, phi, gamma] = view.rotation;
+    const direction = getArrowKeyDirection(event.key);
+    let next: GlobeView;
+    if (direction) {
+      const step = KEYBOARD_ROTATE_STEP;
+      next = {
+        rotation: [
+          lambda +
+            (direction === 'left' ? step : direction === 'right' ? -step : 0),
+          clampPhi(
+            phi +
+              (direction === 'up' ? -step : direction === 'down' ? step : 0),
+          ),
+          gamma,
+        ],
+        zoom: view.zoom,
+      };
+    } else if (event.key === '+' || event.key === '=') {
+      next = {
+        rotation: view.rotation,
+        zoom: clampZoom(view.zoom * KEYBOARD_ZOOM_FACTOR),
+      };
+    } else if (event.key === '-' || event.key === '_') {
+      next = {
+        rotation: view.rotation,
+        zoom: clampZoom(view.zoom / KEYBOARD_ZOOM_FACTOR),
+      };
+    } else {
+      return;
+    }
+    event.preventDefault();
+    update(next);
+    notifyEnd();
+  };
+
+  return (
+    <g
+      {...(keyboardNavigation && {
+        tabIndex: 0,
+        role: 'group',
+        'aria-keyshortcuts': '+ - ArrowUp ArrowDown ArrowLeft ArrowRight',
+      })}
+      className={`rsm-rotatable-globe ${className}`}
+      cursor="grab"
+      style={{ touchAction: 'none' }}
+      {...restProps}
+      ref={groupRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onKeyDown={handleKeyDown}
+    >
+      <rect width={width} height={height} fill="transparent" />
+      {children}
+    </g>
+  );
+}
+
+RotatableGlobe.displayName = 'RotatableGlobe';
+
+export default RotatableGlobe;
@@ -0,0 +1,145 @@
+import { PointerEvent, useContext, useMemo, useRef, useState } from 'react';
+import { Feature, Geometry } from 'geojson';
+import { SelectionLassoProps } from '../types';
+import { createGeographyError } from '../utils';
+import { clientToViewBoxPoint } from '../utils/coordinate-utils';
+import { findItemsInPolygon, getProjectedRings } from '../utils/selection';
+import { useActiveZoomTransform } from '../hooks/useActiveZoomTransform';
+import { useMapContext } from './MapProvider';
+import { SelectionContext } from './SelectionProvider';
+
+type Point = [number, number];
+
+// Outline of the drag so far, in viewBox units
+function getOutline(
+  points: readonly Point[],
+  shape: SelectionLassoProps['shape'],
+): Point[] {
+  if (shape !== 'rectangle') return [...points];
+  const [x0, y0] = points[0] as Point;
+  const [x1, y1] = points[points.length - 1] as Point;
+  return [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+  ];
+}
+
+// Drag tool that selects the geographies and markers its outline overlaps,
+// hit-testing their projected geometry. It covers the map and takes over
+// pointer input, so render it after the map content and outside any
+// ZoomableGroup only while the tool is active. Shift, ctrl or cmd adds to the
+// selection; a click without a drag clears it.
+function SelectionLasso({
+  shape = 'freehand',
+  className = '',
+  ...restProps
+}: SelectionLassoProps) {
+  const { width, height, projection, svgRef } = useMapContext();
+  const transform = useActiveZoomTransform();
+  const selection = useContext(SelectionContext);
+  if (!selection) {
+    throw createGeographyError(
+      'CONTEXT_ERROR',
+      'SelectionLasso must be used within a SelectionProvider',
+    );
+  }
+  const [points, setPoints] = useState<Point[] | null>(null);
+  const pointsRef = useRef<Point[] | null>(null);
+
+  const getRings = useMemo(() => {
+    const cache = new WeakMap<Feature<Geometry>, Point[][]>();
+    return (geography: Feature<Geometry>) => {
+      let rings = cache.get(geography);
+      if (!rings) {
+        rings = getProjectedRings(geography, projection);
+        cache.set(geography, rings);
+      }
+      return rings;
+    };
+  }, [projection]);
+
+  const toViewBox = (event: PointerEvent<SVGRectElement>) =>
+    svgRef.current &&
+    clientToViewBoxPoint(svgRef.current, event.clientX, event.clientY);
+
+  const update = (next: Point[] | null) => {
+    pointsRef.current = next;
+    setPoints(next);
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGRectElement>) => {
+    if (event.button !== 0) return;
+    const point = toViewBox(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    update([point]);
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGRectElement>) => {
+    const current = pointsRef.current;
+    const point = current && toViewBox(event);
+    if (!current || !point) return;
+    update(
+      shape === 'rectangle'
+        ? [current[0] as Point, point]
+        : [...current, point],
+    );
+  };
+
+  const handlePointerUp = (event: PointerEvent<SVGRectElement>) => {
+    const current = pointsRef.current;
+    if (!current) return;
+    update(null);
+
+    const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+    if (current.length < 2) {
+      if (!additive) selection.clear();
+      return;
+    }
+
+    // Hit-tested in projection space, before the zoom transform
+    const { x, y, k } = transform;
+    const polygon = getOutline(current, shape).map(([px, py]): Point => [
+      (px - x) / k,
+      (py - y) / k,
+    ]);
+    selection.select(
+      findItemsInPolygon(selection.getItems(), polygon, projection, getRings),
+      { additive },
+    );
+  };
+
+  const handlePointerCancel = () => update(null);
+
+  return (
+    <g className="rsm-selection-lasso">
+      <rect
+        width={width}
+        height={height}
+        fill="transparent"
+        style={{ cursor: 'crosshair', touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      />
+      {points && points.length > 1 && (
+        <path
+          className={`rsm-selection-lasso-outline ${className}`}
+          d={`M${getOutline(points, shape).join('L')}Z`}
+          fill="rgba(0, 0, 0, 0.1)"
+          stroke="#333"
+          strokeDasharray="4 2"
+          pointerEvents="none"
+          {...restProps}
+        />
+      )}
+    </g>
+  );
+}
+
+SelectionLasso.displayName = 'SelectionLasso';
+
+export default SelectionLasso;
@@ -0,0 +1,167 @@
+import React, {
+  createContext,
+  useContext,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import {
+  SelectableItem,
+  SelectionContextType,
+  SelectionMode,
+  SelectionProviderProps,
+  UseSelectionResult,
+} from '../types';
+import { createGeographyError } from '../utils';
+
+const SelectionContext = createContext<SelectionContextType | null>(null);
+const EMPTY_SELECTION: readonly string[] = Object.freeze([]);
+
+const createSelectionStore = (initial: readonly string[]) => {
+  let selected = initial;
+  let keys = new Set(initial);
+  const listeners = new Set<() => void>();
+
+  return {
+    getSelected: () => selected,
+    isSelected: (key: string) => keys.has(key),
+    replace: (next: readonly string[]) => {
+      if (
+        next.length === selected.length &&
+        next.every((key, index) => key === selected[index])
+      ) {
+        return;
+      }
+      selected = next;
+      keys = new Set(next);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const createItemRegistry = () => {
+  const items = new Map<string, SelectableItem>();
+  let snapshot: readonly SelectableItem[] | null = null;
+
+  return {
+    setItem: (id: string, item: SelectableItem) => {
+      items.set(id, item);
+      snapshot = null;
+    },
+    removeItem: (id: string) => {
+      if (items.delete(id)) snapshot = null;
+    },
+    getItems: () => (snapshot ??= Array.from(items.values())),
+  };
+};
+
+// Single mode keeps the last key of a multi-key selection
+const limitToMode = (keys: readonly string[], mode: SelectionMode) =>
+  mode === 'single' && keys.length > 1 ? keys.slice(-1) : keys;
+
+// Selection state shared by the geographies and markers below it. Geographies
+// are keyed by featureKey, markers by their selectionKey prop. The selection
+// can be controlled with selected and onSelectionChange.
+const SelectionProvider: React.FC<SelectionProviderProps> = ({
+  mode = 'single',
+  selected,
+  defaultSelected = EMPTY_SELECTION,
+  onSelectionChange,
+  featureKey = 'id',
+  children,
+}) => {
+  const [store] = useState(() =>
+    createSelectionStore(limitToMode(selected ?? defaultSelected, mode)),
+  );
+  const [registry] = useState(createItemRegistry);
+  const isControlled = selected !== undefined;
+
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  const isControlledRef = useRef(isControlled);
+  useLayoutEffect(() => {
+    onSelectionChangeRef.current = onSelectionChange;
+    isControlledRef.current = isControlled;
+  });
+
+  useLayoutEffect(() => {
+    if (selected) store.replace(limitToMode(selected, mode));
+  }, [store, selected, mode]);
+
+  const value = useMemo((): SelectionContextType => {
+    const change = (next: readonly string[]) => {
+      const keys = limitToMode(Array.from(new Set(next)), mode);
+      const current = store.getSelected();
+      if (
+        keys.length === current.length &&
+        keys.every((key) => store.isSelected(key))
+      ) {
+        return;
+      }
+      if (!isControlledRef.current) store.replace(keys);
+      onSelectionChangeRef.current?.([...keys]);
+    };
+
+    const toggle = (key: string) => {
+      const current = store.getSelected();
+      change(
+        store.isSelected(key)
+          ? current.filter((selectedKey) => selectedKey !== key)
+          : [...current, key],
+      );
+    };
+
+    return {
+      mode,
+      featureKey,
+      getSelected: store.getSelected,
+      isSelected: store.isSelected,
+      subscribe: store.subscribe,
+      select: (keys, options) =>
+        change(options?.additive ? [...store.getSelected(), ...keys] : keys),
+      toggle,
+      clear: () => change(EMPTY_SELECTION),
+      selectWithModifiers: (key, { shiftKey, ctrlKey, metaKey }) => {
+        if (mode === 'multiple' && (shiftKey || ctrlKey || metaKey)) {
+          toggle(key);
+        } else if (mode === 'single' && store.isSelected(key)) {
+          // A second click on the selected feature deselects it
+          change(EMPTY_SELECTION);
+        } else {
+          change([key]);
+        }
+      },
+      ...registry,
+    };
+  }, [mode, featureKey, store, registry]);
+
+  return <SelectionContext value={value}>{children}</SelectionContext>;
+};
+
+SelectionProvider.displayName = 'SelectionProvider';
+
+const useSelection = (): UseSelectionResult => {
+  const context = useContext(SelectionContext);
+  if (!context) {
+    throw createGeographyError(
+      'CONTEXT_ERROR',
+      'useSelection must be used within a SelectionProvider',
+    );
+  }
+  const selected = useSyncExternalStore(
+    context.subscribe,
+    context.getSelected,
+    context.getSelected,
+  );
+  const { mode, isSelected, select, toggle, clear } = context;
+  return { mode, selected, isSelected, select, toggle, clear };
+};
+
+export { SelectionProvider, SelectionContext, useSelection };
@@ -0,0 +1,67 @@
+import { Ref, useEffect } from 'react';
+import { TopologyLayersProps } from '../types';
+import { useMapContext } from './MapProvider';
+import useTopology from './useTopology';
+
+const LOADING_FALLBACK = (
+  <text className="rsm-loading-text" x="50%" y="50%" textAnchor="middle">
+    Loading...
+  </text>
+);
+
+function TopologyLayers({
+  geography,
+  objects,
+  children,
+  onGeographyError,
+  fallback,
+  className = '',
+  ref,
+  ...restProps
+}: TopologyLayersProps & { ref?: Ref<SVGGElement> }) {
+  const { path, projection } = useMapContext();
+
+  const { layers, objectNames, isLoading, error, refetch } = useTopology({
+    geography,
+    ...(objects && { objects }),
+  });
+
+  useEffect(() => {
+    if (error && onGeographyError) {
+      onGeographyError(error);
+    }
+  }, [error, onGeographyError]);
+
+  let content;
+  if (isLoading) {
+    content = LOADING_FALLBACK;
+  } else if (error) {
+    content = fallback ? (
+      fallback(error, refetch ?? (() => {}))
+    ) : (
+      <text
+        className="rsm-error-text"
+        x="50%"
+        y="50%"
+        textAnchor="middle"
+        fill="currentColor"
+      >
+        Failed to load geography data
+      </text>
+    );
+  } else if (objectNames.length > 0) {
+    content = children({ layers, objectNames, path, projection });
+  } else {
+    content = null;
+  }
+
+  return (
+    <g ref={ref} className={`rsm-topology-layers ${className}`} {...restProps}>
+      {content}
+    </g>
+  );
+}
+
+TopologyLayers.displayName = 'TopologyLayers';
+
+export default TopologyLayers;
@@ -0,0 +1,144 @@
+import { KeyboardEvent, Ref } from 'react';
+import { ZoomControlsProps } from '../types';
+import { useMapContext } from './MapProvider';
+import MapControls from './MapControls';
+
+const BUTTON_GAP = 4;
+
+interface ZoomButtonProps {
+  className: string;
+  label: string;
+  disabled: boolean;
+  size: number;
+  offset: number;
+  // Icon path in a 0–1 box, scaled to the button
+  icon: string;
+  onActivate: () => void;
+}
+
+function ZoomButton({
+  className,
+  label,
+  disabled,
+  size,
+  offset,
+  icon,
+  onActivate,
+}: ZoomButtonProps) {
+  const activate = () => {
+    if (!disabled) onActivate();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<SVGGElement>) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      activate();
+    }
+  };
+
+  // Disabled buttons stay focusable so their names remain discoverable
+  return (
+    <g
+      className={`rsm-zoom-control ${className}`}
+      transform={`translate(0, ${offset})`}
+      role="button"
+      tabIndex={0}
+      aria-label={label}
+      aria-disabled={disabled}
+      opacity={disabled ? 0.4 : 1}
+      cursor={disabled ? 'default' : 'pointer'}
+      onClick={activate}
+      onKeyDown={handleKeyDown}
+    >
+      <title>{label}</title>
+      <rect width={size} height={size} rx={4} fill="#FFF" stroke="#999" />
+      <path
+        d={icon}
+        transform={`scale(${size})`}
+        fill="none"
+        stroke="#333"
+        strokeWidth={2 / size}
+        strokeLinecap="round"
+      />
+    </g>
+  );
+}
+
+const PLUS_ICON = 'M0.3,0.5H0.7M0.5,0.3V0.7';
+const MINUS_ICON = 'M0.3,0.5H0.7';
+// Circular arrow
+const RESET_ICON = 'M0.68,0.32A0.25,0.25,0,1,0,0.75,0.5M0.68,0.2V0.32H0.56';
+
+// Zoom in, zoom out and reset buttons for the map's ZoomableGroup, stacked in
+// a corner. Zoom buttons are disabled at the group's zoom limits. Render it
+// after the map content and outside the ZoomableGroup.
+function ZoomControls({
+  position = 'top-right',
+  margin = 16,
+  size = 28,
+  step = 2,
+  showReset = true,
+  labels,
+  animation,
+  className = '',
+  ref,
+  ...restProps
+}: ZoomControlsProps & { ref?: Ref<SVGGElement> }) {
+  const { width, height } = useMapContext();
+
+  const count = showReset ? 3 : 2;
+  const stackHeight = count * size + (count - 1) * BUTTON_GAP;
+  const x = position.endsWith('right') ? width - margin - size : margin;
+  const y = position.startsWith('bottom')
+    ? height - margin - stackHeight
+    : margin;
+
+  return (
+    <MapControls {...(animation && { animation })}>
+      {({ canZoomIn, canZoomOut, isReady, zoomIn, zoomOut, resetView }) => (
+        <g
+          {...(ref && { ref })}
+          className={`rsm-zoom-controls ${className}`}
+          transform={`translate(${x}, ${y})`}
+          role="group"
+          aria-label="Zoom controls"
+          {...restProps}
+        >
+          <ZoomButton
+            className="rsm-zoom-in"
+            label={labels?.zoomIn ?? 'Zoom in'}
+            disabled={!canZoomIn}
+            size={size}
+            offset={0}
+            icon={PLUS_ICON}
+            onActivate={() => zoomIn(step)}
+          />
+          <ZoomButton
+            className="rsm-zoom-out"
+            label={labels?.zoomOut ?? 'Zoom out'}
+            disabled={!canZoomOut}
+            size={size}
+            offset={size + BUTTON_GAP}
+            icon={MINUS_ICON}
+            onActivate={() => zoomOut(step)}
+          />
+          {showReset && (
+            <ZoomButton
+              className="rsm-zoom-reset"
+              label={labels?.reset ?? 'Reset view'}
+              disabled={!isReady}
+              size={size}
+              offset={2 * (size + BUTTON_GAP)}
+              icon={RESET_ICON}
+              onActivate={resetView}
+            />
+          )}
+        </g>
+      )}
+    </MapControls>
+  );
+}
+
+ZoomControls.displayName = 'ZoomControls';
+
+export default ZoomControls;
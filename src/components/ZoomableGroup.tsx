@@ -1,5 +1,6 @@
-import { Ref } from 'react';
+import { Ref, useImperativeHandle, useLayoutEffect } from 'react';
 import {
+  CooperativeGestureMessages,
   ZoomableGroupPropsUnion,
   SimpleZoomableGroupProps,
   createCoordinates,
@@ -9,6 +10,15 @@ import {
 import { useMapContext } from './MapProvider';
 import { ZoomPanProvider } from './ZoomPanProvider';
 import useZoomPan from './useZoomPan';
+import { useKeyboardZoomPan } from '../hooks/useKeyboardZoomPan';
+import { useCooperativeGestures } from '../hooks/useCooperativeGestures';
+
+const getDefaultMessages = (): Required<CooperativeGestureMessages> => ({
+  touch: 'Use two fingers to move the map',
+  wheel: /Mac|iPhone|iPad/.test(globalThis.navigator?.platform ?? '')
+    ? 'Use ⌘ + scroll to zoom the map'
+    : 'Use Ctrl + scroll to zoom the map',
+});
 
 // Type guard to check if props are SimpleZoomableGroupProps
 function isSimpleProps(
@@ -31,6 +41,10 @@ function ZoomableGroup(
     onMoveStart,
     onMove,
     onMoveEnd,
+    controllerRef,
+    keyboardNavigation = false,
+    gestures,
+    panBounds,
     className = '',
     children,
     ref,
@@ -49,7 +63,7 @@ function ZoomableGroup(
     ...restProps
   } = props;
 
-  const { width, height } = useMapContext();
+  const { width, height, zoomTransform, camera } = useMapContext();
 
   // Handle both simple and complex API
   let finalMinZoom: number;
@@ -83,9 +97,11 @@ function ZoomableGroup(
   const finalScaleExtent =
     scaleExtent ?? createScaleExtent(finalMinZoom, finalMaxZoom);
 
-  const { mapRef, transformString, position } = useZoomPan({
+  const { mapRef, transformString, position, controller } = useZoomPan({
     center,
     ...(filterZoomEvent && { filterZoomEvent }),
+    ...(gestures && { gestures }),
+    ...(panBounds && { panBounds }),
     ...(onMoveStart && { onMoveStart }),
     ...(onMove && { onMove }),
     ...(onMoveEnd && { onMoveEnd }),
@@ -94,11 +110,66 @@ function ZoomableGroup(
     zoom,
   });
 
+  useImperativeHandle(controllerRef, () => controller, [controller]);
+
+  const handleKeyDown = useKeyboardZoomPan(
+    controller,
+    width,
+    height,
+    keyboardNavigation,
+  );
+
+  const { cooperativeOverlay = true } = gestures ?? {};
+  const hint = useCooperativeGestures({
+    mapRef,
+    twoFingerPan: !!gestures?.twoFingerPan,
+    modifierWheelZoom: gestures?.wheelZoom === 'modifier',
+    doubleTapZoom: gestures?.doubleTapZoom ?? true,
+    showHints: cooperativeOverlay !== false,
+  });
+  const hintMessage =
+    hint &&
+    ((typeof cooperativeOverlay === 'object' && cooperativeOverlay[hint]) ||
+      getDefaultMessages()[hint]);
+
+  // Publish the transform for map components outside the group
+  useLayoutEffect(() => {
+    zoomTransform.set({ x: position.x, y: position.y, k: position.k });
+  }, [zoomTransform, position.x, position.y, position.k]);
+  useLayoutEffect(
+    () => () => zoomTransform.set({ x: 0, y: 0, k: 1 }),
+    [zoomTransform],
+  );
+
+  // Publish the camera for MapControls and ZoomControls
+  const [minScale, maxScale] = finalScaleExtent;
+  useLayoutEffect(() => {
+    camera.set({
+      controller,
+      scaleExtent: createScaleExtent(minScale, maxScale),
+    });
+    return () => camera.set(null);
+  }, [camera, controller, minScale, maxScale]);
+
   return (
     <ZoomPanProvider
-      value={{ x: position.x, y: position.y, k: position.k, transformString }}
+      value={{
+        x: position.x,
+        y: position.y,
+        k: position.k,
+        transformString,
+        controller,
+      }}
     >
-      <g ref={mapRef}>
+      <g
+        ref={mapRef}
+        {...(keyboardNavigation && {
+          tabIndex: 0,
+          role: 'group',
+          'aria-keyshortcuts': '+ - ArrowUp ArrowDown ArrowLeft ArrowRight',
+        })}
+        onKeyDown={handleKeyDown}
+      >
         <rect width={width} height={height} fill="transparent" />
         <g
           ref={ref}
@@ -108,6 +179,24 @@ function ZoomableGroup(
         >
           {children}
         </g>
+        {hint && (
+          <g
+            className={`rsm-gesture-hint rsm-gesture-hint-${hint}`}
+            pointerEvents="none"
+          >
+            <rect width={width} height={height} fill="rgba(0, 0, 0, 0.45)" />
+            <text
+              x={width / 2}
+              y={height / 2}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill="#FFF"
+              fontSize={16}
+            >
+              {hintMessage}
+            </text>
+          </g>
+        )}
       </g>
     </ZoomPanProvider>
   );
@@ -7,12 +7,13 @@ import {
   ParseGeographiesFunction,
 } from './GeographyServer';
 import { GeographyLoadingSkeleton } from '../loading';
-import { GeographyData } from '../../types';
+import { GeographyData, TopologyObjectName } from '../../types';
 
 interface GeographyClientProps {
   geography: string | Topology | FeatureCollection;
   children: (data: GeographyData) => ReactNode;
   parseGeographies?: ParseGeographiesFunction;
+  objectName?: TopologyObjectName;
   fallback?: ReactNode;
 }
 
@@ -21,6 +22,7 @@ export function GeographyClient({
   geography,
   children,
   parseGeographies,
+  objectName,
   fallback,
 }: GeographyClientProps) {
   const loadingFallback = fallback || <GeographyLoadingSkeleton />;
@@ -31,6 +33,7 @@ export function GeographyClient({
         <GeographyServer
           geography={geography}
           {...(parseGeographies && { parseGeographies })}
+          {...(objectName !== undefined && { objectName })}
         >
           {children}
         </GeographyServer>
@@ -43,6 +46,7 @@ export function GeographyClient({
     <GeographyProcessor
       geographyData={geography}
       {...(parseGeographies && { parseGeographies })}
+      {...(objectName !== undefined && { objectName })}
     >
       {children}
     </GeographyProcessor>
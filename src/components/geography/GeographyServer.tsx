@@ -1,7 +1,7 @@
 import { cache, ReactNode, useMemo } from 'react';
 import { Feature, FeatureCollection, Geometry } from 'geojson';
 import { Topology } from 'topojson-specification';
-import { GeographyData } from '../../types';
+import { GeographyData, TopologyObjectName } from '../../types';
 import {
   getFeatures,
   getMesh,
@@ -41,11 +41,13 @@ interface GeographyServerProps {
   geography: string;
   children: (data: GeographyData) => ReactNode;
   parseGeographies?: ParseGeographiesFunction;
+  objectName?: TopologyObjectName;
 }
 
 interface GeographyProcessorProps {
   geographyData: Topology | FeatureCollection;
   parseGeographies?: ParseGeographiesFunction;
+  objectName?: TopologyObjectName;
   children: (data: GeographyData) => ReactNode;
 }
 
@@ -53,28 +55,37 @@ interface GeographyProcessorProps {
 function GeographyProcessor({
   geographyData,
   parseGeographies,
+  objectName,
   children,
 }: GeographyProcessorProps) {
   const { path } = useMapContext();
 
   // Memoize feature extraction with caching for performance
   const features = useMemo(() => {
-    const cacheKey = generateFeaturesCacheKey(geographyData, parseGeographies);
+    const cacheKey = generateFeaturesCacheKey(
+      geographyData,
+      parseGeographies,
+      objectName,
+    );
     const cached = getCachedFeatures(cacheKey);
 
     if (cached) {
       return cached;
     }
 
-    const extractedFeatures = getFeatures(geographyData, parseGeographies);
+    const extractedFeatures = getFeatures(
+      geographyData,
+      parseGeographies,
+      objectName,
+    );
     cacheFeatures(cacheKey, extractedFeatures);
     return extractedFeatures;
-  }, [geographyData, parseGeographies]);
+  }, [geographyData, parseGeographies, objectName]);
 
   // Memoize mesh extraction separately for better granularity
   const mesh = useMemo(() => {
-    return getMesh(geographyData);
-  }, [geographyData]);
+    return getMesh(geographyData, objectName);
+  }, [geographyData, objectName]);
 
   // Memoize prepared features with caching (path generation is expensive)
   const preparedGeographies = useMemo(() => {
@@ -96,7 +107,7 @@ function GeographyProcessor({
   const preparedMeshData = useMemo(() => {
     if (!mesh) return { outline: '', borders: '' };
 
-    const cacheKey = generateMeshCacheKey(geographyData, path);
+    const cacheKey = generateMeshCacheKey(geographyData, path, objectName);
     const cached = getCachedMeshData(cacheKey);
 
     if (cached) {
@@ -116,7 +127,7 @@ function GeographyProcessor({
 
     cacheMeshData(cacheKey, result);
     return result;
-  }, [mesh, path, geographyData]);
+  }, [mesh, path, geographyData, objectName]);
 
   // Memoize the final processed data object
   const processedData: GeographyData = useMemo(
@@ -138,6 +149,7 @@ export async function GeographyServer({
   geography,
   children,
   parseGeographies,
+  objectName,
 }: GeographyServerProps) {
   const geographyData = await preloadGeography(geography);
 
@@ -146,6 +158,7 @@ export async function GeographyServer({
     <GeographyProcessor
       geographyData={geographyData}
       {...(parseGeographies && { parseGeographies })}
+      {...(objectName !== undefined && { objectName })}
     >
       {children}
     </GeographyProcessor>
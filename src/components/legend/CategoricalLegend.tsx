@@ -0,0 +1,42 @@
+import { Ref } from 'react';
+import { CategoricalLegendProps } from '../../types';
+import { LegendFrame } from './LegendFrame';
+import { getSwatchListHeight, LegendSwatches } from './LegendSwatches';
+
+// Color swatches for categorical data
+export function CategoricalLegend({
+  items,
+  swatchSize = 12,
+  title,
+  position = 'bottom-left',
+  margin = 16,
+  onHighlightChange,
+  className = '',
+  ref,
+  ...restProps
+}: CategoricalLegendProps & { ref?: Ref<SVGGElement> }) {
+  return (
+    <LegendFrame
+      {...restProps}
+      ref={ref}
+      title={title}
+      position={position}
+      margin={margin}
+      contentHeight={getSwatchListHeight(items.length, swatchSize)}
+      className={`rsm-legend-categorical ${className}`}
+    >
+      {(alignRight) => (
+        <LegendSwatches
+          entries={items}
+          swatchSize={swatchSize}
+          alignRight={alignRight}
+          onHighlightChange={onHighlightChange}
+        />
+      )}
+    </LegendFrame>
+  );
+}
+
+CategoricalLegend.displayName = 'CategoricalLegend';
+
+export default CategoricalLegend;
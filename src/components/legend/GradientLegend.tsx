@@ -0,0 +1,89 @@
+import { Ref, useId } from 'react';
+import { GradientLegendProps } from '../../types';
+import { LegendFrame } from './LegendFrame';
+import { defaultFormatValue } from './legend-layout';
+
+const TICK_LABEL_OFFSET = 12;
+
+// Continuous color ramp for linear and log color scales
+export function GradientLegend({
+  scale,
+  barWidth = 160,
+  barHeight = 10,
+  ticks = 2,
+  title,
+  position = 'bottom-left',
+  margin = 16,
+  formatValue = defaultFormatValue,
+  className = '',
+  ref,
+  ...restProps
+}: GradientLegendProps & { ref?: Ref<SVGGElement> }) {
+  const gradientId = `rsm-legend-gradient-${useId().replace(/[^\w-]/g, '')}`;
+  const [d0, d1] = scale.domain;
+  const stopCount = scale.range.length;
+  const tickCount = Math.max(2, Math.floor(ticks));
+
+  // Ticks are spaced evenly along the bar in the scale's own (log or linear) space
+  const tickValues = Array.from({ length: tickCount }, (_, index) => {
+    const t = index / (tickCount - 1);
+    return scale.type === 'log'
+      ? Math.exp(Math.log(d0) + (Math.log(d1) - Math.log(d0)) * t)
+      : d0 + (d1 - d0) * t;
+  });
+
+  return (
+    <LegendFrame
+      {...restProps}
+      ref={ref}
+      title={title}
+      position={position}
+      margin={margin}
+      contentHeight={barHeight + TICK_LABEL_OFFSET + 4}
+      className={`rsm-legend-gradient ${className}`}
+    >
+      {(alignRight) => {
+        const x0 = alignRight ? -barWidth : 0;
+        return (
+          <>
+            <defs>
+              <linearGradient id={gradientId} x1="0" x2="1" y1="0" y2="0">
+                {scale.range.map((color, index) => (
+                  <stop
+                    key={index}
+                    offset={stopCount > 1 ? index / (stopCount - 1) : 0}
+                    stopColor={color}
+                  />
+                ))}
+              </linearGradient>
+            </defs>
+            <rect
+              x={x0}
+              width={barWidth}
+              height={barHeight}
+              fill={`url(#${gradientId})`}
+            />
+            {tickValues.map((value, index) => {
+              const t = index / (tickCount - 1);
+              return (
+                <text
+                  key={index}
+                  className="rsm-legend-tick"
+                  x={x0 + barWidth * t}
+                  y={barHeight + TICK_LABEL_OFFSET}
+                  textAnchor={t === 0 ? 'start' : t === 1 ? 'end' : 'middle'}
+                >
+                  {formatValue(value)}
+                </text>
+              );
+            })}
+          </>
+        );
+      }}
+    </LegendFrame>
+  );
+}
+
+GradientLegend.displayName = 'GradientLegend';
+
+export default GradientLegend;
@@ -0,0 +1,62 @@
+import { ReactNode, Ref, SVGProps } from 'react';
+import { LegendPosition } from '../../types';
+import { useMapContext } from '../MapProvider';
+import { LEGEND_TITLE_HEIGHT } from './legend-layout';
+
+interface LegendFrameProps extends Omit<
+  SVGProps<SVGGElement>,
+  'children' | 'ref'
+> {
+  title?: string | undefined;
+  position: LegendPosition;
+  margin: number;
+  // Height of the legend body, used to anchor bottom positions
+  contentHeight: number;
+  children: (alignRight: boolean) => ReactNode;
+  ref?: Ref<SVGGElement> | undefined;
+}
+
+// Positions a legend in a corner of the map and renders its title
+export function LegendFrame({
+  title,
+  position,
+  margin,
+  contentHeight,
+  children,
+  className = '',
+  ref,
+  ...restProps
+}: LegendFrameProps) {
+  const { width, height } = useMapContext();
+
+  const alignRight = position.endsWith('right');
+  const titleHeight = title ? LEGEND_TITLE_HEIGHT : 0;
+  const x = alignRight ? width - margin : margin;
+  const y = position.startsWith('bottom')
+    ? height - margin - titleHeight - contentHeight
+    : margin;
+
+  return (
+    <g
+      {...(ref && { ref })}
+      className={`rsm-legend ${className}`}
+      transform={`translate(${x}, ${y})`}
+      fontSize={11}
+      role="group"
+      {...(title && { 'aria-label': title })}
+      {...restProps}
+    >
+      {title && (
+        <text
+          className="rsm-legend-title"
+          y={12}
+          fontWeight={600}
+          textAnchor={alignRight ? 'end' : 'start'}
+        >
+          {title}
+        </text>
+      )}
+      <g transform={`translate(0, ${titleHeight})`}>{children(alignRight)}</g>
+    </g>
+  );
+}
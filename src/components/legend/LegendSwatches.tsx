@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { LegendEntry } from '../../types';
+import { LEGEND_LABEL_GAP, LEGEND_ROW_GAP } from './legend-layout';
+
+interface LegendSwatchesProps {
+  entries: readonly LegendEntry[];
+  swatchSize: number;
+  alignRight: boolean;
+  onHighlightChange?: ((entry: LegendEntry | null) => void) | undefined;
+}
+
+export function getSwatchListHeight(count: number, swatchSize: number) {
+  return count > 0 ? count * (swatchSize + LEGEND_ROW_GAP) - LEGEND_ROW_GAP : 0;
+}
+
+// Vertical list of color swatches shared by categorical and stepped legends
+export function LegendSwatches({
+  entries,
+  swatchSize,
+  alignRight,
+  onHighlightChange,
+}: LegendSwatchesProps) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const activate = (index: number | null) => {
+    setActiveIndex(index);
+    onHighlightChange?.(index === null ? null : (entries[index] ?? null));
+  };
+
+  return (
+    <g role="list">
+      {entries.map((entry, index) => {
+        const isActive = activeIndex === index;
+        return (
+          <g
+            key={`${index}-${entry.label}`}
+            className={`rsm-legend-item${isActive ? ' rsm-legend-item--active' : ''}`}
+            role="listitem"
+            transform={`translate(0, ${index * (swatchSize + LEGEND_ROW_GAP)})`}
+            {...(onHighlightChange && {
+              tabIndex: 0,
+              style: { cursor: 'pointer' },
+              onMouseEnter: () => activate(index),
+              onMouseLeave: () => activate(null),
+              onFocus: () => activate(index),
+              onBlur: () => activate(null),
+            })}
+          >
+            <rect
+              x={alignRight ? -swatchSize : 0}
+              width={swatchSize}
+              height={swatchSize}
+              fill={entry.color}
+              stroke={isActive ? 'currentColor' : 'none'}
+              strokeWidth={isActive ? 1.5 : 0}
+            />
+            <text
+              x={
+                alignRight
+                  ? -swatchSize - LEGEND_LABEL_GAP
+                  : swatchSize + LEGEND_LABEL_GAP
+              }
+              y={swatchSize / 2}
+              dominantBaseline="central"
+              textAnchor={alignRight ? 'end' : 'start'}
+            >
+              {entry.label}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,79 @@
+import { Ref } from 'react';
+import { ProportionalLegendProps } from '../../types';
+import { LegendFrame } from './LegendFrame';
+import { defaultFormatValue, LEGEND_LABEL_GAP } from './legend-layout';
+
+// Nested circles for proportional symbol maps
+export function ProportionalLegend({
+  radius,
+  values,
+  fill = 'none',
+  stroke = 'currentColor',
+  title,
+  position = 'bottom-left',
+  margin = 16,
+  formatValue = defaultFormatValue,
+  className = '',
+  ref,
+  ...restProps
+}: ProportionalLegendProps & { ref?: Ref<SVGGElement> }) {
+  // Largest circle first so smaller ones are drawn on top
+  const circles = values
+    .map((value) => ({ value, r: radius(value) }))
+    .filter(({ r }) => Number.isFinite(r) && r > 0)
+    .sort((a, b) => b.r - a.r);
+  const maxRadius = circles[0]?.r ?? 0;
+
+  return (
+    <LegendFrame
+      {...restProps}
+      ref={ref}
+      title={title}
+      position={position}
+      margin={margin}
+      contentHeight={maxRadius * 2}
+      className={`rsm-legend-proportional ${className}`}
+    >
+      {(alignRight) => {
+        const cx = alignRight ? -maxRadius : maxRadius;
+        const lineEnd = alignRight
+          ? -maxRadius * 2 - LEGEND_LABEL_GAP
+          : maxRadius * 2 + LEGEND_LABEL_GAP;
+        return circles.map(({ value, r }, index) => {
+          const top = maxRadius * 2 - r * 2;
+          return (
+            <g key={index} className="rsm-legend-item">
+              <circle
+                cx={cx}
+                cy={maxRadius * 2 - r}
+                r={r}
+                fill={fill}
+                stroke={stroke}
+              />
+              <line
+                x1={cx}
+                x2={lineEnd}
+                y1={top}
+                y2={top}
+                stroke={stroke}
+                strokeDasharray="2 2"
+              />
+              <text
+                x={alignRight ? lineEnd - 2 : lineEnd + 2}
+                y={top}
+                dominantBaseline="central"
+                textAnchor={alignRight ? 'end' : 'start'}
+              >
+                {formatValue(value)}
+              </text>
+            </g>
+          );
+        });
+      }}
+    </LegendFrame>
+  );
+}
+
+ProportionalLegend.displayName = 'ProportionalLegend';
+
+export default ProportionalLegend;
@@ -0,0 +1,56 @@
+import { Ref, useMemo } from 'react';
+import { LegendEntry, SteppedLegendProps } from '../../types';
+import { getColorScaleBins } from '../../utils/color-scales';
+import { LegendFrame } from './LegendFrame';
+import { getSwatchListHeight, LegendSwatches } from './LegendSwatches';
+import { defaultFormatValue, formatBinLabel } from './legend-layout';
+
+// One swatch per color scale bin, labelled with the bin's value range
+export function SteppedLegend({
+  scale,
+  bins,
+  swatchSize = 12,
+  title,
+  position = 'bottom-left',
+  margin = 16,
+  formatValue = defaultFormatValue,
+  onHighlightChange,
+  className = '',
+  ref,
+  ...restProps
+}: SteppedLegendProps & { ref?: Ref<SVGGElement> }) {
+  const entries = useMemo(
+    (): LegendEntry[] =>
+      (bins ?? getColorScaleBins(scale)).map((bin) => ({
+        label: formatBinLabel(bin, formatValue),
+        color: bin.color,
+        bin,
+      })),
+    [scale, bins, formatValue],
+  );
+
+  return (
+    <LegendFrame
+      {...restProps}
+      ref={ref}
+      title={title}
+      position={position}
+      margin={margin}
+      contentHeight={getSwatchListHeight(entries.length, swatchSize)}
+      className={`rsm-legend-stepped ${className}`}
+    >
+      {(alignRight) => (
+        <LegendSwatches
+          entries={entries}
+          swatchSize={swatchSize}
+          alignRight={alignRight}
+          onHighlightChange={onHighlightChange}
+        />
+      )}
+    </LegendFrame>
+  );
+}
+
+SteppedLegend.displayName = 'SteppedLegend';
+
+export default SteppedLegend;
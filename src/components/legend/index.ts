@@ -0,0 +1,5 @@
+// Barrel exports for legend components
+export { CategoricalLegend } from './CategoricalLegend';
+export { SteppedLegend } from './SteppedLegend';
+export { GradientLegend } from './GradientLegend';
+export { ProportionalLegend } from './ProportionalLegend';
@@ -0,0 +1,24 @@
+import { ColorScaleBin } from '../../types';
+
+export const LEGEND_TITLE_HEIGHT = 18;
+export const LEGEND_ROW_GAP = 4;
+export const LEGEND_LABEL_GAP = 6;
+
+export function defaultFormatValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Formats a bin's range for display, using open-ended labels for threshold edges
+ * @param bin - Legend bin
+ * @param formatValue - Number formatter
+ * @returns Label such as "10 – 20", "< 10" or "≥ 20"
+ */
+export function formatBinLabel(
+  bin: ColorScaleBin,
+  formatValue: (value: number) => string,
+): string {
+  if (bin.min === -Infinity) return `< ${formatValue(bin.max)}`;
+  if (bin.max === Infinity) return `≥ ${formatValue(bin.min)}`;
+  return `${formatValue(bin.min)} – ${formatValue(bin.max)}`;
+}
@@ -0,0 +1,118 @@
+import { useContext, useLayoutEffect, useMemo } from 'react';
+import { Feature, Geometry } from 'geojson';
+import {
+  ChoroplethData,
+  ColorScale,
+  ColorScaleConfig,
+  GeographyError,
+  UseChoroplethProps,
+} from '../types';
+import { createColorScale, getColorScaleBins } from '../utils/color-scales';
+import { getFeatureKey } from '../utils/feature-keys';
+import { MapContext } from './MapProvider';
+
+// Stands in for a scale whose config is invalid; every feature gets the
+// no-data style and legends have no bins
+const EMPTY_SCALE: ColorScale = Object.assign(() => '', {
+  type: 'quantize' as const,
+  domain: [0, 0] as const,
+  range: [],
+  thresholds: [],
+});
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export default function useChoropleth<T>({
+  data,
+  featureKey = 'id',
+  dataKey,
+  value,
+  scale: scaleConfig,
+}: UseChoroplethProps<T>): ChoroplethData<T> {
+  // Optional, so the hook also works outside ComposableMap
+  const featureIndex = useContext(MapContext)?.featureIndex;
+
+  // Join data rows by key once per data/accessor change
+  const dataByKey = useMemo(() => {
+    const index = new Map<string, T>();
+    for (const datum of data) {
+      const key =
+        typeof dataKey === 'function'
+          ? dataKey(datum)
+          : (datum[dataKey] as unknown);
+      if (typeof key === 'string' || typeof key === 'number') {
+        index.set(String(key), datum);
+      }
+    }
+    return index;
+  }, [data, dataKey]);
+
+  const values = useMemo(
+    () => data.map((datum) => value(datum)).filter(isFiniteNumber),
+    [data, value],
+  );
+
+  // Scale configs are plain data and are often written inline, so key the
+  // scale by the config contents rather than its identity. Prebuilt scales
+  // are used as-is.
+  const prebuiltScale = typeof scaleConfig === 'function' ? scaleConfig : null;
+  const scaleConfigToken = prebuiltScale ? null : JSON.stringify(scaleConfig);
+  const { scale, error } = useMemo((): {
+    scale: ColorScale;
+    error: GeographyError | null;
+  } => {
+    if (prebuiltScale) {
+      return { scale: prebuiltScale, error: null };
+    }
+    try {
+      return {
+        scale: createColorScale(
+          JSON.parse(scaleConfigToken as string) as ColorScaleConfig,
+          values,
+        ),
+        error: null,
+      };
+    } catch (err) {
+      // Invalid configs are reported instead of failing the render
+      return { scale: EMPTY_SCALE, error: err as GeographyError };
+    }
+  }, [prebuiltScale, scaleConfigToken, values]);
+
+  const bins = useMemo(
+    () => (error ? [] : getColorScaleBins(scale, values)),
+    [scale, values, error],
+  );
+
+  const choropleth = useMemo(() => {
+    const getDatum = (geography: Feature<Geometry>): T | undefined => {
+      const key = getFeatureKey(geography, featureKey);
+      return key === null ? undefined : dataByKey.get(key);
+    };
+
+    const getValue = (geography: Feature<Geometry>): number | null => {
+      const datum = getDatum(geography);
+      if (datum === undefined) return null;
+      const datumValue = value(datum);
+      if (!isFiniteNumber(datumValue)) return null;
+      // A log scale has no color for zero or negative values
+      return scale.type === 'log' && datumValue <= 0 ? null : datumValue;
+    };
+
+    const getColor = (geography: Feature<Geometry>): string | null => {
+      const datumValue = getValue(geography);
+      return datumValue === null || error ? null : scale(datumValue);
+    };
+
+    return { scale, bins, getDatum, getValue, getColor, error };
+  }, [scale, bins, dataByKey, featureKey, value, error]);
+
+  // Inside a map, MapDataTable lists the joined data
+  useLayoutEffect(
+    () => featureIndex?.addBinding(choropleth),
+    [featureIndex, choropleth],
+  );
+
+  return choropleth;
+}
@@ -0,0 +1,30 @@
+import { useContext, useMemo } from 'react';
+import { PointCluster, UseClustersProps } from '../types';
+import { clusterPoints, projectPoints } from '../utils/marker-clustering';
+import { useMapContext } from './MapProvider';
+import { ZoomPanContext } from './ZoomPanProvider';
+
+export default function useClusters<T>({
+  points,
+  coordinates,
+  radius = 40,
+  maxZoom = Infinity,
+}: UseClustersProps<T>): PointCluster<T>[] {
+  const { projection } = useMapContext();
+  // Outside a ZoomableGroup the map is drawn at scale 1
+  const k = useContext(ZoomPanContext)?.k ?? 1;
+
+  // Projection is the expensive part, so it only reruns when the data or the
+  // projection changes. The accessor is usually an inline arrow, so a new one
+  // alone does not re-project; the current one is used whenever it reruns.
+  const projected = useMemo(
+    () => projectPoints(points, coordinates, projection),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [points, projection],
+  );
+
+  return useMemo(
+    () => clusterPoints(projected, k > maxZoom ? 0 : radius, k, projection),
+    [projected, k, maxZoom, radius, projection],
+  );
+}
@@ -1,16 +1,9 @@
-import { useMemo, useEffect, useState, useCallback } from 'react';
-import { FeatureCollection } from 'geojson';
-import { Topology } from 'topojson-specification';
+import { useMemo } from 'react';
+import { Feature, Geometry } from 'geojson';
 import { useMapContext } from './MapProvider';
 import { UseGeographiesProps, GeographyData, GeographyError } from '../types';
-import {
-  fetchGeographiesCache,
-  getFeatures,
-  getMesh,
-  prepareFeatures,
-  isString,
-  prepareMesh,
-} from '../utils';
+import { getFeatures, getMesh, prepareFeatures, prepareMesh } from '../utils';
+import { getFilteredMesh } from '../utils/geography-processing';
 import {
   cacheFeatures,
   getCachedFeatures,
@@ -26,68 +19,54 @@ import {
   cacheGeographyData,
   getCachedPreparedFeaturesWeakMap,
   cachePreparedFeaturesWeakMap,
+  cacheCustomMesh,
+  getCachedCustomMesh,
+  generateCustomMeshCacheKey,
 } from '../utils/geography-cache';
-import { preloadGeography } from '../utils/preloading';
-import { devTools } from '../utils/debugging';
+import { useGeographySource } from '../hooks/useGeographySource';
+import { useObjectNames } from '../hooks/useObjectNames';
+
+type RawMesh = ReturnType<typeof getMesh>;
+
+const EMPTY_MESHES: Record<string, string> = Object.freeze({});
 
 export default function useGeographies({
   geography,
   parseGeographies,
+  objectName: objectNameProp,
+  meshes,
+  renderer = 'svg',
 }: UseGeographiesProps): GeographyData {
   const { path } = useMapContext();
-  const [loadedData, setLoadedData] = useState<
-    Topology | FeatureCollection | null
-  >(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<GeographyError | Error | null>(null);
-  const [retryCount, setRetryCount] = useState(0);
-
-  const refetch = useCallback(() => {
-    setRetryCount((c) => c + 1);
-  }, []);
-
-  useEffect(() => {
-    let ignore = false;
-
-    if (isString(geography)) {
-      setIsLoading(true);
-      setError(null);
-
-      devTools.debugGeographyLoading(geography, 'start');
-
-      preloadGeography(geography);
-
-      fetchGeographiesCache(geography)
-        .then((data) => {
-          if (!ignore) {
-            devTools.debugGeographyLoading(geography, 'success', data);
-            setLoadedData(data);
-            setIsLoading(false);
-          }
-        })
-        .catch((err) => {
-          if (!ignore) {
-            devTools.debugGeographyLoading(geography, 'error', err);
-            setError(err instanceof Error ? err : new Error(String(err)));
-            setIsLoading(false);
-          }
-        });
-    } else {
-      setLoadedData(geography);
-      setIsLoading(false);
-      setError(null);
-    }
 
-    return () => {
-      ignore = true;
-    };
-  }, [geography, retryCount]);
+  const objectName = useObjectNames(objectNameProp);
+  const {
+    data: loadedData,
+    isLoading,
+    error,
+    refetch,
+  } = useGeographySource(geography);
 
   // Granular memoization for expensive operations
 
+  // Identifies this extraction (data, parser and TopoJSON object selection)
+  const featuresCacheKey = useMemo(
+    () =>
+      loadedData
+        ? generateFeaturesCacheKey(loadedData, parseGeographies, objectName)
+        : null,
+    [loadedData, parseGeographies, objectName],
+  );
+
   // Memoize feature extraction with aggressive caching
-  const rawFeatures = useMemo(() => {
-    if (isLoading || !loadedData) return [];
+  const extractedFeatures = useMemo((): {
+    features: Feature<Geometry>[];
+    mesh: RawMesh;
+    error: GeographyError | Error | null;
+  } => {
+    if (isLoading || !loadedData || !featuresCacheKey) {
+      return { features: [], mesh: null, error: null };
+    }
 
     // Try WeakMap cache first for object-based geography data
     if (
@@ -95,48 +74,61 @@ export default function useGeographies({
       typeof loadedData === 'object' &&
       !Array.isArray(loadedData)
     ) {
-      const weakMapCached = getCachedGeographyData(loadedData);
+      const weakMapCached = getCachedGeographyData(
+        loadedData,
+        featuresCacheKey,
+      );
       if (weakMapCached) {
-        return weakMapCached.features;
+        return {
+          features: weakMapCached.features,
+          mesh: weakMapCached.mesh as RawMesh,
+          error: null,
+        };
       }
     }
 
     // Fall back to LRU cache
-    const cacheKey = generateFeaturesCacheKey(loadedData, parseGeographies);
-    const cached = getCachedFeatures(cacheKey);
-
-    if (cached) {
-      return cached;
+    const cached = getCachedFeatures(featuresCacheKey);
+
+    // Extract features and mesh (throws for unknown TopoJSON object names)
+    let features: Feature<Geometry>[];
+    let mesh: RawMesh;
+    try {
+      features =
+        cached ?? getFeatures(loadedData, parseGeographies, objectName);
+      mesh = getMesh(loadedData, objectName);
+    } catch (err) {
+      return {
+        features: [],
+        mesh: null,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
     }
 
-    // Extract features
-    const features = getFeatures(loadedData, parseGeographies);
-
     // Cache in both systems
-    cacheFeatures(cacheKey, features);
+    if (!cached) {
+      cacheFeatures(featuresCacheKey, features);
+    }
     if (
       loadedData &&
       typeof loadedData === 'object' &&
       !Array.isArray(loadedData)
     ) {
-      const mesh = getMesh(loadedData);
-      cacheGeographyData(loadedData, features, mesh);
+      cacheGeographyData(loadedData, features, mesh, featuresCacheKey);
     }
 
-    return features;
-  }, [loadedData, isLoading, parseGeographies]);
+    return { features, mesh, error: null };
+  }, [loadedData, isLoading, parseGeographies, objectName, featuresCacheKey]);
 
-  // Memoize mesh extraction separately
-  const rawMesh = useMemo(() => {
-    if (isLoading || !loadedData) return null;
-    return getMesh(loadedData);
-  }, [loadedData, isLoading]);
+  const rawFeatures = extractedFeatures.features;
+  const rawMesh = extractedFeatures.mesh;
 
   // Memoize prepared features with aggressive caching (path generation is expensive)
   const preparedGeographies = useMemo(() => {
     if (rawFeatures.length === 0) return [];
 
     const pathFunctionToken = getPathFunctionCacheToken(path);
+    const preparedVariantKey = `${featuresCacheKey}:${renderer}`;
 
     // Try WeakMap cache first if we have the original geography object
     if (
@@ -147,6 +139,7 @@ export default function useGeographies({
       const weakMapCached = getCachedPreparedFeaturesWeakMap(
         loadedData,
         pathFunctionToken,
+        preparedVariantKey,
       );
       if (weakMapCached) {
         return weakMapCached;
@@ -154,7 +147,11 @@ export default function useGeographies({
     }
 
     // Fall back to LRU cache
-    const cacheKey = generatePreparedFeaturesCacheKey(rawFeatures, path);
+    const cacheKey = generatePreparedFeaturesCacheKey(
+      rawFeatures,
+      path,
+      renderer,
+    );
     const cached = getCachedPreparedFeatures(cacheKey);
 
     if (cached) {
@@ -162,7 +159,9 @@ export default function useGeographies({
     }
 
     // Generate prepared features
-    const prepared = prepareFeatures(rawFeatures, path);
+    const prepared = prepareFeatures(rawFeatures, path, {
+      svgPaths: renderer === 'svg',
+    });
 
     // Cache in both systems
     cachePreparedFeatures(cacheKey, prepared);
@@ -171,17 +170,22 @@ export default function useGeographies({
       typeof loadedData === 'object' &&
       !Array.isArray(loadedData)
     ) {
-      cachePreparedFeaturesWeakMap(loadedData, prepared, pathFunctionToken);
+      cachePreparedFeaturesWeakMap(
+        loadedData,
+        prepared,
+        pathFunctionToken,
+        preparedVariantKey,
+      );
     }
 
     return prepared;
-  }, [rawFeatures, path, loadedData]);
+  }, [rawFeatures, path, loadedData, featuresCacheKey, renderer]);
 
   // Memoize prepared mesh with caching (path generation for borders/outline)
   const preparedMeshData = useMemo(() => {
     if (!rawMesh) return { outline: '', borders: '' };
 
-    const cacheKey = generateMeshCacheKey(loadedData, path);
+    const cacheKey = generateMeshCacheKey(loadedData, path, objectName);
     const cached = getCachedMeshData(cacheKey);
 
     if (cached) {
@@ -201,16 +205,62 @@ export default function useGeographies({
 
     cacheMeshData(cacheKey, result);
     return result;
-  }, [rawMesh, path, loadedData]);
+  }, [rawMesh, path, loadedData, objectName]);
+
+  // Custom mesh filters, cached per filter function
+  const preparedCustomMeshes = useMemo(() => {
+    if (!meshes || isLoading || !loadedData || extractedFeatures.error) {
+      return EMPTY_MESHES;
+    }
+
+    return Object.fromEntries(
+      Object.entries(meshes).map(([name, filter]) => {
+        const cacheKey = generateCustomMeshCacheKey(
+          loadedData,
+          path,
+          filter,
+          objectName,
+        );
+        const cached = getCachedCustomMesh(cacheKey);
+
+        if (cached !== undefined) {
+          return [name, cached];
+        }
+
+        const geometry = getFilteredMesh(loadedData, filter, objectName);
+        const svgPath = (geometry && path(geometry)) || '';
+        cacheCustomMesh(cacheKey, svgPath);
+        return [name, svgPath];
+      }),
+    );
+  }, [
+    meshes,
+    isLoading,
+    loadedData,
+    extractedFeatures.error,
+    path,
+    objectName,
+  ]);
+
+  const processingError = extractedFeatures.error;
 
   return useMemo(() => {
     return {
       geographies: preparedGeographies,
       outline: preparedMeshData.outline,
       borders: preparedMeshData.borders,
+      meshes: preparedCustomMeshes,
       isLoading,
-      error,
+      error: error ?? processingError,
       refetch,
     };
-  }, [preparedGeographies, preparedMeshData, isLoading, error, refetch]);
+  }, [
+    preparedGeographies,
+    preparedMeshData,
+    preparedCustomMeshes,
+    isLoading,
+    error,
+    processingError,
+    refetch,
+  ]);
 }
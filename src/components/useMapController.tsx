@@ -0,0 +1,17 @@
+import { useContext } from 'react';
+import { MapController } from '../types';
+import { createGeographyError } from '../utils';
+import { ZoomPanContext } from './ZoomPanProvider';
+
+// Camera controls for the nearest ZoomableGroup. Outside the group, use its
+// `controllerRef` prop instead.
+export default function useMapController(): MapController {
+  const controller = useContext(ZoomPanContext)?.controller;
+  if (!controller) {
+    throw createGeographyError(
+      'CONTEXT_ERROR',
+      'useMapController must be used within a ZoomableGroup',
+    );
+  }
+  return controller;
+}
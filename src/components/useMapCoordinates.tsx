@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { MapCoordinates } from '../types';
+import {
+  clientToViewBoxPoint,
+  mapToScreenCoordinates,
+  screenToMapCoordinates,
+  viewBoxToClientPoint,
+} from '../utils/coordinate-utils';
+import { useActiveZoomTransform } from '../hooks/useActiveZoomTransform';
+import { useMapContext } from './MapProvider';
+
+// Client pixel <-> geographic conversions for the map, following the zoom and
+// pan of its ZoomableGroup from inside or outside the group
+export default function useMapCoordinates(): MapCoordinates {
+  const { projection, svgRef } = useMapContext();
+  const { x, y, k } = useActiveZoomTransform();
+
+  return useMemo((): MapCoordinates => {
+    const transform = { x, y, k };
+
+    return {
+      toGeo: (clientX, clientY) => {
+        const svg = svgRef.current;
+        const point = svg && clientToViewBoxPoint(svg, clientX, clientY);
+        return point
+          ? screenToMapCoordinates(point, projection, transform)
+          : null;
+      },
+      toScreen: (coordinates) => {
+        const svg = svgRef.current;
+        const point = mapToScreenCoordinates(
+          coordinates,
+          projection,
+          transform,
+        );
+        return svg && point ? viewBoxToClientPoint(svg, point) : null;
+      },
+    };
+  }, [projection, svgRef, x, y, k]);
+}
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Coordinates, PointVisibility, PointVisibilityOptions } from '../types';
+import {
+  getHorizonOpacity,
+  isProjectedPointVisible,
+} from '../utils/coordinate-utils';
+import { useMapContext } from './MapProvider';
+
+// Whether the map's projection draws a point, for hiding markers and other
+// point content on the far side of a globe or outside a clip extent
+export default function usePointVisibility(
+  coordinates: Coordinates,
+  { horizonFade = 0, onVisibilityChange }: PointVisibilityOptions = {},
+): PointVisibility {
+  const { projection } = useMapContext();
+
+  const visible = useMemo(
+    () => isProjectedPointVisible(coordinates, projection),
+    [coordinates, projection],
+  );
+  const opacity = useMemo(
+    () =>
+      visible ? getHorizonOpacity(coordinates, projection, horizonFade) : 0,
+    [visible, coordinates, projection, horizonFade],
+  );
+
+  // Points start out assumed visible, so one mounted out of view reports it
+  const onVisibilityChangeRef = useRef(onVisibilityChange);
+  const reportedRef = useRef(true);
+  useEffect(() => {
+    onVisibilityChangeRef.current = onVisibilityChange;
+  });
+  useEffect(() => {
+    if (reportedRef.current === visible) return;
+    reportedRef.current = visible;
+    onVisibilityChangeRef.current?.(visible);
+  }, [visible]);
+
+  return { visible, opacity };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PointerCoordinates } from '../types';
+import {
+  clientToViewBoxPoint,
+  screenToMapCoordinates,
+} from '../utils/coordinate-utils';
+import { useActiveZoomTransform } from '../hooks/useActiveZoomTransform';
+import { useMapContext } from './MapProvider';
+
+// Tracks the pointer over the map's svg and inverts it through the active
+// projection and zoom transform. Null while the pointer is off the map or
+// outside the projected sphere.
+export default function usePointerCoordinates(): PointerCoordinates | null {
+  const { projection, svgRef } = useMapContext();
+  const { x, y, k } = useActiveZoomTransform();
+  // Kept in viewBox units so zooming under a still pointer updates the result
+  const [point, setPoint] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return undefined;
+
+    const handleMove = (event: PointerEvent) => {
+      setPoint(clientToViewBoxPoint(svg, event.clientX, event.clientY));
+    };
+    const handleLeave = () => setPoint(null);
+
+    svg.addEventListener('pointermove', handleMove);
+    svg.addEventListener('pointerdown', handleMove);
+    svg.addEventListener('pointerleave', handleLeave);
+    return () => {
+      svg.removeEventListener('pointermove', handleMove);
+      svg.removeEventListener('pointerdown', handleMove);
+      svg.removeEventListener('pointerleave', handleLeave);
+    };
+  }, [svgRef]);
+
+  return useMemo(() => {
+    if (!point) return null;
+
+    const coordinates = screenToMapCoordinates(point, projection, { x, y, k });
+    if (!coordinates) return null;
+
+    const projected: [number, number] = [
+      (point[0] - x) / k,
+      (point[1] - y) / k,
+    ];
+    return { coordinates, point, projected };
+  }, [point, projection, x, y, k]);
+}
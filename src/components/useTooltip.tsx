@@ -0,0 +1,99 @@
+import { useId, useMemo, useState } from 'react';
+import {
+  Coordinates,
+  TooltipAnchor,
+  TooltipState,
+  UseTooltipResult,
+} from '../types';
+
+// Center of an element in client pixels, for anchoring to a focused element
+function getElementCenter(element: Element) {
+  const rect = element.getBoundingClientRect();
+  return {
+    clientX: rect.left + rect.width / 2,
+    clientY: rect.top + rect.height / 2,
+  };
+}
+
+// Tooltip state kept outside React so pointer moves re-render only the
+// MapTooltip, not the map that spreads getTargetProps on its geographies
+export default function useTooltip<T>(): UseTooltipResult<T> {
+  const id = useId();
+  const [store] = useState(() => {
+    let state: TooltipState<T> | null = null;
+    const listeners = new Set<() => void>();
+
+    return {
+      getState: () => state,
+      setState: (next: TooltipState<T> | null) => {
+        if (next === state) return;
+        state = next;
+        listeners.forEach((listener) => listener());
+      },
+      subscribe: (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    };
+  });
+
+  return useMemo((): UseTooltipResult<T> => {
+    const show = (data: T, anchor: TooltipAnchor) =>
+      store.setState({ data, anchor });
+    const showFor = (data: T, anchor: TooltipAnchor, target: Element) =>
+      store.setState({ data, anchor, target });
+    const hide = () => store.setState(null);
+    const isShowing = (data: T) => store.getState()?.data === data;
+
+    return {
+      id,
+      show,
+      hide,
+      getState: store.getState,
+      subscribe: store.subscribe,
+      getTargetProps: (data: T, coordinates?: Coordinates | null) => {
+        const anchorAt = (pointer: {
+          clientX: number;
+          clientY: number;
+        }): TooltipAnchor =>
+          coordinates
+            ? { coordinates }
+            : { clientX: pointer.clientX, clientY: pointer.clientY };
+
+        return {
+          // Touch pointers enter and leave around every tap; taps toggle instead
+          onPointerEnter: (event) => {
+            if (event.pointerType !== 'touch') {
+              showFor(data, anchorAt(event), event.currentTarget);
+            }
+          },
+          onPointerMove: (event) => {
+            if (event.pointerType !== 'touch' && !coordinates) {
+              showFor(data, anchorAt(event), event.currentTarget);
+            }
+          },
+          onPointerLeave: (event) => {
+            if (event.pointerType !== 'touch' && isShowing(data)) hide();
+          },
+          onPointerDown: (event) => {
+            if (event.pointerType !== 'touch') return;
+            if (isShowing(data)) hide();
+            else showFor(data, anchorAt(event), event.currentTarget);
+          },
+          onFocus: (event) => {
+            showFor(
+              data,
+              anchorAt(getElementCenter(event.currentTarget)),
+              event.currentTarget,
+            );
+          },
+          onBlur: () => {
+            if (isShowing(data)) hide();
+          },
+        };
+      },
+    };
+  }, [id, store]);
+}
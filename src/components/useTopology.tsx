@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { Topology } from 'topojson-specification';
+import { useMapContext } from './MapProvider';
+import {
+  UseTopologyProps,
+  TopologyData,
+  TopologyLayer,
+  GeographyError,
+} from '../types';
+import { isTopology } from '../utils';
+import { createGeographyFetchError } from '../utils/error-utils';
+import { prepareTopologyLayer } from '../utils/topology-layers';
+import { useGeographySource } from '../hooks/useGeographySource';
+import { useObjectNames } from '../hooks/useObjectNames';
+
+const EMPTY_LAYERS: Record<string, TopologyLayer> = Object.freeze({});
+const EMPTY_OBJECT_NAMES: string[] = [];
+
+export default function useTopology({
+  geography,
+  objects: objectsProp,
+}: UseTopologyProps): TopologyData {
+  const { path } = useMapContext();
+  const objects = useObjectNames(objectsProp);
+  const { data, isLoading, error, refetch } = useGeographySource(geography);
+
+  const topologyResult = useMemo((): {
+    topology: Topology | null;
+    error: GeographyError | null;
+  } => {
+    if (isLoading || !data) return { topology: null, error: null };
+    if (isTopology(data)) return { topology: data, error: null };
+
+    return {
+      topology: null,
+      error: createGeographyFetchError(
+        'VALIDATION_ERROR',
+        'Topology layers require TopoJSON data',
+        typeof geography === 'string' ? geography : undefined,
+      ),
+    };
+  }, [data, isLoading, geography]);
+
+  const { topology } = topologyResult;
+
+  const objectNames = useMemo(
+    () => (topology ? Object.keys(topology.objects) : EMPTY_OBJECT_NAMES),
+    [topology],
+  );
+
+  const layerResult = useMemo((): {
+    layers: Record<string, TopologyLayer>;
+    error: GeographyError | Error | null;
+  } => {
+    if (!topology) return { layers: EMPTY_LAYERS, error: null };
+
+    try {
+      const names = objects ?? objectNames;
+      return {
+        layers: Object.fromEntries(
+          names.map((name) => [
+            name,
+            prepareTopologyLayer(topology, name, path),
+          ]),
+        ),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        layers: EMPTY_LAYERS,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+  }, [topology, objects, objectNames, path]);
+
+  const processingError = topologyResult.error ?? layerResult.error;
+
+  return useMemo(
+    () => ({
+      topology,
+      objectNames,
+      layers: layerResult.layers,
+      isLoading,
+      error: error ?? processingError,
+      refetch,
+    }),
+    [
+      topology,
+      objectNames,
+      layerResult.layers,
+      isLoading,
+      error,
+      processingError,
+      refetch,
+    ],
+  );
+}
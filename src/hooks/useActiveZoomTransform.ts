@@ -0,0 +1,23 @@
+import { useContext, useSyncExternalStore } from 'react';
+import { ZoomPanState } from '../types';
+import { useMapContext } from '../components/MapProvider';
+import { ZoomPanContext } from '../components/ZoomPanProvider';
+
+/**
+ * Zoom transform of the map: the enclosing ZoomableGroup's, or, outside it,
+ * the one the map's ZoomableGroup last published
+ * @returns Current transform (identity for unzoomed maps)
+ */
+export function useActiveZoomTransform(): ZoomPanState {
+  const { zoomTransform } = useMapContext();
+  const published = useSyncExternalStore(
+    zoomTransform.subscribe,
+    zoomTransform.get,
+    zoomTransform.get,
+  );
+  const zoomPan = useContext(ZoomPanContext);
+
+  return zoomPan ?? published;
+}
+
+export default useActiveZoomTransform;
@@ -0,0 +1,189 @@
+import { useMemo } from 'react';
+import { zoomTransform as d3ZoomTransform } from 'd3-zoom';
+import { GeoPath, GeoProjection } from 'd3-geo';
+import {
+  CameraAnimationOptions,
+  Coordinates,
+  MapController,
+  ProjectedExtent,
+  createCoordinates,
+} from '../types';
+import { createGeographyError, getCoords } from '../utils';
+import { sampleBoundsOutline } from '../utils/coordinate-utils';
+
+interface UseCameraControllerProps {
+  mapRef: React.RefObject<SVGGElement | null>;
+  animateTo: (
+    target: { x: number; y: number; k: number },
+    options?: CameraAnimationOptions,
+  ) => void;
+  width: number;
+  height: number;
+  projection: GeoProjection;
+  path: GeoPath;
+  center: Coordinates;
+  zoom: number;
+}
+
+/**
+ * Projects the sampled outline of geographic bounds
+ * @param bounds - [[west, south], [east, north]]
+ * @param projection - Map projection
+ * @returns Projected extent, or null when nothing projects
+ */
+function projectGeoBounds(
+  bounds: [Coordinates, Coordinates],
+  projection: GeoProjection,
+): ProjectedExtent | null {
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+
+  for (const sample of sampleBoundsOutline(bounds)) {
+    const point = projection(sample);
+    if (!point || !Number.isFinite(point[0] + point[1])) continue;
+    x0 = Math.min(x0, point[0]);
+    y0 = Math.min(y0, point[1]);
+    x1 = Math.max(x1, point[0]);
+    y1 = Math.max(y1, point[1]);
+  }
+
+  return x0 <= x1 && y0 <= y1
+    ? [
+        [x0, y0],
+        [x1, y1],
+      ]
+    : null;
+}
+
+function validateZoomFactor(factor: number): void {
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw createGeographyError(
+      'VALIDATION_ERROR',
+      `Zoom factor must be a positive number, got ${factor}`,
+    );
+  }
+}
+
+export function useCameraController({
+  mapRef,
+  animateTo,
+  width,
+  height,
+  projection,
+  path,
+  center,
+  zoom,
+}: UseCameraControllerProps): MapController {
+  const [centerLon, centerLat] = center;
+
+  return useMemo((): MapController => {
+    const getTransform = () =>
+      mapRef.current ? d3ZoomTransform(mapRef.current) : null;
+
+    const centerOn = (
+      [x, y]: [number, number],
+      k: number,
+      options?: CameraAnimationOptions,
+    ) => {
+      animateTo({ x: width / 2 - x * k, y: height / 2 - y * k, k }, options);
+    };
+
+    const flyTo: MapController['flyTo'] = (coordinates, nextZoom, options) => {
+      const point = projection(coordinates);
+      const current = getTransform();
+      if (!point || !current) return;
+      centerOn(point, nextZoom ?? current.k, options);
+    };
+
+    const fitExtent: MapController['fitExtent'] = (
+      [[x0, y0], [x1, y1]],
+      { padding = 0, maxZoom = Infinity, ...options } = {},
+    ) => {
+      if (!Number.isFinite(x0 + y0 + x1 + y1)) return;
+      const dx = Math.abs(x1 - x0);
+      const dy = Math.abs(y1 - y0);
+      const fitZoom = Math.min(
+        dx > 0 ? Math.max(width - 2 * padding, 1) / dx : Infinity,
+        dy > 0 ? Math.max(height - 2 * padding, 1) / dy : Infinity,
+        maxZoom,
+      );
+      // A single point has no size to fit; keep the current zoom
+      const k = Number.isFinite(fitZoom) ? fitZoom : (getTransform()?.k ?? 1);
+      centerOn([(x0 + x1) / 2, (y0 + y1) / 2], k, options);
+    };
+
+    const fitBounds: MapController['fitBounds'] = (bounds, options) => {
+      const extent = projectGeoBounds(bounds, projection);
+      if (extent) fitExtent(extent, options);
+    };
+
+    const fitFeature: MapController['fitFeature'] = (feature, options) => {
+      fitExtent(path.bounds(feature), options);
+    };
+
+    const scaleBy = (factor: number, options?: CameraAnimationOptions) => {
+      const current = getTransform();
+      if (!current) return;
+      centerOn(
+        [
+          (width / 2 - current.x) / current.k,
+          (height / 2 - current.y) / current.k,
+        ],
+        current.k * factor,
+        options,
+      );
+    };
+
+    return {
+      flyTo,
+      fitBounds,
+      fitFeature,
+      fitExtent,
+      zoomIn: (factor = 2, options) => {
+        validateZoomFactor(factor);
+        scaleBy(factor, options);
+      },
+      zoomOut: (factor = 2, options) => {
+        validateZoomFactor(factor);
+        scaleBy(1 / factor, options);
+      },
+      panBy: (dx, dy, options) => {
+        const current = getTransform();
+        if (!current || !Number.isFinite(dx + dy)) return;
+        animateTo(
+          { x: current.x - dx, y: current.y - dy, k: current.k },
+          options,
+        );
+      },
+      resetView: (options) => {
+        flyTo(createCoordinates(centerLon, centerLat), zoom, options);
+      },
+      getPosition: () => {
+        const current = getTransform();
+        const coordinates = current
+          ? projection.invert?.(getCoords(width, height, current))
+          : null;
+        return {
+          coordinates: coordinates
+            ? createCoordinates(coordinates[0], coordinates[1])
+            : createCoordinates(centerLon, centerLat),
+          zoom: current?.k ?? zoom,
+        };
+      },
+    };
+  }, [
+    mapRef,
+    animateTo,
+    width,
+    height,
+    projection,
+    path,
+    centerLon,
+    centerLat,
+    zoom,
+  ]);
+}
+
+export default useCameraController;
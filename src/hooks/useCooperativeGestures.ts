@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { pointer as d3Pointer, select as d3Select } from 'd3-selection';
+
+// Gesture a cooperative hint explains
+export type CooperativeHint = 'touch' | 'wheel';
+
+interface UseCooperativeGesturesProps {
+  mapRef: React.RefObject<SVGGElement | null>;
+  twoFingerPan: boolean;
+  modifierWheelZoom: boolean;
+  doubleTapZoom: boolean;
+  showHints: boolean;
+}
+
+interface Tap {
+  x: number;
+  y: number;
+  time: number;
+}
+
+// Same limits d3-zoom applies to its own double taps
+const DOUBLE_TAP_DELAY = 500;
+const TAP_DISTANCE = 10;
+const HINT_DURATION = 1500;
+
+/**
+ * Gestures a cooperative ZoomableGroup leaves to the page: one-finger touches
+ * when it only pans with two fingers, and wheel scrolls without Ctrl or ⌘
+ * when it only zooms with them. Each shows a hint on how to move the map
+ * instead. One-finger double taps still zoom through the zoom behavior's
+ * dblclick handler.
+ * @returns The hint to show, or null
+ */
+export function useCooperativeGestures({
+  mapRef,
+  twoFingerPan,
+  modifierWheelZoom,
+  doubleTapZoom,
+  showHints,
+}: UseCooperativeGesturesProps): CooperativeHint | null {
+  const [hint, setHint] = useState<CooperativeHint | null>(null);
+
+  useEffect(() => {
+    const element = mapRef.current;
+    if (!element || !(twoFingerPan || modifierWheelZoom)) return undefined;
+
+    let hintTimer: ReturnType<typeof setTimeout> | undefined;
+    // The one-finger touch in progress, while it can still be a tap
+    let touch: Tap | null = null;
+    let lastTap: Tap | null = null;
+
+    const showHint = (next: CooperativeHint) => {
+      if (!showHints) return;
+      setHint(next);
+      clearTimeout(hintTimer);
+      hintTimer = setTimeout(() => setHint(null), HINT_DURATION);
+    };
+
+    const hideHint = () => {
+      clearTimeout(hintTimer);
+      setHint(null);
+    };
+
+    const handleTouchStart = (event: TouchEvent) => {
+      const first = event.touches[0];
+      if (event.touches.length !== 1 || !first) {
+        touch = null;
+        hideHint();
+        return;
+      }
+      const [x, y] = d3Pointer(first, element);
+      touch = { x, y, time: event.timeStamp };
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      const first = event.touches[0];
+      if (event.touches.length !== 1 || !first) return;
+      const [x, y] = d3Pointer(first, element);
+      if (touch && Math.hypot(x - touch.x, y - touch.y) < TAP_DISTANCE) return;
+      touch = null;
+      showHint('touch');
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      const tap = touch;
+      touch = null;
+      if (!tap || event.touches.length > 0) return;
+      const previous = lastTap;
+      lastTap = tap;
+      if (
+        !doubleTapZoom ||
+        !previous ||
+        tap.time - previous.time > DOUBLE_TAP_DELAY ||
+        Math.hypot(tap.x - previous.x, tap.y - previous.y) > TAP_DISTANCE
+      ) {
+        return;
+      }
+      lastTap = null;
+      d3Select(element).on('dblclick.zoom')?.call(element, event, undefined);
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        hideHint();
+      } else {
+        showHint('wheel');
+      }
+    };
+
+    // Capture listeners run before d3-zoom's, which stop the gestures it
+    // handles from propagating
+    const passive = { capture: true, passive: true };
+    const active = { capture: true };
+    if (twoFingerPan) {
+      element.style.touchAction = 'pan-x pan-y';
+      element.addEventListener('touchstart', handleTouchStart, passive);
+      element.addEventListener('touchmove', handleTouchMove, passive);
+      element.addEventListener('touchend', handleTouchEnd, active);
+    }
+    if (modifierWheelZoom) {
+      element.addEventListener('wheel', handleWheel, passive);
+    }
+
+    return () => {
+      element.style.touchAction = '';
+      element.removeEventListener('touchstart', handleTouchStart, passive);
+      element.removeEventListener('touchmove', handleTouchMove, passive);
+      element.removeEventListener('touchend', handleTouchEnd, active);
+      element.removeEventListener('wheel', handleWheel, passive);
+      hideHint();
+    };
+  }, [mapRef, twoFingerPan, modifierWheelZoom, doubleTapZoom, showHints]);
+
+  return hint;
+}
+
+export default useCooperativeGestures;
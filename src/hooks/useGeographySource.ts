@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FeatureCollection } from 'geojson';
+import { Topology } from 'topojson-specification';
+import { GeographyError } from '../types';
+import { fetchGeographiesCache, isString } from '../utils';
+import { preloadGeography } from '../utils/preloading';
+import { devTools } from '../utils/debugging';
+
+interface UseGeographySourceReturn {
+  data: Topology | FeatureCollection | null;
+  isLoading: boolean;
+  error: GeographyError | Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Resolves a `geography` prop to loaded data. URLs go through the secure
+ * `fetchGeographiesCache` pipeline; objects are passed through as-is.
+ */
+export function useGeographySource(
+  geography: string | Topology | FeatureCollection,
+): UseGeographySourceReturn {
+  const [data, setData] = useState<Topology | FeatureCollection | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<GeographyError | Error | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  const refetch = useCallback(() => {
+    setRetryCount((c) => c + 1);
+  }, []);
+
+  useEffect(() => {
+    let ignore = false;
+
+    if (isString(geography)) {
+      setIsLoading(true);
+      setError(null);
+
+      devTools.debugGeographyLoading(geography, 'start');
+
+      preloadGeography(geography);
+
+      fetchGeographiesCache(geography)
+        .then((loaded) => {
+          if (!ignore) {
+            devTools.debugGeographyLoading(geography, 'success', loaded);
+            setData(loaded);
+            setIsLoading(false);
+          }
+        })
+        .catch((err) => {
+          if (!ignore) {
+            devTools.debugGeographyLoading(geography, 'error', err);
+            setError(err instanceof Error ? err : new Error(String(err)));
+            setIsLoading(false);
+          }
+        });
+    } else {
+      setData(geography);
+      setIsLoading(false);
+      setError(null);
+    }
+
+    return () => {
+      ignore = true;
+    };
+  }, [geography, retryCount]);
+
+  return { data, isLoading, error, refetch };
+}
+
+export default useGeographySource;
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useMapContext } from '../components/MapProvider';
+
+/**
+ * Returns the map's HTML layer, warning in development when the map has none
+ * @param componentName - Component named in the warning
+ * @returns The layer, or null before it mounts or without `htmlLayer`
+ */
+export function useHtmlLayer(componentName: string): HTMLDivElement | null {
+  const { htmlLayer, htmlLayerEnabled } = useMapContext();
+
+  useEffect(() => {
+    if (
+      !htmlLayerEnabled &&
+      typeof process !== 'undefined' &&
+      process.env.NODE_ENV !== 'production'
+    ) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `${componentName} renders nothing without <ComposableMap htmlLayer>`,
+      );
+    }
+  }, [htmlLayerEnabled, componentName]);
+
+  return htmlLayer;
+}
+
+export default useHtmlLayer;
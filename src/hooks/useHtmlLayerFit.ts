@@ -0,0 +1,50 @@
+import { useLayoutEffect, useState } from 'react';
+import { useMapContext } from '../components/MapProvider';
+import { getViewBoxLayerFit } from '../utils/coordinate-utils';
+
+export interface HtmlLayerFit {
+  scale: number;
+  left: number;
+  top: number;
+}
+
+/**
+ * Follows where the map's viewBox lands in its HTML layer, remeasuring when
+ * the SVG or the layer resizes
+ * @returns Scale and offset from viewBox units to layer pixels, or null
+ * before layout (or without a ComposableMap)
+ */
+export function useHtmlLayerFit(): HtmlLayerFit | null {
+  const { width, height, svgRef, htmlLayer } = useMapContext();
+  const [fit, setFit] = useState<HtmlLayerFit | null>(null);
+
+  // Also remeasures when the viewBox changes size
+  useLayoutEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !htmlLayer) return;
+
+    const measure = () => {
+      const next = getViewBoxLayerFit(svg, htmlLayer);
+      setFit((current) =>
+        current &&
+        next &&
+        current.scale === next.scale &&
+        current.left === next.left &&
+        current.top === next.top
+          ? current
+          : next,
+      );
+    };
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(svg);
+    observer.observe(htmlLayer);
+    return () => observer.disconnect();
+  }, [svgRef, htmlLayer, width, height]);
+
+  return fit;
+}
+
+export default useHtmlLayerFit;
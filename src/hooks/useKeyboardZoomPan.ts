@@ -0,0 +1,51 @@
+import { KeyboardEvent, useCallback } from 'react';
+import { MapController } from '../types';
+import { getArrowKeyDirection } from '../utils/keyboard-navigation';
+
+// Arrow keys pan by this fraction of the map size
+const KEYBOARD_PAN_STEP = 0.1;
+const KEYBOARD_ANIMATION = { duration: 200 };
+
+/**
+ * Zooms with +/- and pans with the arrow keys. Keys a focused child already
+ * handled (default prevented) are ignored, so geography navigation wins.
+ * @param controller - Camera of the ZoomableGroup
+ * @param width - Map width in viewBox units
+ * @param height - Map height in viewBox units
+ * @param enabled - False to ignore all keys
+ * @returns keydown handler for the zoomable element
+ */
+export function useKeyboardZoomPan(
+  controller: MapController,
+  width: number,
+  height: number,
+  enabled: boolean,
+): (event: KeyboardEvent<SVGGElement>) => void {
+  return useCallback(
+    (event: KeyboardEvent<SVGGElement>) => {
+      if (!enabled || event.defaultPrevented) return;
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+      const direction = getArrowKeyDirection(event.key);
+      if (direction) {
+        const dx = width * KEYBOARD_PAN_STEP;
+        const dy = height * KEYBOARD_PAN_STEP;
+        controller.panBy(
+          direction === 'left' ? -dx : direction === 'right' ? dx : 0,
+          direction === 'up' ? -dy : direction === 'down' ? dy : 0,
+          KEYBOARD_ANIMATION,
+        );
+      } else if (event.key === '+' || event.key === '=') {
+        controller.zoomIn(undefined, KEYBOARD_ANIMATION);
+      } else if (event.key === '-' || event.key === '_') {
+        controller.zoomOut(undefined, KEYBOARD_ANIMATION);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    },
+    [controller, width, height, enabled],
+  );
+}
+
+export default useKeyboardZoomPan;
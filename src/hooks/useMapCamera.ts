@@ -0,0 +1,39 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { MapCamera, Position, createCoordinates } from '../types';
+import { useMapContext } from '../components/MapProvider';
+import { useActiveZoomTransform } from './useActiveZoomTransform';
+
+/**
+ * Camera of the map's ZoomableGroup and the view it shows
+ * @returns The camera (null while no ZoomableGroup is mounted) and the
+ * geographic center and zoom of the view
+ */
+export function useMapCamera(): {
+  camera: MapCamera | null;
+  position: Position;
+} {
+  const { width, height, projection, camera: cameraStore } = useMapContext();
+  const camera = useSyncExternalStore(
+    cameraStore.subscribe,
+    cameraStore.get,
+    cameraStore.get,
+  );
+  const { x, y, k } = useActiveZoomTransform();
+
+  const position = useMemo((): Position => {
+    const center = projection.invert?.([
+      (width / 2 - x) / k,
+      (height / 2 - y) / k,
+    ]);
+    return {
+      coordinates: center
+        ? createCoordinates(center[0], center[1])
+        : createCoordinates(0, 0),
+      zoom: k,
+    };
+  }, [width, height, projection, x, y, k]);
+
+  return { camera, position };
+}
+
+export default useMapCamera;
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { TopologyObjectName } from '../types';
+import { normalizeObjectNames } from '../utils/geography-processing';
+
+/**
+ * Returns a referentially stable TopoJSON object selection. Inline arrays
+ * (objectName={['states', 'nation']}) change identity on every render, so the
+ * selection is keyed by its contents instead.
+ */
+export function useObjectNames(
+  objectName?: TopologyObjectName,
+): string[] | undefined {
+  const objectNames = normalizeObjectNames(objectName);
+  const objectNamesToken = objectNames ? JSON.stringify(objectNames) : null;
+
+  return useMemo(
+    () =>
+      objectNamesToken ? (JSON.parse(objectNamesToken) as string[]) : undefined,
+    [objectNamesToken],
+  );
+}
+
+export default useObjectNames;
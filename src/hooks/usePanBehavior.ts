@@ -1,8 +1,12 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { zoomIdentity as d3ZoomIdentity, ZoomBehavior } from 'd3-zoom';
+import {
+  zoomIdentity as d3ZoomIdentity,
+  zoomTransform as d3ZoomTransform,
+  ZoomBehavior,
+} from 'd3-zoom';
 import { select as d3Select } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
-import { ZoomPanState, Coordinates } from '../types';
+import { ZoomPanState, Coordinates, ResizeTransform } from '../types';
 
 interface UsePanBehaviorProps {
   mapRef: React.RefObject<SVGGElement | null>;
@@ -12,6 +16,7 @@ interface UsePanBehaviorProps {
   projection: GeoProjection;
   center: Coordinates;
   zoom: number;
+  resizeTransform: ResizeTransform;
   bypassEvents: React.MutableRefObject<boolean>;
   onPositionChange?: (position: ZoomPanState) => void;
   startTransition: (callback: () => void) => void;
@@ -30,11 +35,13 @@ export function usePanBehavior({
   projection,
   center,
   zoom,
+  resizeTransform,
   bypassEvents,
   onPositionChange,
   startTransition,
 }: UsePanBehaviorProps): UsePanBehaviorReturn {
   const lastPosition = useRef<ZoomPanState>({ x: 0, y: 0, k: 1 });
+  const lastSize = useRef({ width, height, resizeTransform });
 
   const programmaticMove = useCallback(
     (newCenter: Coordinates, newZoom: number) => {
@@ -98,6 +105,40 @@ export function usePanBehavior({
     programmaticMove,
   ]);
 
+  // Keep the view on the same part of the map when a responsive map resizes
+  useEffect(() => {
+    const previous = lastSize.current;
+    lastSize.current = { width, height, resizeTransform };
+    if (previous.resizeTransform === resizeTransform) return;
+    if (!mapRef.current || !zoomRef.current) return;
+
+    const current = d3ZoomTransform(mapRef.current);
+    const { k } = current;
+    const from = previous.resizeTransform;
+    // View center in nominal map units, then in the resized map
+    const nominalX = ((previous.width / 2 - current.x) / k - from.x) / from.k;
+    const nominalY = ((previous.height / 2 - current.y) / k - from.y) / from.k;
+    const x =
+      width / 2 - (nominalX * resizeTransform.k + resizeTransform.x) * k;
+    const y =
+      height / 2 - (nominalY * resizeTransform.k + resizeTransform.y) * k;
+
+    bypassEvents.current = true;
+    d3Select(mapRef.current).call(
+      zoomRef.current.transform,
+      d3ZoomIdentity.translate(x, y).scale(k),
+    );
+    onPositionChange?.({ x, y, k });
+  }, [
+    width,
+    height,
+    resizeTransform,
+    mapRef,
+    zoomRef,
+    bypassEvents,
+    onPositionChange,
+  ]);
+
   return {
     lastPosition,
     programmaticMove,
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+
+interface ParentSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Follows the content size of an element's parent with a ResizeObserver
+ * @param elementRef - Element whose parent is measured
+ * @param enabled - Measure only while true
+ * @param aspectRatio - Height / width used when the parent has no height of its own
+ * @returns Measured size in whole pixels, or null until measured (or when
+ * ResizeObserver is unavailable)
+ */
+export function useParentSize(
+  elementRef: React.RefObject<Element | null>,
+  enabled: boolean,
+  aspectRatio: number,
+): ParentSize | null {
+  const [size, setSize] = useState<ParentSize | null>(null);
+
+  useEffect(() => {
+    const parent = elementRef.current?.parentElement;
+    if (!enabled || !parent || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver((entries) => {
+      const rect = entries[entries.length - 1]?.contentRect;
+      if (!rect) return;
+
+      const width = Math.round(rect.width);
+      // Hidden parents report zero; keep the last size until shown again
+      if (width <= 0) return;
+      const height = Math.round(rect.height) || Math.round(width * aspectRatio);
+
+      setSize((current) =>
+        current?.width === width && current.height === height
+          ? current
+          : { width, height },
+      );
+    });
+
+    observer.observe(parent);
+    return () => observer.disconnect();
+  }, [elementRef, enabled, aspectRatio]);
+
+  return enabled ? size : null;
+}
+
+export default useParentSize;
@@ -1,8 +1,15 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { zoom as d3Zoom, ZoomBehavior, D3ZoomEvent } from 'd3-zoom';
+import {
+  zoom as d3Zoom,
+  zoomIdentity as d3ZoomIdentity,
+  zoomTransform as d3ZoomTransform,
+  ZoomBehavior,
+  D3ZoomEvent,
+} from 'd3-zoom';
 import { select as d3Select } from 'd3-selection';
+import { interpolateZoom } from 'd3-interpolate';
 import { GeoProjection } from 'd3-geo';
-import { ScaleExtent, TranslateExtent } from '../types';
+import { CameraAnimationOptions, ScaleExtent, TranslateExtent } from '../types';
 import { getCoords } from '../utils';
 import { Position, Coordinates, Longitude, Latitude } from '../types';
 
@@ -20,6 +27,10 @@ interface UseZoomBehaviorProps {
   scaleExtent: ScaleExtent;
   translateExtent: TranslateExtent;
   filterZoomEvent?: (event: Event) => boolean;
+  pinchZoom?: boolean;
+  doubleTapZoom?: boolean;
+  twoFingerPan?: boolean;
+  wheelZoom?: boolean | 'modifier';
   onZoom?: (
     transform: { x: number; y: number; k: number },
     sourceEvent?: Event,
@@ -33,6 +44,50 @@ interface UseZoomBehaviorProps {
 interface UseZoomBehaviorReturn {
   zoomRef: React.RefObject<ZoomBehavior<SVGGElement, unknown> | undefined>;
   handleZoom: (d3Event: D3ZoomEvent<SVGGElement, unknown>) => void;
+  animateTo: (
+    target: { x: number; y: number; k: number },
+    options?: CameraAnimationOptions,
+  ) => void;
+}
+
+// An animation applies one zoom transform per frame; only its first frame
+// reports a move start and only its last reports a move end
+interface CameraAnimation {
+  frame: number | null;
+  emitStart: boolean;
+  emitEnd: boolean;
+}
+
+const DEFAULT_ANIMATION_DURATION = 750;
+
+// Rules out touches the gesture settings do not allow: a second finger
+// without pinch zoom, or a single finger when only two-finger pans are allowed
+function isTouchStartAllowed(
+  event: Event,
+  pinchZoom: boolean,
+  twoFingerPan: boolean,
+): boolean {
+  if (event.type !== 'touchstart') return true;
+  const count = (event as TouchEvent).touches.length;
+  return (pinchZoom || count < 2) && (!twoFingerPan || count >= 2);
+}
+
+// Rules out wheel zooms the gesture settings do not allow, leaving the wheel
+// event to scroll the page
+function isWheelAllowed(
+  event: Event,
+  wheelZoom: boolean | 'modifier',
+): boolean {
+  if (event.type !== 'wheel') return true;
+  if (wheelZoom === 'modifier') {
+    const { ctrlKey, metaKey } = event as WheelEvent;
+    return ctrlKey || metaKey;
+  }
+  return wheelZoom;
+}
+
+function easeCubicInOut(t: number): number {
+  return ((t *= 2) <= 1 ? t * t * t : (t -= 2) * t * t + 2) / 2;
 }
 
 export function useZoomBehavior({
@@ -43,6 +98,10 @@ export function useZoomBehavior({
   scaleExtent,
   translateExtent,
   filterZoomEvent,
+  pinchZoom = true,
+  doubleTapZoom = true,
+  twoFingerPan = false,
+  wheelZoom = true,
   onZoom,
   onZoomStart,
   onZoomEnd,
@@ -52,6 +111,11 @@ export function useZoomBehavior({
   const zoomRef = useRef<ZoomBehavior<SVGGElement, unknown> | undefined>(
     undefined,
   );
+  const animationRef = useRef<CameraAnimation | null>(null);
+  const pendingAnimationRef = useRef<{
+    target: { x: number; y: number; k: number };
+    options: CameraAnimationOptions;
+  } | null>(null);
   const [minZoom, maxZoom] = scaleExtent;
   const [a, b] = translateExtent;
   const [a1, a2] = a;
@@ -92,12 +156,118 @@ export function useZoomBehavior({
     [onZoom, onMove, width, height, projection, bypassEvents],
   );
 
+  // Moves to a transform through the zoom behavior, clamped to its scale and
+  // translate extents. A new call takes over from a running animation
+  // without reporting a second move start.
+  const animateTo = useCallback(
+    (
+      target: { x: number; y: number; k: number },
+      options: CameraAnimationOptions = {},
+    ) => {
+      const { duration = DEFAULT_ANIMATION_DURATION, easing = easeCubicInOut } =
+        options;
+      const zoomBehavior = zoomRef.current;
+      const element = mapRef.current;
+      if (!zoomBehavior || !element) {
+        // Called before the behavior is attached, e.g. from a child's mount effect
+        pendingAnimationRef.current = { target, options };
+        return;
+      }
+
+      // Clamp the zoom while keeping the target's view center
+      const [minK, maxK] = zoomBehavior.scaleExtent();
+      const k = Math.max(minK, Math.min(maxK, target.k));
+      const cx = (width / 2 - target.x) / target.k;
+      const cy = (height / 2 - target.y) / target.k;
+      const end = zoomBehavior.constrain()(
+        d3ZoomIdentity
+          .translate(width / 2 - cx * k, height / 2 - cy * k)
+          .scale(k),
+        [
+          [0, 0],
+          [width, height],
+        ],
+        zoomBehavior.translateExtent(),
+      );
+
+      const running = animationRef.current;
+      if (running?.frame != null) cancelAnimationFrame(running.frame);
+      const animation: CameraAnimation = {
+        frame: null,
+        emitStart: !running,
+        emitEnd: false,
+      };
+      animationRef.current = animation;
+
+      const svg = d3Select(element);
+      const apply = (
+        transform: typeof end,
+        isFirst: boolean,
+        isLast: boolean,
+      ) => {
+        animation.emitStart = isFirst && animation.emitStart;
+        animation.emitEnd = isLast;
+        svg.call(zoomBehavior.transform, transform);
+        if (isLast && animationRef.current === animation) {
+          animationRef.current = null;
+        }
+      };
+
+      if (duration <= 0 || typeof requestAnimationFrame === 'undefined') {
+        apply(end, true, true);
+        return;
+      }
+
+      // Interpolate the view (center and width in map units) for a smooth
+      // zoom-out-and-in path, as d3 transitions do
+      const start = d3ZoomTransform(element);
+      const view = (t: typeof start): [number, number, number] => [
+        (width / 2 - t.x) / t.k,
+        (height / 2 - t.y) / t.k,
+        width / t.k,
+      ];
+      const interpolate = interpolateZoom(view(start), view(end));
+      const startTime = performance.now();
+      let isFirst = true;
+
+      const step = () => {
+        const elapsed = performance.now() - startTime;
+        const progress = Math.max(0, Math.min(1, elapsed / duration));
+        const isLast = progress >= 1;
+        const [cx, cy, w] = interpolate(easing(progress));
+        const frameK = width / w;
+        const transform = isLast
+          ? end
+          : d3ZoomIdentity
+              .translate(width / 2 - cx * frameK, height / 2 - cy * frameK)
+              .scale(frameK);
+
+        animation.frame = isLast ? null : requestAnimationFrame(step);
+        apply(transform, isFirst, isLast);
+        isFirst = false;
+      };
+
+      animation.frame = requestAnimationFrame(step);
+    },
+    [mapRef, width, height],
+  );
+
   useEffect(() => {
     if (!mapRef.current) return;
 
     const svg = d3Select(mapRef.current);
 
     function handleZoomStart(d3Event: D3ZoomEvent<SVGGElement, unknown>) {
+      const animation = animationRef.current;
+      if (animation) {
+        // User input takes over a running animation; the move already started
+        if (d3Event.sourceEvent) {
+          if (animation.frame != null) cancelAnimationFrame(animation.frame);
+          animationRef.current = null;
+          return;
+        }
+        if (!animation.emitStart) return;
+      }
       if (!onZoomStart || bypassEvents.current) return;
       const coords = getCoords(width, height, d3Event.transform);
       const inverted = projection.invert?.(coords);
@@ -117,6 +287,7 @@ export function useZoomBehavior({
         bypassEvents.current = false;
         return;
       }
+      if (animationRef.current && !animationRef.current.emitEnd) return;
       const coords = getCoords(width, height, d3Event.transform);
       const inverted = projection.invert?.(coords);
       if (inverted) {
@@ -130,6 +301,16 @@ export function useZoomBehavior({
     }
 
     function filterFunc(d3Event: D3ZoomEvent<SVGGElement, unknown> | null) {
+      const event = d3Event && (d3Event.sourceEvent || d3Event);
+      if (
+        event &&
+        !(
+          isTouchStartAllowed(event, pinchZoom, twoFingerPan) &&
+          isWheelAllowed(event, wheelZoom)
+        )
+      ) {
+        return false;
+      }
       if (filterZoomEvent && d3Event) {
         return filterZoomEvent(d3Event.sourceEvent || d3Event);
       }
@@ -151,6 +332,14 @@ export function useZoomBehavior({
 
     zoomRef.current = zoomBehavior;
     svg.call(zoomBehavior);
+    // d3-zoom reroutes double taps to its dblclick handler, so this covers both
+    if (!doubleTapZoom) svg.on('dblclick.zoom', null);
+
+    const pending = pendingAnimationRef.current;
+    if (pending) {
+      pendingAnimationRef.current = null;
+      animateTo(pending.target, pending.options);
+    }
 
     return () => {
       // Mirror setup: remove all d3-zoom listeners bound under the .zoom
@@ -171,14 +360,30 @@ export function useZoomBehavior({
     onMove,
     onZoomEnd,
     filterZoomEvent,
+    pinchZoom,
+    doubleTapZoom,
+    twoFingerPan,
+    wheelZoom,
     handleZoom,
     mapRef,
     bypassEvents,
+    animateTo,
   ]);
 
+  // Stop a running animation when the behavior is torn down
+  useEffect(
+    () => () => {
+      const frame = animationRef.current?.frame;
+      if (frame != null) cancelAnimationFrame(frame);
+      animationRef.current = null;
+    },
+    [],
+  );
+
   return {
     zoomRef,
     handleZoom,
+    animateTo,
   };
 }
 
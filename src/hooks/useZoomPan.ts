@@ -3,8 +3,11 @@ import { useMapContext } from '../components/MapProvider';
 import {
   Position,
   Coordinates,
+  MapController,
+  PanBounds,
   ScaleExtent,
   TranslateExtent,
+  ZoomGestureOptions,
   createCoordinates,
   createTranslateExtent,
   createScaleExtent,
@@ -12,10 +15,14 @@ import {
 import { useZoomBehavior } from './useZoomBehavior';
 import { usePanBehavior } from './usePanBehavior';
 import { useDeferredPosition } from './useDeferredPosition';
+import { useCameraController } from './useCameraController';
+import { projectPanBounds } from '../utils/coordinate-utils';
 
 interface UseZoomPanHookProps {
   center: Coordinates;
   filterZoomEvent?: (event: Event) => boolean;
+  gestures?: ZoomGestureOptions;
+  panBounds?: PanBounds;
   onMoveStart?: (position: Position, event: Event) => void;
   onMoveEnd?: (position: Position, event: Event) => void;
   onMove?: (position: Position, event: Event) => void;
@@ -29,11 +36,14 @@ interface UseZoomPanReturn {
   position: { x: number; y: number; k: number; dragging?: Event | undefined };
   transformString: string;
   isPending: boolean;
+  controller: MapController;
 }
 
 export function useZoomPan({
   center,
   filterZoomEvent,
+  gestures = {},
+  panBounds,
   onMoveStart,
   onMoveEnd,
   onMove,
@@ -44,7 +54,23 @@ export function useZoomPan({
   scaleExtent = createScaleExtent(1, 8),
   zoom = 1,
 }: UseZoomPanHookProps): UseZoomPanReturn {
-  const { width, height, projection } = useMapContext();
+  const { width, height, projection, path, resizeTransform } = useMapContext();
+
+  // Translate extents are written for the nominal map size, while geographic
+  // pan bounds are projected at the current one
+  const [[x0, y0], [x1, y1]] = translateExtent;
+  const resizedTranslateExtent =
+    (panBounds && projectPanBounds(panBounds, path)) ??
+    createTranslateExtent(
+      createCoordinates(
+        x0 * resizeTransform.k + resizeTransform.x,
+        y0 * resizeTransform.k + resizeTransform.y,
+      ),
+      createCoordinates(
+        x1 * resizeTransform.k + resizeTransform.x,
+        y1 * resizeTransform.k + resizeTransform.y,
+      ),
+    );
 
   // Defer expensive calculations for smooth rendering with initialValue for better UX
   const deferredCenter = useDeferredValue(center, createCoordinates(0, 0));
@@ -69,7 +95,7 @@ export function useZoomPan({
     height,
     projection,
     scaleExtent,
-    translateExtent,
+    translateExtent: resizedTranslateExtent,
     onZoomStart: onMoveStart,
     onZoomEnd: onMoveEnd,
     onMove,
@@ -94,9 +120,17 @@ export function useZoomPan({
       });
     },
     ...(filterZoomEvent && { filterZoomEvent }),
+    ...(gestures.pinchZoom !== undefined && { pinchZoom: gestures.pinchZoom }),
+    ...(gestures.doubleTapZoom !== undefined && {
+      doubleTapZoom: gestures.doubleTapZoom,
+    }),
+    ...(gestures.twoFingerPan !== undefined && {
+      twoFingerPan: gestures.twoFingerPan,
+    }),
+    ...(gestures.wheelZoom !== undefined && { wheelZoom: gestures.wheelZoom }),
   };
 
-  const { zoomRef } = useZoomBehavior(zoomBehaviorProps);
+  const { zoomRef, animateTo } = useZoomBehavior(zoomBehaviorProps);
 
   usePanBehavior({
     mapRef,
@@ -106,6 +140,7 @@ export function useZoomPan({
     projection,
     center: deferredCenter,
     zoom: deferredZoom,
+    resizeTransform,
     bypassEvents,
     onPositionChange: (newPosition) => {
       setPosition(newPosition);
@@ -113,11 +148,23 @@ export function useZoomPan({
     startTransition,
   });
 
+  const controller = useCameraController({
+    mapRef,
+    animateTo,
+    width,
+    height,
+    projection,
+    path,
+    center,
+    zoom,
+  });
+
   return {
     mapRef,
     position: smoothPosition,
     transformString,
     isPending,
+    controller,
   };
 }
 
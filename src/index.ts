@@ -4,22 +4,53 @@ export { default as Geographies } from './components/Geographies';
 export { default as Geography } from './components/Geography';
 export { default as Graticule } from './components/Graticule';
 export { default as ZoomableGroup } from './components/ZoomableGroup';
+export { default as RotatableGlobe } from './components/RotatableGlobe';
 export { default as Sphere } from './components/Sphere';
 export { default as Marker } from './components/Marker';
+export { default as MarkerCluster } from './components/MarkerCluster';
 export { default as Line } from './components/Line';
 export { default as Annotation } from './components/Annotation';
+export { default as TopologyLayers } from './components/TopologyLayers';
+export { default as Choropleth } from './components/Choropleth';
+export { default as Legend } from './components/Legend';
+export { default as CoordinateReadout } from './components/CoordinateReadout';
+export { default as MapControls } from './components/MapControls';
+export { default as ZoomControls } from './components/ZoomControls';
+export { default as MapDataTable } from './components/MapDataTable';
+export { default as MapTooltip } from './components/MapTooltip';
+export { HtmlOverlay, HtmlOverlayItem } from './components/HtmlOverlay';
+export { default as SelectionLasso } from './components/SelectionLasso';
+export {
+  CategoricalLegend,
+  SteppedLegend,
+  GradientLegend,
+  ProportionalLegend,
+} from './components/legend';
 export {
   MapProvider,
   MapContext,
   useMapContext,
 } from './components/MapProvider';
+export {
+  SelectionProvider,
+  SelectionContext,
+  useSelection,
+} from './components/SelectionProvider';
 export {
   ZoomPanProvider,
   ZoomPanContext,
   useZoomPanContext,
 } from './components/ZoomPanProvider';
 export { default as useGeographies } from './components/useGeographies';
+export { default as useTopology } from './components/useTopology';
+export { default as useChoropleth } from './components/useChoropleth';
+export { default as useClusters } from './components/useClusters';
 export { default as useZoomPan } from './components/useZoomPan';
+export { default as useMapController } from './components/useMapController';
+export { default as useMapCoordinates } from './components/useMapCoordinates';
+export { default as usePointerCoordinates } from './components/usePointerCoordinates';
+export { default as useTooltip } from './components/useTooltip';
+export { default as usePointVisibility } from './components/usePointVisibility';
 
 // React 19 specific exports
 export { default as GeographyErrorBoundary } from './components/GeographyErrorBoundary';
@@ -47,24 +78,112 @@ export {
   isValidCoordinates,
 } from './utils/geography-utils';
 
+// Export color scale utilities (shared by choropleths and legends)
+export {
+  createColorScale,
+  getColorScaleBins,
+  isValueInBin,
+} from './utils/color-scales';
+export { getFeatureKey, getGeographyLabel } from './utils/feature-keys';
+export {
+  registerProjection,
+  getAvailableProjections,
+} from './utils/projection-registry';
+
 // Export types for TypeScript users
 export type {
   ComposableMapProps,
   GeographiesProps,
   GeographyProps,
   GeographyEventData,
+  GeographyEventTarget,
   GraticuleProps,
   ZoomableGroupProps,
   ZoomableGroupPropsUnion,
   SimpleZoomableGroupProps,
   SphereProps,
   MarkerProps,
+  MarkerClusterProps,
+  PointCluster,
+  UseClustersProps,
+  ProjectedExtent,
+  MapController,
+  CameraAnimationOptions,
+  CameraFitOptions,
   LineProps,
   AnnotationProps,
   MapContextType,
   ZoomPanContextType,
   UseGeographiesProps,
+  TopologyObjectName,
+  MeshFilter,
+  GeographyRenderer,
+  TopologyLayer,
+  TopologyLayersProps,
+  TopologyData,
+  UseTopologyProps,
+  ChoroplethProps,
+  ChoroplethData,
+  UseChoroplethProps,
+  ColorScale,
+  ColorScaleBin,
+  ColorScaleConfig,
+  ColorScaleType,
+  FeatureKeyAccessor,
+  LegendProps,
+  LegendEntry,
+  LegendPosition,
+  CategoricalLegendProps,
+  SteppedLegendProps,
+  GradientLegendProps,
+  ProportionalLegendProps,
   ProjectionConfig,
+  ProjectionFitTarget,
+  MapCoordinates,
+  PointerCoordinates,
+  PointVisibility,
+  PointVisibilityOptions,
+  CoordinateReadoutProps,
+  MapCamera,
+  MapCameraStore,
+  GlobeRotation,
+  GlobeView,
+  GlobeViewStore,
+  RotatableGlobeProps,
+  MapControlsProps,
+  MapControlsRenderProps,
+  ZoomControlsProps,
+  ZoomGestureOptions,
+  CooperativeGestureMessages,
+  PanBounds,
+  MapDataTableProps,
+  MapDataTableColumn,
+  MapDataTableRow,
+  MapDataBinding,
+  MapFeatureEntry,
+  MapFeatureIndex,
+  MapTooltipProps,
+  HtmlOverlayProps,
+  HtmlOverlayItemProps,
+  HtmlOverlayAnchor,
+  SelectionMode,
+  SelectionLassoShape,
+  SelectableItem,
+  SelectionModifiers,
+  SelectionContextType,
+  SelectionProviderProps,
+  SelectionLassoProps,
+  UseSelectionResult,
+  TooltipAnchor,
+  TooltipState,
+  TooltipTargetProps,
+  UseTooltipResult,
+  ProjectionName,
+  ProjectionRegistry,
+  ProjectionFactory,
+  ProjectionFactories,
+  ResizePolicy,
+  ResizeTransform,
   PreparedFeature,
   GeographyData,
   ZoomPanState,
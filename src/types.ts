@@ -1,7 +1,17 @@
-import { ReactNode, SVGProps, CSSProperties } from 'react';
+import {
+  ReactNode,
+  Ref,
+  RefObject,
+  SVGProps,
+  CSSProperties,
+  FocusEvent,
+  HTMLAttributes,
+  PointerEvent,
+  TableHTMLAttributes,
+} from 'react';
 import { GeoPath, GeoProjection } from 'd3-geo';
 import { Feature, FeatureCollection, Geometry } from 'geojson';
-import { Topology } from 'topojson-specification';
+import { GeometryObject, Topology } from 'topojson-specification';
 
 // Modern React patterns types
 export type ErrorBoundaryFallback = (
@@ -16,9 +26,13 @@ export type Coordinates = [Longitude, Latitude];
 
 // Additional branded types for specific coordinate patterns
 export type ScaleExtent = [number, number] & { __brand: 'scaleExtent' };
+// Top-left and bottom-right corners in map (projected) units
 export type TranslateExtent = [Coordinates, Coordinates] & {
   __brand: 'translateExtent';
 };
+// Pan limits as [[west, south], [east, north]] in degrees, or 'sphere' to keep
+// the whole projected globe in view
+export type PanBounds = [Coordinates, Coordinates] | 'sphere';
 export type RotationAngles = [number, number, number] & {
   __brand: 'rotationAngles';
 };
@@ -76,7 +90,10 @@ export type ConditionalProps<T, K extends keyof T> = T[K] extends undefined
   : Required<T>;
 
 // Style variant conditional types
-export type StyleVariant = 'default' | 'hover' | 'pressed' | 'focused';
+// 'selected' applies on top of the interaction variant while the feature is
+// part of a SelectionProvider's selection
+export type StyleVariant =
+  'default' | 'hover' | 'pressed' | 'focused' | 'selected';
 export type ConditionalStyle<T = CSSProperties> = {
   [K in StyleVariant]?: T;
 };
@@ -158,15 +175,73 @@ export type GeographyError = Error & {
   timestamp?: string;
 };
 
+// Names registered with registerProjection, declared through module
+// augmentation so they type-check as projection names:
+//
+//   declare module '@vnedyalk0v/react19-simple-maps' {
+//     interface ProjectionRegistry {
+//       albersWithInsets: true;
+//     }
+//   }
+export interface ProjectionRegistry {}
+
 // Template literal types for projections
-export type ProjectionName = `geo${Capitalize<string>}`;
+export type ProjectionName =
+  `geo${Capitalize<string>}` | Extract<keyof ProjectionRegistry, string>;
+
+// Builds a new projection instance each time it is called
+export type ProjectionFactory = () => GeoProjection;
+
+// Projections available by name to a single map
+export type ProjectionFactories = Readonly<Record<string, ProjectionFactory>>;
+
+// Arc filter for TopoJSON meshes; `a` and `b` are the geometries on either side
+// of an arc (`a === b` for exterior arcs)
+export type MeshFilter = (a: GeometryObject, b: GeometryObject) => boolean;
+
+// Name (or names) of the TopoJSON objects to read, e.g. 'countries' or ['states', 'nation']
+export type TopologyObjectName = string | readonly string[];
 
 // Base types
+// What a projection can be fitted to: a feature, a collection, or
+// [[west, south], [east, north]] bounds (west > east crosses the antimeridian)
+export type ProjectionFitTarget =
+  Feature<Geometry> | FeatureCollection<Geometry> | [Coordinates, Coordinates];
+
 export interface ProjectionConfig {
   center?: Coordinates;
   rotate?: RotationAngles;
   scale?: number;
+  // Standard parallels of conic projections
   parallels?: Parallels;
+  // Small-circle clipping radius in degrees (0 restores antimeridian cutting)
+  clipAngle?: number;
+  // Viewport clipping rectangle in map units
+  clipExtent?: ProjectedExtent;
+  // Adaptive resampling threshold in pixels (0 disables resampling)
+  precision?: number;
+  reflectX?: boolean;
+  reflectY?: boolean;
+  // Post-projection rotation in degrees
+  angle?: number;
+  // Scales and translates the projection so the target fills the map;
+  // overrides `scale` and is re-applied whenever width or height change
+  fitTo?: ProjectionFitTarget;
+  // Inset in pixels around the fitted target (default 0)
+  fitPadding?: number;
+}
+
+// How a responsive map follows its container: 'refit' scales the projection
+// (or fits `fitTo` again) to the measured size, 'keep' keeps the scale and
+// shows more or less of the map around the same center
+export type ResizePolicy = 'refit' | 'keep';
+
+// Maps a point drawn for the nominal width × height onto the current map as
+// point * k + [x, y]; the identity unless the map is responsive
+export interface ResizeTransform {
+  k: number;
+  x: number;
+  y: number;
 }
 
 export interface MapContextType {
@@ -174,6 +249,122 @@ export interface MapContextType {
   height: number;
   projection: GeoProjection;
   path: GeoPath;
+  resizeTransform: ResizeTransform;
+  // Root <svg> of the map, for converting between client and viewBox units
+  svgRef: RefObject<SVGSVGElement | null>;
+  // HTML layer a ComposableMap with `htmlLayer` lays over its <svg> for HTML
+  // content such as overlays and tooltips (null until mounted)
+  htmlLayer: HTMLDivElement | null;
+  // Whether the map renders an HTML layer at all
+  htmlLayerEnabled: boolean;
+  // Transform of the map's ZoomableGroup, readable outside the group
+  zoomTransform: ZoomTransformStore;
+  // Geographies the map currently renders, for non-visual equivalents
+  featureIndex: MapFeatureIndex;
+  // Controller and zoom limits of the map's ZoomableGroup, readable outside
+  // the group
+  camera: MapCameraStore;
+  // Rotation and zoom a RotatableGlobe applies to the projection
+  globeView: GlobeViewStore;
+}
+
+// [lambda, phi, gamma] in degrees, as for projection.rotate()
+export type GlobeRotation = [number, number, number];
+
+export interface GlobeView {
+  rotation: GlobeRotation;
+  // Multiplies the projection's own scale
+  zoom: number;
+}
+
+// Subscribable holder for the globe view (null while no RotatableGlobe is
+// mounted)
+export interface GlobeViewStore {
+  get: () => GlobeView | null;
+  set: (view: GlobeView | null) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface MapCamera {
+  controller: MapController;
+  scaleExtent: ScaleExtent;
+}
+
+// Subscribable holder for the camera (null while no ZoomableGroup is mounted)
+export interface MapCameraStore {
+  get: () => MapCamera | null;
+  set: (camera: MapCamera | null) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Subscribable holder for the current zoom transform (identity when unzoomed)
+export interface ZoomTransformStore {
+  get: () => ZoomPanState;
+  set: (transform: ZoomPanState) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// A Geography path rendered by Geographies
+export interface MapFeatureEntry {
+  id: string;
+  geography: Feature<Geometry>;
+  label: string | null;
+  centroid: Coordinates | null;
+  focus: () => void;
+}
+
+// Data joined to geographies, such as a useChoropleth result
+export interface MapDataBinding {
+  getDatum: (geography: Feature<Geometry>) => unknown;
+  getValue: (geography: Feature<Geometry>) => number | null;
+}
+
+// Rendered geographies in render order, the one focused on the map or
+// through its MapDataTable row, and the data bound to them
+export interface MapFeatureIndex {
+  set: (entry: MapFeatureEntry) => void;
+  remove: (id: string) => void;
+  getEntries: () => readonly MapFeatureEntry[];
+  getActiveId: () => string | null;
+  setActiveId: (id: string | null) => void;
+  // Returns a function that removes the binding
+  addBinding: (binding: MapDataBinding) => () => void;
+  getBindings: () => readonly MapDataBinding[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Whether the projection draws a point, from usePointVisibility
+export interface PointVisibility {
+  // False when the projection clips the point, e.g. on the far side of a globe
+  visible: boolean;
+  // 1, falling to 0 within horizonFade degrees of a globe's horizon
+  opacity: number;
+}
+
+export interface PointVisibilityOptions {
+  // Degrees inside a globe's horizon over which the opacity falls to 0
+  horizonFade?: number;
+  // Called with false when the point is clipped, including on mount, and with
+  // true when it comes back into view
+  onVisibilityChange?: (visible: boolean) => void;
+}
+
+// Pointer position over the map, from usePointerCoordinates
+export interface PointerCoordinates {
+  coordinates: Coordinates;
+  // Position in the map's viewBox, for drawing outside a ZoomableGroup
+  point: [number, number];
+  // Projected position before zoom and pan, for drawing inside a ZoomableGroup
+  projected: [number, number];
+}
+
+// Conversions between client pixels (as on pointer events) and geographic
+// coordinates, through the viewBox scaling, zoom transform and projection
+export interface MapCoordinates {
+  // Null outside the projected sphere or before the map is laid out
+  toGeo: (clientX: number, clientY: number) => Coordinates | null;
+  // Null for points the projection clips or before the map is laid out
+  toScreen: (coordinates: Coordinates) => [number, number] | null;
 }
 
 export interface ZoomPanContextType {
@@ -181,6 +372,52 @@ export interface ZoomPanContextType {
   y: number;
   k: number;
   transformString: string;
+  // Provided by ZoomableGroup
+  controller?: MapController;
+}
+
+// [[x0, y0], [x1, y1]] in projected (untransformed) map units
+export type ProjectedExtent = [[number, number], [number, number]];
+
+// Programmatic camera
+export interface CameraAnimationOptions {
+  // Milliseconds; 0 jumps straight to the target (default 750)
+  duration?: number;
+  // Maps linear progress in [0, 1] to eased progress (default cubic in-out)
+  easing?: (t: number) => number;
+}
+
+export interface CameraFitOptions extends CameraAnimationOptions {
+  // Space kept around the fitted area, in SVG units
+  padding?: number;
+  // Upper zoom limit for the fit, below the group's own max zoom
+  maxZoom?: number;
+}
+
+export interface MapController {
+  flyTo: (
+    coordinates: Coordinates,
+    zoom?: number,
+    options?: CameraAnimationOptions,
+  ) => void;
+  // [[west, south], [east, north]]; east < west crosses the antimeridian
+  fitBounds: (
+    bounds: [Coordinates, Coordinates],
+    options?: CameraFitOptions,
+  ) => void;
+  fitFeature: (
+    feature: Feature | FeatureCollection | Geometry,
+    options?: CameraFitOptions,
+  ) => void;
+  fitExtent: (extent: ProjectedExtent, options?: CameraFitOptions) => void;
+  // Multiplies (or divides) the zoom by `factor` around the view center
+  zoomIn: (factor?: number, options?: CameraAnimationOptions) => void;
+  zoomOut: (factor?: number, options?: CameraAnimationOptions) => void;
+  // Moves the view center by [dx, dy] viewBox units, keeping the zoom
+  panBy: (dx: number, dy: number, options?: CameraAnimationOptions) => void;
+  // Returns to the ZoomableGroup's center and zoom props
+  resetView: (options?: CameraAnimationOptions) => void;
+  getPosition: () => Position;
 }
 
 // Enhanced Component Props with conditional types
@@ -192,9 +429,20 @@ export interface ComposableMapProps<
   height?: number;
   projection?: ProjectionName | P | GeoProjection;
   projectionConfig?: ProjectionConfigConditional<P>;
+  // Projections this map resolves by name before the global registry
+  projectionRegistry?: ProjectionFactories;
   className?: string;
   children?: ReactNode;
 
+  // Size the map to its parent element; `width` and `height` become the
+  // nominal size that `projectionConfig` and translate extents are written for
+  responsive?: boolean;
+  resizePolicy?: ResizePolicy;
+
+  // Wraps the <svg> in a div with an HTML layer over it, for HtmlOverlay,
+  // MapTooltip and MapDataTable (default false)
+  htmlLayer?: boolean;
+
   // Modern React patterns
   onGeographyError?: (error: Error) => void;
   fallback?: ReactNode;
@@ -226,19 +474,89 @@ export type GeographiesProps<E extends boolean = false> = Omit<
 > &
   GeographyPropsWithErrorHandling<E> & {
     geography: string | Topology | FeatureCollection;
+    objectName?: TopologyObjectName;
+    // Named mesh filters; each result is passed to children as `meshes[name]`
+    meshes?: Record<string, MeshFilter>;
+    // Draw child Geography elements to a <canvas> instead of SVG paths
+    renderer?: GeographyRenderer;
     children: (props: {
       geographies: Feature<Geometry>[];
       outline: string;
       borders: string;
+      meshes: Record<string, string>;
       path: GeoPath;
       projection: GeoProjection;
     }) => ReactNode;
     parseGeographies?: (
       geographies: Feature<Geometry>[],
     ) => Feature<Geometry>[];
+    // aria-label of each child Geography; defaults to properties.name,
+    // properties.NAME, then the feature id
+    geographyLabel?: FeatureKeyAccessor;
     className?: string;
   };
 
+export type GeographyRenderer = 'svg' | 'canvas';
+
+// Multi-layer rendering from a single TopoJSON topology
+export interface TopologyLayer {
+  geographies: PreparedFeature[];
+  outline: string;
+  borders: string;
+}
+
+export type TopologyLayersProps = Omit<
+  SVGProps<SVGGElement>,
+  'children' | 'onError'
+> & {
+  geography: string | Topology;
+  // Objects to prepare as layers; defaults to every object in the topology
+  objects?: readonly string[];
+  children: (props: {
+    layers: Record<string, TopologyLayer>;
+    objectNames: string[];
+    path: GeoPath;
+    projection: GeoProjection;
+  }) => ReactNode;
+  onGeographyError?: (error: Error) => void;
+  fallback?: ErrorBoundaryFallback;
+  className?: string;
+};
+
+// Color scales shared by choropleths and legends
+export type ColorScaleType =
+  'quantize' | 'quantile' | 'threshold' | 'linear' | 'log';
+
+export interface ColorScaleConfig {
+  type: ColorScaleType;
+  range: readonly string[];
+  // Defaults to the extent of the data values
+  domain?: readonly [number, number];
+  // Required for 'threshold' scales: one fewer than the number of colors
+  thresholds?: readonly number[];
+}
+
+export interface ColorScale {
+  (value: number): string;
+  type: ColorScaleType;
+  domain: readonly [number, number];
+  range: readonly string[];
+  thresholds: readonly number[];
+}
+
+export interface ColorScaleBin {
+  index: number;
+  color: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Feature join key: 'id', a property path such as 'properties.iso_a3', or an accessor
+export type FeatureKeyAccessor =
+  | string
+  | ((geography: Feature<Geometry>) => string | number | null | undefined);
+
 // Enhanced Geography event handlers with geographic data
 export interface GeographyEventData {
   geography: Feature<Geometry>;
@@ -247,6 +565,9 @@ export interface GeographyEventData {
   coordinates: Coordinates | null;
 }
 
+// A Geography's SVG path, or the <canvas> of the canvas layer drawing it
+export type GeographyEventTarget = SVGPathElement | HTMLCanvasElement;
+
 export interface GeographyProps extends Omit<
   SVGProps<SVGPathElement>,
   | 'style'
@@ -255,43 +576,96 @@ export interface GeographyProps extends Omit<
   | 'onMouseLeave'
   | 'onMouseDown'
   | 'onMouseUp'
+  | 'onPointerEnter'
+  | 'onPointerLeave'
+  | 'onPointerDown'
+  | 'onPointerUp'
   | 'onFocus'
   | 'onBlur'
 > {
   geography: Feature<Geometry>;
-  // Enhanced event handlers with geographic data (backward compatible)
-  onClick?: (
-    event: React.MouseEvent<SVGPathElement>,
+  // Enhanced event handlers with geographic data (backward compatible).
+  // Enter and Space dispatch a click, as on a button. Inside a canvas layer the events come from the <canvas>, and arrow keys
+  // moving focus pass their keyboard event to onFocus and onBlur. Method
+  // syntax keeps handlers written for SVG path events assignable.
+  onClick?(
+    event: React.MouseEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onMouseEnter?: (
-    event: React.MouseEvent<SVGPathElement>,
+  ): void;
+  onMouseEnter?(
+    event: React.MouseEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onMouseLeave?: (
-    event: React.MouseEvent<SVGPathElement>,
+  ): void;
+  onMouseLeave?(
+    event: React.MouseEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onMouseDown?: (
-    event: React.MouseEvent<SVGPathElement>,
+  ): void;
+  onMouseDown?(
+    event: React.MouseEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onMouseUp?: (
-    event: React.MouseEvent<SVGPathElement>,
+  ): void;
+  onMouseUp?(
+    event: React.MouseEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onFocus?: (
-    event: React.FocusEvent<SVGPathElement>,
+  ): void;
+  // Pointer events cover mouse, pen and touch input alike
+  onPointerEnter?(
+    event: React.PointerEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
-  onBlur?: (
-    event: React.FocusEvent<SVGPathElement>,
+  ): void;
+  onPointerLeave?(
+    event: React.PointerEvent<GeographyEventTarget>,
     data?: GeographyEventData,
-  ) => void;
+  ): void;
+  onPointerDown?(
+    event: React.PointerEvent<GeographyEventTarget>,
+    data?: GeographyEventData,
+  ): void;
+  onPointerUp?(
+    event: React.PointerEvent<GeographyEventTarget>,
+    data?: GeographyEventData,
+  ): void;
+  onFocus?(
+    event:
+      | React.FocusEvent<GeographyEventTarget>
+      | React.KeyboardEvent<GeographyEventTarget>,
+    data?: GeographyEventData,
+  ): void;
+  onBlur?(
+    event:
+      | React.FocusEvent<GeographyEventTarget>
+      | React.KeyboardEvent<GeographyEventTarget>,
+    data?: GeographyEventData,
+  ): void;
   style?: ConditionalStyle<CSSProperties>;
   className?: string;
 }
 
+// Touch and pointer gestures of a ZoomableGroup
+export interface ZoomGestureOptions {
+  // Two fingers pinch to zoom (default true)
+  pinchZoom?: boolean;
+  // Double-click or double-tap zooms in, and out with Shift (default true)
+  doubleTapZoom?: boolean;
+  // Only two-finger touches pan and zoom, so one finger scrolls the page
+  // (default false)
+  twoFingerPan?: boolean;
+  // Wheel zooms always, only with Ctrl or ⌘ held so that plain scrolling
+  // moves the page ('modifier'), or never (default true)
+  wheelZoom?: boolean | 'modifier';
+  // Hints shown when a gesture is left to the page by twoFingerPan or
+  // wheelZoom 'modifier' (default true); an object replaces their messages
+  cooperativeOverlay?: boolean | CooperativeGestureMessages;
+}
+
+// Messages of the cooperative gesture hints, e.g. translations
+export interface CooperativeGestureMessages {
+  // Shown while one finger drags over a twoFingerPan map
+  touch?: string;
+  // Shown on wheel scrolls without the modifier key
+  wheel?: string;
+}
+
 export type ZoomableGroupProps<
   Z extends boolean = true,
   P extends boolean = true,
@@ -304,6 +678,14 @@ export type ZoomableGroupProps<
     onMoveStart?: (position: Position, event: Event) => void;
     onMove?: (position: Position, event: Event) => void;
     onMoveEnd?: (position: Position, event: Event) => void;
+    controllerRef?: Ref<MapController>;
+    // Focusable map that zooms with +/- and pans with the arrow keys
+    // (default false)
+    keyboardNavigation?: boolean;
+    gestures?: ZoomGestureOptions;
+    // Geographic pan limits, projected through the map's projection; they
+    // take precedence over translateExtent
+    panBounds?: PanBounds;
     className?: string;
     children?: ReactNode;
   };
@@ -322,6 +704,10 @@ export interface SimpleZoomableGroupProps extends SVGProps<SVGGElement> {
   onMoveStart?: (position: Position, event: Event) => void;
   onMove?: (position: Position, event: Event) => void;
   onMoveEnd?: (position: Position, event: Event) => void;
+  controllerRef?: Ref<MapController>;
+  keyboardNavigation?: boolean;
+  gestures?: ZoomGestureOptions;
+  panBounds?: PanBounds;
   className?: string;
   children?: ReactNode;
 }
@@ -343,10 +729,58 @@ export interface MarkerProps extends Omit<SVGProps<SVGGElement>, 'style'> {
   onFocus?: (event: React.FocusEvent<SVGGElement>) => void;
   onBlur?: (event: React.FocusEvent<SVGGElement>) => void;
   style?: ConditionalStyle<CSSProperties>;
+  // Key of this marker in the surrounding SelectionProvider; markers without
+  // one are not selectable
+  selectionKey?: string;
+  // Degrees inside a globe's horizon over which the marker fades out
+  horizonFade?: number;
+  // Called when the marker is clipped, e.g. turns to the far side of a globe,
+  // and when it comes back into view
+  onVisibilityChange?: (visible: boolean) => void;
   className?: string;
   children?: ReactNode;
 }
 
+// Marker clustering
+export interface PointCluster<T> {
+  // Stable while the cluster keeps the same first point
+  id: string;
+  points: T[];
+  count: number;
+  // Centroid of the clustered points in projected map units
+  x: number;
+  y: number;
+  coordinates: Coordinates;
+  // Projected extent of the clustered points
+  extent: ProjectedExtent;
+}
+
+export interface UseClustersProps<T> {
+  points: readonly T[];
+  // Read when points or the projection change; a new function alone does
+  // not re-project, so it can be written inline
+  coordinates: (point: T) => Coordinates;
+  // Points closer than this many screen pixels are grouped
+  radius?: number;
+  // Stop clustering above this zoom level
+  maxZoom?: number;
+}
+
+export interface MarkerClusterProps<T> extends UseClustersProps<T> {
+  // Renders a single, unclustered point; defaults to a small circle Marker
+  renderMarker?: (point: T, cluster: PointCluster<T>) => ReactNode;
+  // Renders a cluster node at the cluster centroid, in screen-sized units
+  renderCluster?: (cluster: PointCluster<T>) => ReactNode;
+  // Defaults to zooming to the cluster's extent
+  onClusterClick?: (
+    cluster: PointCluster<T>,
+    event: React.MouseEvent<SVGGElement> | React.KeyboardEvent<SVGGElement>,
+  ) => void;
+  // Padding and animation for the default zoom to a clicked cluster
+  zoomOptions?: CameraFitOptions;
+  className?: string;
+}
+
 export interface LineProps extends Omit<
   SVGProps<SVGPathElement>,
   'from' | 'to'
@@ -363,6 +797,10 @@ export interface AnnotationProps extends SVGProps<SVGGElement> {
   dy?: number;
   curve?: number;
   connectorProps?: SVGProps<SVGPathElement>;
+  // Degrees inside a globe's horizon over which the annotation fades out
+  horizonFade?: number;
+  // Called when the subject is clipped and when it comes back into view
+  onVisibilityChange?: (visible: boolean) => void;
   className?: string;
   children?: ReactNode;
 }
@@ -380,9 +818,378 @@ export interface SphereProps extends SVGProps<SVGPathElement> {
 // Hook Props
 export interface UseGeographiesProps {
   geography: string | Topology | FeatureCollection;
+  objectName?: TopologyObjectName;
+  meshes?: Record<string, MeshFilter>;
+  // 'canvas' skips building per-feature SVG path strings (svgPath is empty)
+  renderer?: GeographyRenderer;
   parseGeographies?: (geographies: Feature<Geometry>[]) => Feature<Geometry>[];
 }
 
+export interface UseTopologyProps {
+  geography: string | Topology;
+  objects?: readonly string[];
+}
+
+export interface UseChoroplethProps<T> {
+  data: readonly T[];
+  featureKey?: FeatureKeyAccessor;
+  dataKey:
+    (keyof T & string) | ((datum: T) => string | number | null | undefined);
+  value: (datum: T) => number | null | undefined;
+  // A config, or a scale from createColorScale to share with a legend
+  scale: ColorScaleConfig | ColorScale;
+}
+
+export interface ChoroplethData<T> {
+  scale: ColorScale;
+  bins: ColorScaleBin[];
+  getDatum: (geography: Feature<Geometry>) => T | undefined;
+  getValue: (geography: Feature<Geometry>) => number | null;
+  /** Fill color for a feature, or null when it has no data. */
+  getColor: (geography: Feature<Geometry>) => string | null;
+  /** VALIDATION_ERROR for an invalid scale config; every feature is then uncolored. */
+  error: GeographyError | null;
+}
+
+export type ChoroplethProps<T> = Omit<GeographiesProps, 'children' | 'style'> &
+  UseChoroplethProps<T> & {
+    // Merged under the computed fill for features with data
+    style?: ConditionalStyle<CSSProperties>;
+    // Applied to features without a matching datum or value
+    noDataStyle?: ConditionalStyle<CSSProperties>;
+    geographyProps?: (
+      geography: PreparedFeature,
+      datum: T | undefined,
+    ) => Omit<GeographyProps, 'geography' | 'style' | 'ref'>;
+    // Legend entry to emphasise, typically from a legend's onHighlightChange
+    highlight?: LegendEntry | null;
+    // Merged over the style of features matching `highlight`
+    highlightStyle?: ConditionalStyle<CSSProperties>;
+  };
+
+export interface RotatableGlobeProps extends Omit<
+  SVGProps<SVGGElement>,
+  'rotate'
+> {
+  // Initial rotation (default: the projection's); changing it resets the view
+  rotation?: GlobeRotation;
+  // Initial zoom (default 1); changing it resets the view
+  zoom?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  // Keeps spinning after a flick (default true)
+  inertia?: boolean;
+  // Spin around the poles in degrees per second while idle (default 0)
+  autoRotate?: number;
+  // Focusable globe that rotates with the arrow keys and zooms with +/-
+  // (default true)
+  keyboardNavigation?: boolean;
+  onRotate?: (view: GlobeView) => void;
+  // Called when a drag ends, after its inertia, and after each wheel or key
+  // step
+  onRotateEnd?: (view: GlobeView) => void;
+  className?: string;
+  children?: ReactNode;
+}
+
+// Coordinate readout
+export interface CoordinateReadoutProps extends Omit<
+  SVGProps<SVGGElement>,
+  'children' | 'ref' | 'format'
+> {
+  // Corner of the map the readout is anchored to (default 'bottom-left')
+  position?: LegendPosition;
+  // Distance from the map edges in SVG units
+  margin?: number;
+  // Decimal places of the default format
+  precision?: number;
+  // Replaces the default "40.71° N, 74.01° W" text
+  format?: (coordinates: Coordinates) => ReactNode;
+  // Shown while the pointer is off the map or outside the sphere
+  placeholder?: ReactNode;
+}
+
+// Map controls
+export interface MapControlsRenderProps {
+  // Center and zoom of the view, updated while the user drags and zooms
+  position: Position;
+  // The ZoomableGroup's scaleExtent
+  minZoom: number;
+  maxZoom: number;
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  // False until a ZoomableGroup is mounted; the actions do nothing before
+  isReady: boolean;
+  // Always false; kept for render functions written against earlier versions
+  isLoading: boolean;
+  // Reason the last setZoom or setCenter call was rejected
+  error: string | null;
+  selectedGeography: string | null;
+  zoomIn: (factor?: number) => void;
+  zoomOut: (factor?: number) => void;
+  // Returns to the ZoomableGroup's center and zoom props
+  resetView: () => void;
+  setZoom: (zoom: number) => void;
+  setCenter: (center: Coordinates) => void;
+  selectGeography: (geography: string | null) => void;
+}
+
+export interface MapControlsProps {
+  // Starting position of controls rendered outside a ComposableMap, which
+  // keep their own position; inside a map the ZoomableGroup sets it
+  initialPosition?: Position;
+  // Called for every camera move, from the controls or from the user
+  onPositionChange?: (position: Position) => void;
+  onGeographySelect?: (geography: string | null) => void;
+  // Animation of the camera moves the controls start
+  animation?: CameraAnimationOptions;
+  children?: (props: MapControlsRenderProps) => ReactNode;
+}
+
+export interface ZoomControlsProps extends Omit<
+  SVGProps<SVGGElement>,
+  'children' | 'ref'
+> {
+  // Corner of the map the buttons are anchored to (default 'top-right')
+  position?: LegendPosition;
+  // Distance from the map edges in SVG units (default 16)
+  margin?: number;
+  // Button width and height in SVG units (default 28)
+  size?: number;
+  // Zoom factor of one button press (default 2)
+  step?: number;
+  // Shows the reset button (default true)
+  showReset?: boolean;
+  // Accessible names; default 'Zoom in', 'Zoom out' and 'Reset view'
+  labels?: { zoomIn?: string; zoomOut?: string; reset?: string };
+  animation?: CameraAnimationOptions;
+}
+
+// Accessible data table
+export type MapDataTableRow = Pick<
+  MapFeatureEntry,
+  'geography' | 'label' | 'centroid'
+> & {
+  // From the first binding with a datum for the geography; null and
+  // undefined without one
+  value: number | null;
+  datum: unknown;
+};
+
+export interface MapDataTableColumn {
+  header: ReactNode;
+  cell: (row: MapDataTableRow) => ReactNode;
+}
+
+export interface MapDataTableProps extends Omit<
+  TableHTMLAttributes<HTMLTableElement>,
+  'children'
+> {
+  caption?: ReactNode;
+  // Defaults to Name and Centroid columns, plus Value and one column per
+  // datum field when data is bound
+  columns?: readonly MapDataTableColumn[];
+  // Data to list, such as a useChoropleth result from outside the map. A
+  // Choropleth, or useChoropleth inside the map, binds its data itself.
+  data?: MapDataBinding;
+  // False shows the table over the map; by default only assistive
+  // technology sees it
+  visuallyHidden?: boolean;
+  // Decimal places of the default Centroid column
+  precision?: number;
+}
+
+// Tooltips
+// A pointer position in client pixels, or a geographic position that follows
+// zoom and pan
+export type TooltipAnchor =
+  { clientX: number; clientY: number } | { coordinates: Coordinates };
+
+export interface TooltipState<T> {
+  data: T;
+  anchor: TooltipAnchor;
+  // Element shown through getTargetProps; described by the tooltip while it
+  // is rendered
+  target?: Element;
+}
+
+// Handlers that show a tooltip while the pointer is over an element, while it
+// has keyboard focus, or after a tap on touch screens
+export interface TooltipTargetProps {
+  onPointerEnter: (event: PointerEvent<Element>) => void;
+  onPointerMove: (event: PointerEvent<Element>) => void;
+  onPointerLeave: (event: PointerEvent<Element>) => void;
+  onPointerDown: (event: PointerEvent<Element>) => void;
+  onFocus: (event: FocusEvent<Element>) => void;
+  onBlur: (event: FocusEvent<Element>) => void;
+}
+
+export interface UseTooltipResult<T> {
+  // id of the MapTooltip element, referenced by the target's
+  // aria-describedby while the tooltip is rendered
+  id: string;
+  show: (data: T, anchor: TooltipAnchor) => void;
+  hide: () => void;
+  // Pass coordinates (e.g. GeographyEventData.centroid) to anchor there
+  // instead of at the pointer or the focused element
+  getTargetProps: (
+    data: T,
+    coordinates?: Coordinates | null,
+  ) => TooltipTargetProps;
+  getState: () => TooltipState<T> | null;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface MapTooltipProps<T> extends Omit<
+  HTMLAttributes<HTMLDivElement>,
+  'children' | 'id'
+> {
+  tooltip: UseTooltipResult<T>;
+  children: (data: T) => ReactNode;
+  // Gap between the anchor and the tooltip in viewBox units (default 12)
+  offset?: number;
+}
+
+// HTML overlay
+export type HtmlOverlayProps = HTMLAttributes<HTMLDivElement>;
+
+// Edge of the item placed on its coordinates; 'bottom' puts the item above
+// the point, like a pin
+export type HtmlOverlayAnchor = 'center' | 'top' | 'bottom' | 'left' | 'right';
+
+export interface HtmlOverlayItemProps extends HTMLAttributes<HTMLDivElement> {
+  coordinates: Coordinates;
+  // Default 'center'
+  anchor?: HtmlOverlayAnchor;
+}
+
+// Selection
+// 'single' keeps at most one key; 'multiple' toggles keys on shift-, ctrl- or
+// cmd-click and lets the lasso select many
+export type SelectionMode = 'single' | 'multiple';
+
+export type SelectionLassoShape = 'rectangle' | 'freehand';
+
+// A selectable geography or marker, hit-tested by SelectionLasso
+export type SelectableItem =
+  | { key: string; geography: Feature<Geometry> }
+  | { key: string; coordinates: Coordinates };
+
+export interface SelectionModifiers {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+export interface SelectionContextType {
+  mode: SelectionMode;
+  // Reads the selection key of a geography (default 'id')
+  featureKey: FeatureKeyAccessor;
+  getSelected: () => readonly string[];
+  isSelected: (key: string) => boolean;
+  subscribe: (listener: () => void) => () => void;
+  // Replaces the selection, or adds to it when additive
+  select: (keys: readonly string[], options?: { additive?: boolean }) => void;
+  toggle: (key: string) => void;
+  clear: () => void;
+  // Selects like a click: replaces the selection, or toggles the key when a
+  // modifier is held in multiple mode
+  selectWithModifiers: (key: string, modifiers: SelectionModifiers) => void;
+  setItem: (id: string, item: SelectableItem) => void;
+  removeItem: (id: string) => void;
+  getItems: () => readonly SelectableItem[];
+}
+
+export interface UseSelectionResult extends Pick<
+  SelectionContextType,
+  'mode' | 'isSelected' | 'select' | 'toggle' | 'clear'
+> {
+  selected: readonly string[];
+}
+
+export interface SelectionProviderProps {
+  // Default 'single'
+  mode?: SelectionMode;
+  // Controlled selection; pair with onSelectionChange
+  selected?: readonly string[];
+  defaultSelected?: readonly string[];
+  onSelectionChange?: (selected: string[]) => void;
+  featureKey?: FeatureKeyAccessor;
+  children?: ReactNode;
+}
+
+export interface SelectionLassoProps extends Omit<
+  SVGProps<SVGPathElement>,
+  'ref' | 'd'
+> {
+  // Default 'freehand'
+  shape?: SelectionLassoShape;
+}
+
+// Legends
+export type LegendPosition =
+  'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+  // Present when the entry was derived from a color scale bin
+  bin?: ColorScaleBin;
+}
+
+interface LegendBaseProps extends Omit<
+  SVGProps<SVGGElement>,
+  'type' | 'values' | 'offset' | 'scale' | 'radius' | 'ref'
+> {
+  title?: string;
+  // Corner of the map the legend is anchored to
+  position?: LegendPosition;
+  // Distance from the map edges in SVG units
+  margin?: number;
+  formatValue?: (value: number) => string;
+}
+
+interface LegendHighlightProps {
+  // Called with the hovered or focused entry, and null when it is left
+  onHighlightChange?: (entry: LegendEntry | null) => void;
+}
+
+export interface CategoricalLegendProps
+  extends Omit<LegendBaseProps, 'formatValue'>, LegendHighlightProps {
+  items: readonly Omit<LegendEntry, 'bin'>[];
+  swatchSize?: number;
+}
+
+export interface SteppedLegendProps
+  extends LegendBaseProps, LegendHighlightProps {
+  scale: ColorScale;
+  // Defaults to getColorScaleBins(scale)
+  bins?: readonly ColorScaleBin[];
+  swatchSize?: number;
+}
+
+export interface GradientLegendProps extends LegendBaseProps {
+  scale: ColorScale;
+  barWidth?: number;
+  barHeight?: number;
+  // Number of labelled ticks along the bar, including both ends
+  ticks?: number;
+}
+
+export interface ProportionalLegendProps extends LegendBaseProps {
+  // Maps a data value to a circle radius, as used by the map's markers
+  radius: (value: number) => number;
+  values: readonly number[];
+  fill?: string;
+  stroke?: string;
+}
+
+export type LegendProps =
+  | ({ type: 'categorical' } & CategoricalLegendProps)
+  | ({ type: 'stepped' } & SteppedLegendProps)
+  | ({ type: 'gradient' } & GradientLegendProps)
+  | ({ type: 'proportional' } & ProportionalLegendProps);
+
 export interface UseZoomPanProps {
   center: Coordinates;
   zoom: number;
@@ -404,6 +1211,8 @@ export interface GeographyData {
   geographies: PreparedFeature[];
   outline: string;
   borders: string;
+  /** SVG paths for the custom `meshes` filters, keyed by filter name. */
+  meshes?: Record<string, string>;
   isLoading: boolean;
   error: GeographyError | Error | null;
   center?: Coordinates;
@@ -411,6 +1220,17 @@ export interface GeographyData {
   refetch?: () => void;
 }
 
+export interface TopologyData {
+  topology: Topology | null;
+  /** Every object name available in the loaded topology. */
+  objectNames: string[];
+  layers: Record<string, TopologyLayer>;
+  isLoading: boolean;
+  error: GeographyError | Error | null;
+  /** Re-runs the fetch for string `geography` URLs (no-op for object geographies). */
+  refetch?: () => void;
+}
+
 export interface ZoomPanState {
   x: number;
   y: number;
@@ -450,6 +1270,7 @@ export interface GeographySecurityConfig {
 // Server Component compatible geography props
 export interface GeographyServerProps {
   geography: string;
+  objectName?: TopologyObjectName;
   children: (data: GeographyData) => ReactNode;
   cache?: boolean;
 }
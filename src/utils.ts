@@ -9,6 +9,7 @@ export {
 export {
   getFeatures,
   getMesh,
+  getFilteredMesh,
   prepareMesh,
   prepareFeatures,
   createConnectorPath,
@@ -54,6 +55,7 @@ import {
 } from './types';
 import { Feature, FeatureCollection, Geometry } from 'geojson';
 import { Topology } from 'topojson-specification';
+import { resolveProjectionFactory } from './utils/projection-registry';
 
 // Type guards and validation utilities remain in this file
 
@@ -136,7 +138,9 @@ export function isGeoProjection(value: unknown): value is GeoProjection {
 
 export function isProjectionName(value: unknown): value is string {
   return (
-    typeof value === 'string' && value.startsWith('geo') && value.length > 3
+    typeof value === 'string' &&
+    ((value.startsWith('geo') && value.length > 3) ||
+      resolveProjectionFactory(value) !== undefined)
   );
 }
 
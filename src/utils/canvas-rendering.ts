@@ -0,0 +1,109 @@
+import { CSSProperties, SVGProps } from 'react';
+import { geoContains, GeoPath, GeoProjection } from 'd3-geo';
+import { Feature, Geometry } from 'geojson';
+
+export interface CanvasPaint {
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+}
+
+export type ProjectedBounds = [[number, number], [number, number]];
+
+type PaintValue = string | number | undefined;
+
+function toNumber(value: PaintValue, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function toColor(value: PaintValue, fallback: string | null): string | null {
+  if (value === undefined) return fallback;
+  const color = String(value);
+  return color === 'none' ? null : color;
+}
+
+/**
+ * Resolves the paint for a geography drawn on canvas, mirroring SVG defaults
+ * @param attributes - SVG presentation attributes passed to the Geography
+ * @param style - Active style variant, which overrides the attributes
+ * @returns Fill and stroke settings for a 2D canvas context
+ */
+export function resolveCanvasPaint(
+  attributes: SVGProps<SVGPathElement>,
+  style: CSSProperties = {},
+): CanvasPaint {
+  const opacity = toNumber(style.opacity ?? attributes.opacity, 1);
+
+  return {
+    fill: toColor(style.fill ?? attributes.fill, '#000'),
+    stroke: toColor(style.stroke ?? attributes.stroke, null),
+    strokeWidth: toNumber(style.strokeWidth ?? attributes.strokeWidth, 1),
+    fillOpacity:
+      opacity * toNumber(style.fillOpacity ?? attributes.fillOpacity, 1),
+    strokeOpacity:
+      opacity * toNumber(style.strokeOpacity ?? attributes.strokeOpacity, 1),
+  };
+}
+
+/**
+ * Fills and strokes one geography on a canvas
+ * @param context - 2D context with the map transform already applied
+ * @param canvasPath - geoPath bound to the same context
+ * @param geography - Feature to draw
+ * @param paint - Resolved paint from resolveCanvasPaint
+ */
+export function paintGeography(
+  context: CanvasRenderingContext2D,
+  canvasPath: GeoPath,
+  geography: Feature<Geometry>,
+  paint: CanvasPaint,
+): void {
+  context.beginPath();
+  canvasPath(geography);
+
+  if (paint.fill && paint.fillOpacity > 0) {
+    context.globalAlpha = paint.fillOpacity;
+    context.fillStyle = paint.fill;
+    context.fill();
+  }
+
+  if (paint.stroke && paint.strokeWidth > 0 && paint.strokeOpacity > 0) {
+    context.globalAlpha = paint.strokeOpacity;
+    context.strokeStyle = paint.stroke;
+    context.lineWidth = paint.strokeWidth;
+    context.stroke();
+  }
+
+  context.globalAlpha = 1;
+}
+
+/**
+ * Finds the topmost geography under a point in projected map coordinates
+ * @param targets - Geographies in draw order
+ * @param point - Point in untransformed map (projection) space
+ * @param projection - Map projection; must support invert
+ * @param getBounds - Projected bounds for a geography, used to skip distant features
+ * @returns The last drawn target containing the point, or null
+ */
+export function findGeographyAt<T extends { geography: Feature<Geometry> }>(
+  targets: readonly T[],
+  point: [number, number],
+  projection: GeoProjection,
+  getBounds: (geography: Feature<Geometry>) => ProjectedBounds,
+): T | null {
+  const coordinates = projection.invert?.(point);
+  if (!coordinates) return null;
+
+  const [x, y] = point;
+  for (let index = targets.length - 1; index >= 0; index--) {
+    const target = targets[index] as T;
+    const [[x0, y0], [x1, y1]] = getBounds(target.geography);
+    if (x < x0 || x > x1 || y < y0 || y > y1) continue;
+    if (geoContains(target.geography, coordinates)) return target;
+  }
+  return null;
+}
@@ -0,0 +1,279 @@
+import { interpolateRgb, piecewise } from 'd3-interpolate';
+import { ColorScale, ColorScaleBin, ColorScaleConfig } from '../types';
+import { createGeographyError } from '../utils';
+
+/**
+ * Returns the index of the first threshold greater than `value`
+ * @param thresholds - Ascending breakpoints
+ * @param value - Value to locate
+ * @returns Bin index in the range [0, thresholds.length]
+ */
+function bisectRight(thresholds: readonly number[], value: number): number {
+  let low = 0;
+  let high = thresholds.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (value < (thresholds[middle] as number)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Computes a quantile of sorted values (R-7 interpolation, as in d3-array)
+ * @param sorted - Ascending values
+ * @param p - Probability in [0, 1]
+ * @returns Quantile value
+ */
+function quantileSorted(sorted: readonly number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lowerIndex = Math.floor(position);
+  const lower = sorted[lowerIndex] as number;
+  const upper = sorted[Math.min(lowerIndex + 1, sorted.length - 1)] as number;
+  return lower + (upper - lower) * (position - lowerIndex);
+}
+
+function getExtent(
+  values: readonly number[],
+  empty: [number, number] = [0, 0],
+): [number, number] {
+  if (values.length === 0) {
+    return empty;
+  }
+
+  // A loop rather than Math.min(...values), which overflows the call stack
+  // on large datasets
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return [min, max];
+}
+
+function isAscending(values: readonly number[]): boolean {
+  return values.every(
+    (value, index) => index === 0 || value >= (values[index - 1] as number),
+  );
+}
+
+function validateColorScaleConfig(config: ColorScaleConfig): void {
+  const isContinuous = config.type === 'linear' || config.type === 'log';
+  const minColors = isContinuous ? 2 : 1;
+
+  if (!Array.isArray(config.range) || config.range.length < minColors) {
+    throw createGeographyError(
+      'VALIDATION_ERROR',
+      `A ${config.type} color scale needs at least ${minColors} color${minColors > 1 ? 's' : ''} in its range`,
+      undefined,
+      { scaleType: config.type, range: config.range },
+    );
+  }
+
+  if (config.type === 'threshold') {
+    const thresholds = config.thresholds ?? [];
+    if (
+      thresholds.length !== config.range.length - 1 ||
+      !isAscending(thresholds)
+    ) {
+      throw createGeographyError(
+        'VALIDATION_ERROR',
+        `A threshold color scale needs ${config.range.length - 1} ascending thresholds for ${config.range.length} colors`,
+        undefined,
+        { scaleType: config.type, thresholds },
+      );
+    }
+  }
+}
+
+/**
+ * Creates a color scale for choropleths and legends
+ * @param config - Scale type, color range and optional domain/thresholds
+ * @param values - Data values; used for the default domain and for quantiles
+ * @returns Callable color scale carrying its domain, range and thresholds
+ */
+export function createColorScale(
+  config: ColorScaleConfig,
+  values: readonly number[] = [],
+): ColorScale {
+  validateColorScaleConfig(config);
+
+  const { type, range } = config;
+  const finiteValues = values.filter((value) => Number.isFinite(value));
+  // Log scales leave zero and negative values to the no-data style, so they
+  // stay out of the default domain
+  const [d0, d1] =
+    config.domain ??
+    (type === 'log'
+      ? getExtent(
+          finiteValues.filter((value) => value > 0),
+          [1, 1],
+        )
+      : getExtent(finiteValues));
+
+  if (type === 'log' && (d0 <= 0 || d1 <= 0)) {
+    throw createGeographyError(
+      'VALIDATION_ERROR',
+      `A log color scale needs a strictly positive domain, got [${d0}, ${d1}]`,
+      undefined,
+      { scaleType: type, domain: [d0, d1] },
+    );
+  }
+
+  let thresholds: number[] = [];
+  let color: (value: number) => string;
+
+  switch (type) {
+    case 'quantize':
+    case 'quantile':
+    case 'threshold': {
+      if (type === 'quantize') {
+        thresholds = range
+          .slice(1)
+          .map((_, index) => d0 + ((d1 - d0) * (index + 1)) / range.length);
+      } else if (type === 'quantile') {
+        const sorted = [...finiteValues].sort((a, b) => a - b);
+        thresholds =
+          sorted.length > 0
+            ? range
+                .slice(1)
+                .map((_, index) =>
+                  quantileSorted(sorted, (index + 1) / range.length),
+                )
+            : [];
+      } else {
+        thresholds = [...(config.thresholds ?? [])];
+      }
+
+      const bins = thresholds;
+      color = (value) =>
+        range[Math.min(bisectRight(bins, value), range.length - 1)] as string;
+      break;
+    }
+
+    case 'linear':
+    case 'log': {
+      const interpolate = piecewise(interpolateRgb, [...range]);
+      const transform = type === 'log' ? Math.log : (value: number) => value;
+      const t0 = transform(d0);
+      const t1 = transform(d1);
+
+      color = (value) => {
+        if (type === 'log' && value <= 0) return range[0] as string;
+        const t = t1 === t0 ? 0 : (transform(value) - t0) / (t1 - t0);
+        return interpolate(Math.max(0, Math.min(1, t)));
+      };
+      break;
+    }
+
+    default:
+      throw createGeographyError(
+        'VALIDATION_ERROR',
+        `Unknown color scale type: ${String(type)}`,
+        undefined,
+        { scaleType: type },
+      );
+  }
+
+  return Object.assign((value: number) => color(value), {
+    type,
+    domain: [d0, d1] as const,
+    range: [...range],
+    thresholds,
+  });
+}
+
+/**
+ * Splits a color scale into legend bins and counts the values in each
+ * @param scale - Color scale from `createColorScale`
+ * @param values - Data values to count per bin
+ * @returns One bin per discrete color, or one per color stop interval for continuous scales
+ */
+export function getColorScaleBins(
+  scale: ColorScale,
+  values: readonly number[] = [],
+): ColorScaleBin[] {
+  const [d0, d1] = scale.domain;
+  const finiteValues = values.filter((value) => Number.isFinite(value));
+
+  if (scale.type === 'linear' || scale.type === 'log') {
+    const stopCount = scale.range.length;
+    const toStop = (index: number) => {
+      if (index === 0) return d0;
+      if (index === stopCount - 1) return d1;
+      const t = index / (stopCount - 1);
+      return scale.type === 'log'
+        ? Math.exp(Math.log(d0) + (Math.log(d1) - Math.log(d0)) * t)
+        : d0 + (d1 - d0) * t;
+    };
+
+    return scale.range.slice(1).map((_, index) => {
+      const min = toStop(index);
+      const max = toStop(index + 1);
+      const isLast = index === stopCount - 2;
+      return {
+        index,
+        color: scale(
+          scale.type === 'log' ? Math.sqrt(min * max) : (min + max) / 2,
+        ),
+        min,
+        max,
+        count: finiteValues.filter(
+          (value) => value >= min && (isLast ? value <= max : value < max),
+        ).length,
+      };
+    });
+  }
+
+  const edges =
+    scale.type === 'threshold'
+      ? [-Infinity, ...scale.thresholds, Infinity]
+      : [d0, ...scale.thresholds, d1];
+  const counts = scale.range.map(() => 0);
+  for (const value of finiteValues) {
+    const index = Math.min(
+      bisectRight(scale.thresholds, value),
+      scale.range.length - 1,
+    );
+    counts[index] = (counts[index] as number) + 1;
+  }
+
+  return scale.range.map((color, index) => ({
+    index,
+    color,
+    min: edges[index] as number,
+    max: edges[index + 1] as number,
+    count: counts[index] as number,
+  }));
+}
+
+/**
+ * Checks whether a value falls in a bin produced by `getColorScaleBins`
+ * @param scale - Color scale the bin was derived from
+ * @param bin - Legend bin
+ * @param value - Data value
+ * @returns True when the value is colored by this bin
+ */
+export function isValueInBin(
+  scale: ColorScale,
+  bin: ColorScaleBin,
+  value: number,
+): boolean {
+  if (!Number.isFinite(value)) return false;
+
+  if (scale.type === 'linear' || scale.type === 'log') {
+    // Values outside the domain are clamped to the end colors
+    const isFirst = bin.index === 0;
+    const isLast = bin.index === scale.range.length - 2;
+    return (isFirst || value >= bin.min) && (isLast || value < bin.max);
+  }
+
+  return (
+    Math.min(bisectRight(scale.thresholds, value), scale.range.length - 1) ===
+    bin.index
+  );
+}
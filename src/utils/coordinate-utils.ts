@@ -1,5 +1,20 @@
 import { ZoomTransform } from 'd3-zoom';
-import { Coordinates, createCoordinates } from '../types';
+import {
+  GeoPath,
+  GeoPermissibleObjects,
+  GeoProjection,
+  geoDistance,
+  geoGraticule,
+  geoStream,
+} from 'd3-geo';
+import {
+  Coordinates,
+  PanBounds,
+  TranslateExtent,
+  ZoomPanState,
+  createCoordinates,
+  createTranslateExtent,
+} from '../types';
 
 /**
  * Calculates coordinates from zoom transform
@@ -17,56 +32,259 @@ export function getCoords(w: number, h: number, t: ZoomTransform): Coordinates {
 }
 
 /**
- * Converts screen coordinates to map coordinates
- * @param screenX - Screen X coordinate
- * @param screenY - Screen Y coordinate
- * @param width - Map width
- * @param height - Map height
+ * Formats coordinates for display with hemisphere letters
+ * @param coordinates - [longitude, latitude]
+ * @param precision - Decimal places
+ * @returns Text such as "40.71° N, 74.01° W"
+ */
+export function formatCoordinates(
+  [lon, lat]: Coordinates,
+  precision: number,
+): string {
+  const latitude = `${Math.abs(lat).toFixed(precision)}° ${lat < 0 ? 'S' : 'N'}`;
+  const longitude = `${Math.abs(lon).toFixed(precision)}° ${lon < 0 ? 'W' : 'E'}`;
+  return `${latitude}, ${longitude}`;
+}
+
+// Map units an inverted point may land from where it started
+const ROUND_TRIP_TOLERANCE = 0.01;
+
+/**
+ * Converts a point in the map's viewBox to geographic coordinates, undoing
+ * the zoom transform and then the projection
+ * @param point - [x, y] in viewBox units
+ * @param projection - Map projection
  * @param transform - Current zoom transform
- * @returns Map coordinates
+ * @returns Coordinates, or null where the projection has no inverse
  */
 export function screenToMapCoordinates(
-  screenX: number,
-  screenY: number,
-  width: number,
-  height: number,
-  transform: ZoomTransform,
-): Coordinates {
-  const mapX = (screenX - transform.x) / transform.k;
-  const mapY = (screenY - transform.y) / transform.k;
-
-  // Convert to longitude/latitude
-  const lon = (mapX / width) * 360 - 180;
-  const lat = 90 - (mapY / height) * 180;
+  [x, y]: [number, number],
+  projection: GeoProjection,
+  transform: ZoomPanState,
+): Coordinates | null {
+  const mapX = (x - transform.x) / transform.k;
+  const mapY = (y - transform.y) / transform.k;
+  const inverted = projection.invert?.([mapX, mapY]);
+  if (!inverted) return null;
+
+  // Outside the projected sphere inverses return NaN, out-of-range or clamped
+  // values, none of which project back onto the point
+  const [lon, lat] = inverted;
+  const projected = projection(inverted);
+  if (
+    !(Math.abs(lon) <= 180 && Math.abs(lat) <= 90) ||
+    !projected ||
+    Math.hypot(projected[0] - mapX, projected[1] - mapY) > ROUND_TRIP_TOLERANCE
+  ) {
+    return null;
+  }
 
   return createCoordinates(lon, lat);
 }
 
 /**
- * Converts map coordinates to screen coordinates
- * @param coordinates - Map coordinates
- * @param width - Map width
- * @param height - Map height
+ * Checks whether a point survives the projection's clipping, e.g. lies on the
+ * visible hemisphere of a globe or inside its clipExtent
+ * @param coordinates - Geographic coordinates
+ * @param projection - Map projection
+ * @returns True when the projection draws the point
+ */
+export function isProjectedPointVisible(
+  coordinates: Coordinates,
+  projection: GeoProjection,
+): boolean {
+  let visible = false;
+  const noop = () => {};
+  geoStream(
+    { type: 'Point', coordinates },
+    projection.stream({
+      point: () => {
+        visible = true;
+      },
+      lineStart: noop,
+      lineEnd: noop,
+      polygonStart: noop,
+      polygonEnd: noop,
+      sphere: noop,
+    }),
+  );
+  return visible;
+}
+
+/**
+ * Fades points out as they approach the horizon of a clipped globe
+ * @param coordinates - Geographic coordinates
+ * @param projection - Map projection
+ * @param fade - Width of the fade in degrees, measured inward from the clip
+ * angle around the projection's rotation center
+ * @returns Opacity from 0 at the horizon to 1 at `fade` degrees inside it;
+ * always 1 without a fade or a clip angle
+ */
+export function getHorizonOpacity(
+  coordinates: Coordinates,
+  projection: GeoProjection,
+  fade: number,
+): number {
+  const clipAngle = projection.clipAngle?.();
+  if (!(fade > 0) || !clipAngle) return 1;
+  const [lambda, phi] = projection.rotate();
+  const distance = (geoDistance(coordinates, [-lambda, -phi]) * 180) / Math.PI;
+  return Math.max(0, Math.min(1, (clipAngle - distance) / fade));
+}
+
+/**
+ * Converts geographic coordinates to a point in the map's viewBox
+ * @param coordinates - Geographic coordinates
+ * @param projection - Map projection
  * @param transform - Current zoom transform
- * @returns Screen coordinates as [x, y]
+ * @returns [x, y] in viewBox units, or null when the projection clips the point
  */
 export function mapToScreenCoordinates(
   coordinates: Coordinates,
-  width: number,
-  height: number,
-  transform: ZoomTransform,
-): [number, number] {
-  const [lon, lat] = coordinates;
+  projection: GeoProjection,
+  transform: ZoomPanState,
+): [number, number] | null {
+  const projected = projection(coordinates);
+  if (!projected || !Number.isFinite(projected[0] + projected[1])) return null;
+  if (!isProjectedPointVisible(coordinates, projection)) return null;
+
+  return [
+    projected[0] * transform.k + transform.x,
+    projected[1] * transform.k + transform.y,
+  ];
+}
 
-  // Convert longitude/latitude to map coordinates
-  const mapX = ((lon + 180) / 360) * width;
-  const mapY = ((90 - lat) / 180) * height;
+/**
+ * Converts client (viewport) pixels to the SVG's viewBox units
+ * @param svg - Root map SVG
+ * @param clientX - Client X coordinate
+ * @param clientY - Client Y coordinate
+ * @returns [x, y] in viewBox units, or null when the SVG is not laid out
+ */
+export function clientToViewBoxPoint(
+  svg: SVGSVGElement,
+  clientX: number,
+  clientY: number,
+): [number, number] | null {
+  const matrix = svg.getScreenCTM?.();
+  if (matrix) {
+    const inverse = matrix.inverse();
+    return [
+      inverse.a * clientX + inverse.c * clientY + inverse.e,
+      inverse.b * clientX + inverse.d * clientY + inverse.f,
+    ];
+  }
 
-  // Apply transform
-  const screenX = mapX * transform.k + transform.x;
-  const screenY = mapY * transform.k + transform.y;
+  const fit = getViewBoxFit(svg);
+  if (!fit) return null;
+  return [
+    (clientX - fit.left) / fit.scale + fit.minX,
+    (clientY - fit.top) / fit.scale + fit.minY,
+  ];
+}
 
-  return [screenX, screenY];
+/**
+ * Converts the SVG's viewBox units to client (viewport) pixels
+ * @param svg - Root map SVG
+ * @param point - [x, y] in viewBox units
+ * @returns [clientX, clientY], or null when the SVG is not laid out
+ */
+export function viewBoxToClientPoint(
+  svg: SVGSVGElement,
+  [x, y]: [number, number],
+): [number, number] | null {
+  const matrix = svg.getScreenCTM?.();
+  if (matrix) {
+    return [
+      matrix.a * x + matrix.c * y + matrix.e,
+      matrix.b * x + matrix.d * y + matrix.f,
+    ];
+  }
+
+  const fit = getViewBoxFit(svg);
+  if (!fit) return null;
+  return [
+    (x - fit.minX) * fit.scale + fit.left,
+    (y - fit.minY) * fit.scale + fit.top,
+  ];
+}
+
+/**
+ * Maps the SVG's viewBox units to CSS pixels of an HTML layer laid over it
+ * @param svg - Root map SVG
+ * @param layer - Element positioned over the SVG
+ * @returns Scale and offset, so that a point lands at
+ * [x * scale + left, y * scale + top] in the layer, or null when the SVG is
+ * not laid out
+ */
+export function getViewBoxLayerFit(
+  svg: SVGSVGElement,
+  layer: Element,
+): { scale: number; left: number; top: number } | null {
+  const origin = viewBoxToClientPoint(svg, [0, 0]);
+  const unit = viewBoxToClientPoint(svg, [1, 0]);
+  if (!origin || !unit) return null;
+  const rect = layer.getBoundingClientRect();
+  return {
+    scale: unit[0] - origin[0],
+    left: origin[0] - rect.left,
+    top: origin[1] - rect.top,
+  };
+}
+
+/**
+ * Where the viewBox lands in the SVG's client box under the default
+ * preserveAspectRatio (xMidYMid meet); used where getScreenCTM is unavailable
+ */
+function getViewBoxFit(svg: SVGSVGElement): {
+  minX: number;
+  minY: number;
+  scale: number;
+  left: number;
+  top: number;
+} | null {
+  const rect = svg.getBoundingClientRect();
+  const viewBox = (svg.getAttribute('viewBox') ?? '')
+    .split(/[\s,]+/)
+    .map(Number);
+  const [minX = 0, minY = 0, width = rect.width, height = rect.height] =
+    viewBox.length === 4 && viewBox.every(Number.isFinite) ? viewBox : [];
+  if (!(width > 0 && height > 0 && rect.width > 0 && rect.height > 0)) {
+    return null;
+  }
+
+  const scale = Math.min(rect.width / width, rect.height / height);
+  return {
+    minX,
+    minY,
+    scale,
+    left: rect.left + (rect.width - width * scale) / 2,
+    top: rect.top + (rect.height - height * scale) / 2,
+  };
+}
+
+/**
+ * Samples points along the edges of geographic bounds; most projections curve
+ * lines of latitude and longitude, so the corners alone are not enough
+ * @param bounds - [[west, south], [east, north]]; west > east crosses the antimeridian
+ * @param samples - Segments per edge
+ * @returns Outline points as [lon, lat] (longitudes may exceed 180)
+ */
+export function sampleBoundsOutline(
+  [[west, south], [east, north]]: [Coordinates, Coordinates],
+  samples: number = 16,
+): [number, number][] {
+  const eastUnwrapped = east < west ? east + 360 : east;
+  const points: [number, number][] = [];
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const lon = west + (eastUnwrapped - west) * t;
+    const lat = south + (north - south) * t;
+    points.push([lon, south], [lon, north], [west, lat], [eastUnwrapped, lat]);
+  }
+
+  return points;
 }
 
 /**
@@ -206,9 +424,8 @@ export function calculateBounds(
   return [minLon, minLat, maxLon, maxLat];
 }
 
-// Caches for expensive coordinate calculations
+// Cache for expensive coordinate calculations
 const boundsCache = new Map<string, [number, number, number, number]>();
-const coordinateCache = new Map<string, Coordinates>();
 
 /**
  * Memoized version of calculateBounds for use in React components
@@ -240,51 +457,25 @@ export function calculateBoundsMemoized(
 }
 
 /**
- * Memoized coordinate transformation for screen to map coordinates
- * @param screenX - Screen X coordinate
- * @param screenY - Screen Y coordinate
- * @param width - Map width
- * @param height - Map height
- * @param transform - Current zoom transform
- * @returns Memoized coordinate transformation
+ * Projects geographic pan limits to a translate extent in map units
+ * @param bounds - [[west, south], [east, north]] in degrees, or 'sphere'
+ * @param path - Path generator of the map projection
+ * @returns The projected bounds' extent, or null when the projection draws
+ * none of them
  */
-export function screenToMapCoordinatesMemoized(
-  screenX: number,
-  screenY: number,
-  width: number,
-  height: number,
-  transform: ZoomTransform,
-): Coordinates {
-  const cacheKey = `screen2map:${screenX}:${screenY}:${width}:${height}:${transform.k}:${transform.x}:${transform.y}`;
-
-  const cachedCoordinate = coordinateCache.get(cacheKey);
-  if (cachedCoordinate) {
-    return cachedCoordinate;
-  }
-
-  const coords = screenToMapCoordinates(
-    screenX,
-    screenY,
-    width,
-    height,
-    transform,
+export function projectPanBounds(
+  bounds: PanBounds,
+  path: GeoPath,
+): TranslateExtent | null {
+  // The outline follows meridians and parallels, so curved edges count
+  const area: GeoPermissibleObjects =
+    bounds === 'sphere'
+      ? { type: 'Sphere' }
+      : geoGraticule().extent(bounds).outline();
+  const [[x0, y0], [x1, y1]] = path.bounds(area);
+  if (![x0, y0, x1, y1].every(Number.isFinite)) return null;
+  return createTranslateExtent(
+    createCoordinates(x0, y0),
+    createCoordinates(x1, y1),
   );
-  coordinateCache.set(cacheKey, coords);
-
-  // Limit cache size
-  if (coordinateCache.size > 100) {
-    const firstKey = coordinateCache.keys().next().value;
-    if (firstKey !== undefined) {
-      coordinateCache.delete(firstKey);
-    }
-  }
-
-  return coords;
-}
-
-/**
- * Clear coordinate transformation cache (useful for testing or memory management)
- */
-export function clearCoordinateCache(): void {
-  coordinateCache.clear();
 }
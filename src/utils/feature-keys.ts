@@ -0,0 +1,69 @@
+import { Feature, Geometry } from 'geojson';
+import { FeatureKeyAccessor } from '../types';
+
+const DANGEROUS_PATH_SEGMENTS = new Set([
+  '__proto__',
+  'constructor',
+  'prototype',
+]);
+
+/**
+ * Reads a join key from a feature
+ * @param geography - GeoJSON feature
+ * @param accessor - 'id', a dot-separated property path (e.g. 'properties.iso_a3') or a function
+ * @returns The key as a string, or null when the feature has none
+ */
+export function getFeatureKey(
+  geography: Feature<Geometry>,
+  accessor: FeatureKeyAccessor = 'id',
+): string | null {
+  let value: unknown;
+
+  if (typeof accessor === 'function') {
+    value = accessor(geography);
+  } else {
+    value = geography;
+    for (const segment of accessor.split('.')) {
+      if (
+        DANGEROUS_PATH_SEGMENTS.has(segment) ||
+        typeof value !== 'object' ||
+        value === null ||
+        !Object.hasOwn(value, segment)
+      ) {
+        return null;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  return null;
+}
+
+const DEFAULT_LABEL_ACCESSORS: readonly FeatureKeyAccessor[] = [
+  'properties.name',
+  'properties.NAME',
+  'id',
+];
+
+/**
+ * Reads an accessible name for a feature
+ * @param geography - GeoJSON feature
+ * @param accessor - Label accessor; defaults to the first of properties.name,
+ * properties.NAME and id that is present
+ * @returns The label, or null when the feature has none
+ */
+export function getGeographyLabel(
+  geography: Feature<Geometry>,
+  accessor?: FeatureKeyAccessor,
+): string | null {
+  if (accessor !== undefined) return getFeatureKey(geography, accessor);
+
+  for (const fallback of DEFAULT_LABEL_ACCESSORS) {
+    const label = getFeatureKey(geography, fallback);
+    if (label) return label;
+  }
+  return null;
+}
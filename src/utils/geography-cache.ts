@@ -1,6 +1,10 @@
 import { Feature, Geometry, FeatureCollection } from 'geojson';
 import { Topology } from 'topojson-specification';
-import { PreparedFeature } from '../types';
+import {
+  GeographyRenderer,
+  PreparedFeature,
+  TopologyObjectName,
+} from '../types';
 
 // LRU Cache implementation for better memory management
 class LRUCache<T> {
@@ -50,6 +54,7 @@ interface GeographyCache {
   features: LRUCache<Feature<Geometry>[]>;
   preparedFeatures: LRUCache<PreparedFeature[]>;
   meshData: LRUCache<{ outline: string; borders: string }>;
+  customMeshes: LRUCache<string>;
 }
 
 // Create LRU caches for memory-efficient caching
@@ -57,28 +62,32 @@ const geographyCache: GeographyCache = {
   features: new LRUCache(50),
   preparedFeatures: new LRUCache(30), // Smaller since these are larger objects
   meshData: new LRUCache(40),
+  customMeshes: new LRUCache(75),
 };
 
+interface GeographyDataEntry {
+  features: Feature<Geometry>[];
+  mesh: { outline: unknown; borders: unknown } | null;
+  timestamp: number;
+}
+
+interface PreparedFeaturesEntry {
+  prepared: PreparedFeature[];
+  timestamp: number;
+}
+
 // WeakMap-based caches for object-based keys (memory-efficient)
 const weakMapCaches = {
-  // Cache for raw geography data objects
+  // Cache for raw geography data objects, one entry per extraction variant
   geographyDataCache: new WeakMap<
     FeatureCollection | Topology,
-    {
-      features: Feature<Geometry>[];
-      mesh: { outline: unknown; borders: unknown } | null;
-      timestamp: number;
-    }
+    Map<string, GeographyDataEntry>
   >(),
 
-  // Cache for prepared features by geography object
+  // Cache for prepared features by geography object, keyed by path and variant
   preparedFeaturesCache: new WeakMap<
     FeatureCollection | Topology,
-    {
-      prepared: PreparedFeature[];
-      pathFunction: string;
-      timestamp: number;
-    }
+    Map<string, PreparedFeaturesEntry>
   >(),
 
   // Cache for coordinate transformations
@@ -96,6 +105,7 @@ const CACHE_CONFIG = {
     preparedFeatures: 50,
     meshData: 75,
     coordinates: 200,
+    variants: 20,
   },
 
   // Enable/disable different cache layers
@@ -197,32 +207,70 @@ export function getCachedMeshData(
   return geographyCache.meshData.get(key);
 }
 
+function getObjectNameCacheToken(objectName?: TopologyObjectName): string {
+  if (objectName === undefined) {
+    return 'default';
+  }
+
+  const names = typeof objectName === 'string' ? [objectName] : objectName;
+  return hashString(JSON.stringify(names));
+}
+
+// Cache custom (filtered) mesh SVG paths
+export function cacheCustomMesh(key: string, svgPath: string): void {
+  geographyCache.customMeshes.set(key, svgPath);
+}
+
+export function getCachedCustomMesh(key: string): string | undefined {
+  return geographyCache.customMeshes.get(key);
+}
+
 // Generate cache keys for different data types
 export function generateFeaturesCacheKey(
   data: unknown,
   parseGeographies?: (features: Feature<Geometry>[]) => Feature<Geometry>[],
+  objectName?: TopologyObjectName,
 ): string {
   const parseKey = parseGeographies
     ? getObjectCacheToken(parseGeographies)
     : 'default';
-  return generateCacheKey(data, `features:${parseKey}`);
+  const objectKey = getObjectNameCacheToken(objectName);
+  return generateCacheKey(data, `features:${parseKey}:${objectKey}`);
 }
 
 export function generatePreparedFeaturesCacheKey(
   features: Feature<Geometry>[],
   pathFunction: unknown,
+  renderer: GeographyRenderer = 'svg',
 ): string {
   const featuresKey = getObjectCacheToken(features);
   const pathKey = getObjectCacheToken(pathFunction);
-  return `prepared:${featuresKey}:${pathKey}`;
+  return `prepared:${featuresKey}:${pathKey}:${renderer}`;
 }
 
 export function generateMeshCacheKey(
   data: unknown,
   pathFunction: unknown,
+  objectName?: TopologyObjectName,
+): string {
+  const pathKey = getObjectCacheToken(pathFunction);
+  const objectKey = getObjectNameCacheToken(objectName);
+  return generateCacheKey(data, `mesh:${pathKey}:${objectKey}`);
+}
+
+export function generateCustomMeshCacheKey(
+  data: unknown,
+  pathFunction: unknown,
+  filter: unknown,
+  objectName?: TopologyObjectName,
 ): string {
   const pathKey = getObjectCacheToken(pathFunction);
-  return generateCacheKey(data, `mesh:${pathKey}`);
+  const filterKey = getObjectCacheToken(filter);
+  const objectKey = getObjectNameCacheToken(objectName);
+  return generateCacheKey(
+    data,
+    `custom-mesh:${pathKey}:${filterKey}:${objectKey}`,
+  );
 }
 
 export function getPathFunctionCacheToken(pathFunction: unknown): string {
@@ -234,6 +282,7 @@ export function clearGeographyCache(): void {
   geographyCache.features.clear();
   geographyCache.preparedFeatures.clear();
   geographyCache.meshData.clear();
+  geographyCache.customMeshes.clear();
 }
 
 // Performance monitoring for cache hit rates
@@ -288,16 +337,58 @@ export function getCachedMeshDataWithMetrics(
 
 // Aggressive caching functions using WeakMap for memory efficiency
 
+function getVariantEntry<T extends { timestamp: number }>(
+  cache: WeakMap<object, Map<string, T>>,
+  owner: object,
+  variantKey: string,
+): T | null {
+  const cached = cache.get(owner)?.get(variantKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_CONFIG.TTL) {
+    return cached;
+  }
+  return null;
+}
+
+function setVariantEntry<T>(
+  cache: WeakMap<object, Map<string, T>>,
+  owner: object,
+  variantKey: string,
+  entry: T,
+): void {
+  let variants = cache.get(owner);
+  if (!variants) {
+    variants = new Map();
+    cache.set(owner, variants);
+  }
+
+  // Limit variants per object, evicting the oldest first
+  variants.delete(variantKey);
+  if (variants.size >= CACHE_CONFIG.MAX_SIZES.variants) {
+    const firstKey = variants.keys().next().value;
+    if (firstKey !== undefined) {
+      variants.delete(firstKey);
+    }
+  }
+
+  variants.set(variantKey, entry);
+}
+
 /**
- * Get cached geography data using WeakMap for object-based keys
+ * Get cached geography data using WeakMap for object-based keys.
+ * `variantKey` distinguishes extractions of the same object (e.g. per TopoJSON object name).
  */
 export function getCachedGeographyData(
   geographyObject: FeatureCollection | Topology,
+  variantKey: string = 'default',
 ): { features: Feature<Geometry>[]; mesh: unknown } | null {
   if (!CACHE_CONFIG.ENABLE_WEAKMAP_CACHE) return null;
 
-  const cached = weakMapCaches.geographyDataCache.get(geographyObject);
-  if (cached && Date.now() - cached.timestamp < CACHE_CONFIG.TTL) {
+  const cached = getVariantEntry(
+    weakMapCaches.geographyDataCache,
+    geographyObject,
+    variantKey,
+  );
+  if (cached) {
     return {
       features: cached.features,
       mesh: cached.mesh,
@@ -313,14 +404,20 @@ export function cacheGeographyData(
   geographyObject: FeatureCollection | Topology,
   features: Feature<Geometry>[],
   mesh: unknown,
+  variantKey: string = 'default',
 ): void {
   if (!CACHE_CONFIG.ENABLE_WEAKMAP_CACHE) return;
 
-  weakMapCaches.geographyDataCache.set(geographyObject, {
-    features,
-    mesh: mesh as { outline: unknown; borders: unknown } | null,
-    timestamp: Date.now(),
-  });
+  setVariantEntry(
+    weakMapCaches.geographyDataCache,
+    geographyObject,
+    variantKey,
+    {
+      features,
+      mesh: mesh as { outline: unknown; borders: unknown } | null,
+      timestamp: Date.now(),
+    },
+  );
 }
 
 /**
@@ -329,18 +426,16 @@ export function cacheGeographyData(
 export function getCachedPreparedFeaturesWeakMap(
   geographyObject: FeatureCollection | Topology,
   pathFunctionToken: string,
+  variantKey: string = 'default',
 ): PreparedFeature[] | null {
   if (!CACHE_CONFIG.ENABLE_WEAKMAP_CACHE) return null;
 
-  const cached = weakMapCaches.preparedFeaturesCache.get(geographyObject);
-  if (
-    cached &&
-    cached.pathFunction === pathFunctionToken &&
-    Date.now() - cached.timestamp < CACHE_CONFIG.TTL
-  ) {
-    return cached.prepared;
-  }
-  return null;
+  const cached = getVariantEntry(
+    weakMapCaches.preparedFeaturesCache,
+    geographyObject,
+    `${pathFunctionToken}:${variantKey}`,
+  );
+  return cached ? cached.prepared : null;
 }
 
 /**
@@ -350,14 +445,16 @@ export function cachePreparedFeaturesWeakMap(
   geographyObject: FeatureCollection | Topology,
   prepared: PreparedFeature[],
   pathFunctionToken: string,
+  variantKey: string = 'default',
 ): void {
   if (!CACHE_CONFIG.ENABLE_WEAKMAP_CACHE) return;
 
-  weakMapCaches.preparedFeaturesCache.set(geographyObject, {
-    prepared,
-    pathFunction: pathFunctionToken,
-    timestamp: Date.now(),
-  });
+  setVariantEntry(
+    weakMapCaches.preparedFeaturesCache,
+    geographyObject,
+    `${pathFunctionToken}:${variantKey}`,
+    { prepared, timestamp: Date.now() },
+  );
 }
 
 /**
@@ -414,6 +511,7 @@ export function clearAggressiveCaches(): void {
   geographyCache.features.clear();
   geographyCache.preparedFeatures.clear();
   geographyCache.meshData.clear();
+  geographyCache.customMeshes.clear();
 }
 
 // Get cache statistics for debugging
@@ -421,12 +519,14 @@ export function getCacheStats(): {
   features: number;
   preparedFeatures: number;
   meshData: number;
+  customMeshes: number;
   config: typeof CACHE_CONFIG;
 } {
   return {
     features: geographyCache.features.size(),
     preparedFeatures: geographyCache.preparedFeatures.size(),
     meshData: geographyCache.meshData.size(),
+    customMeshes: geographyCache.customMeshes.size(),
     config: CACHE_CONFIG,
   };
 }
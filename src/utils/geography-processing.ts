@@ -8,7 +8,8 @@ import {
 } from 'geojson';
 import { Topology } from 'topojson-specification';
 import { GeoPath } from 'd3-geo';
-import { PreparedFeature } from '../types';
+import { MeshFilter, PreparedFeature, TopologyObjectName } from '../types';
+import { createGeographyFetchError } from './error-utils';
 
 type MeshGeometry = MultiLineString | LineString;
 
@@ -23,35 +24,85 @@ export function isString(
   return typeof geo === 'string';
 }
 
+/**
+ * Normalizes a TopoJSON object selection into a list of object names
+ * @param objectName - Object name or list of object names
+ * @returns Array of object names, or null when no selection was made
+ */
+export function normalizeObjectNames(
+  objectName?: TopologyObjectName,
+): string[] | null {
+  if (objectName === undefined) {
+    return null;
+  }
+
+  return typeof objectName === 'string' ? [objectName] : [...objectName];
+}
+
+/**
+ * Resolves the geometry objects to read from a topology
+ * @param topology - Topology object
+ * @param objectName - Optional object name or list of names (defaults to the first object)
+ * @returns Array of geometry objects
+ * @throws VALIDATION_ERROR when a named object does not exist in the topology
+ */
+function resolveTopologyObjects(
+  topology: Topology,
+  objectName?: TopologyObjectName,
+): Topology['objects'][string][] {
+  const objectKeys = Object.keys(topology.objects);
+  const objectNames = normalizeObjectNames(objectName);
+
+  if (objectNames === null) {
+    // Get the first object (usually countries, states, etc.)
+    const firstObjectKey = objectKeys[0];
+    const firstObject = firstObjectKey
+      ? topology.objects[firstObjectKey]
+      : undefined;
+    return firstObject ? [firstObject] : [];
+  }
+
+  return objectNames.map((name) => {
+    const geometryObject = Object.hasOwn(topology.objects, name)
+      ? topology.objects[name]
+      : undefined;
+
+    if (!geometryObject) {
+      const error = createGeographyFetchError(
+        'VALIDATION_ERROR',
+        `TopoJSON object "${name}" not found. Available objects: ${
+          objectKeys.length > 0 ? objectKeys.join(', ') : '(none)'
+        }`,
+      );
+      error.details = { objectName: name, availableObjects: objectKeys };
+      throw error;
+    }
+
+    return geometryObject;
+  });
+}
+
 /**
  * Extracts features from topology data
  * @param topology - Topology object
  * @param parseGeographies - Optional parser function
+ * @param objectName - Optional object name or list of names to extract
  * @returns Array of features
  */
 function extractFeaturesFromTopology(
   topology: Topology,
   parseGeographies?: (geographies: Feature<Geometry>[]) => Feature<Geometry>[],
+  objectName?: TopologyObjectName,
 ): Feature<Geometry>[] {
-  const objectKeys = Object.keys(topology.objects);
-  if (objectKeys.length === 0) {
-    return [];
-  }
-
-  // Get the first object (usually countries, states, etc.)
-  const firstObjectKey = objectKeys[0];
-  if (!firstObjectKey) {
-    return [];
-  }
-
-  const geometryObject = topology.objects[firstObjectKey];
-  if (!geometryObject) {
-    return [];
-  }
+  const features = resolveTopologyObjects(topology, objectName).flatMap(
+    (geometryObject) => {
+      const featureCollection = feature(topology, geometryObject);
+      return 'features' in featureCollection
+        ? featureCollection.features || []
+        : [featureCollection];
+    },
+  );
 
-  const featureCollection = feature(topology, geometryObject);
-  const features =
-    'features' in featureCollection ? featureCollection.features || [] : [];
   return parseGeographies ? parseGeographies(features) : features;
 }
 
@@ -73,11 +124,13 @@ function extractFeaturesFromCollection(
  * Extracts features from various geography data formats
  * @param geographies - Geography data (Topology, FeatureCollection, or Feature array)
  * @param parseGeographies - Optional parser function for features
+ * @param objectName - Optional TopoJSON object name or list of names (Topology only)
  * @returns Array of features
  */
 export function getFeatures(
   geographies: Topology | FeatureCollection | Feature<Geometry>[],
   parseGeographies?: (geographies: Feature<Geometry>[]) => Feature<Geometry>[],
+  objectName?: TopologyObjectName,
 ): Feature<Geometry>[] {
   // Handle array of features
   if (Array.isArray(geographies)) {
@@ -86,7 +139,11 @@ export function getFeatures(
 
   // Handle Topology
   if (geographies.type === 'Topology') {
-    return extractFeaturesFromTopology(geographies, parseGeographies);
+    return extractFeaturesFromTopology(
+      geographies,
+      parseGeographies,
+      objectName,
+    );
   }
 
   // Handle FeatureCollection
@@ -98,45 +155,78 @@ export function getFeatures(
 }
 
 /**
- * Extracts mesh data from topology for borders and outlines
- * @param topology - Topology object
- * @returns Mesh data with outline and borders, or null if not available
+ * Combines mesh geometries from several topology objects into one
+ * @param geometries - Mesh geometries to combine
+ * @returns Combined MultiLineString geometry
  */
-function extractMeshFromTopology(topology: Topology): {
-  outline: MeshGeometry | null;
-  borders: MeshGeometry | null;
-} | null {
-  const objectKeys = Object.keys(topology.objects);
-  if (objectKeys.length === 0) {
-    return null;
+function mergeMeshGeometries(geometries: MeshGeometry[]): MeshGeometry {
+  if (geometries.length === 1 && geometries[0]) {
+    return geometries[0];
   }
 
-  const firstObjectKey = objectKeys[0];
-  if (!firstObjectKey) {
+  return {
+    type: 'MultiLineString',
+    coordinates: geometries.flatMap((geometry) =>
+      geometry.type === 'MultiLineString'
+        ? geometry.coordinates
+        : [geometry.coordinates],
+    ),
+  };
+}
+
+/**
+ * Builds a filtered mesh over each geometry object and combines the results
+ * @param topology - Topology object
+ * @param geometryObjects - Geometry objects to mesh
+ * @param filter - Arc filter receiving the geometries on either side of an arc
+ * @returns Combined mesh geometry
+ */
+function meshTopologyObjects(
+  topology: Topology,
+  geometryObjects: Topology['objects'][string][],
+  filter: MeshFilter,
+): MeshGeometry {
+  return mergeMeshGeometries(
+    geometryObjects.map(
+      (geometryObject) =>
+        mesh(
+          topology,
+          geometryObject as Parameters<typeof mesh>[1],
+          filter,
+        ) as MeshGeometry,
+    ),
+  );
+}
+
+/**
+ * Extracts a mesh using a custom arc filter, e.g. only borders between
+ * countries on different continents
+ * @param geographies - Geography data (only Topology supports mesh)
+ * @param filter - Arc filter `(a, b) => boolean`; `a === b` for exterior arcs
+ * @param objectName - Optional TopoJSON object name or list of names
+ * @returns Mesh geometry or null
+ */
+export function getFilteredMesh(
+  geographies: Topology | FeatureCollection | Feature<Geometry>[],
+  filter: MeshFilter,
+  objectName?: TopologyObjectName,
+): MeshGeometry | null {
+  if (
+    !geographies ||
+    typeof geographies !== 'object' ||
+    Array.isArray(geographies) ||
+    geographies.type !== 'Topology'
+  ) {
     return null;
   }
 
-  const geometryObject = topology.objects[firstObjectKey];
-  if (!geometryObject) {
+  const geometryObjects = resolveTopologyObjects(geographies, objectName);
+  if (geometryObjects.length === 0) {
     return null;
   }
 
   try {
-    // Generate outline (exterior boundaries)
-    const outline = mesh(
-      topology,
-      geometryObject as Parameters<typeof mesh>[1],
-      (a, b) => a === b,
-    ) as MeshGeometry;
-
-    // Generate borders (interior boundaries)
-    const borders = mesh(
-      topology,
-      geometryObject as Parameters<typeof mesh>[1],
-      (a, b) => a !== b,
-    ) as MeshGeometry;
-
-    return { outline, borders };
+    return meshTopologyObjects(geographies, geometryObjects, filter);
   } catch {
     return null;
   }
@@ -145,23 +235,20 @@ function extractMeshFromTopology(topology: Topology): {
 /**
  * Extracts mesh data from geography data
  * @param geographies - Geography data (only Topology supports mesh)
- * @returns Mesh data or null
+ * @param objectName - Optional TopoJSON object name or list of names
+ * @returns Mesh data with outline and borders, or null if not available
  */
 export function getMesh(
   geographies: Topology | FeatureCollection | Feature<Geometry>[],
+  objectName?: TopologyObjectName,
 ): { outline: MeshGeometry | null; borders: MeshGeometry | null } | null {
-  // Only Topology supports mesh generation
-  if (
-    geographies &&
-    typeof geographies === 'object' &&
-    !Array.isArray(geographies) &&
-    'type' in geographies &&
-    geographies.type === 'Topology'
-  ) {
-    return extractMeshFromTopology(geographies as Topology);
-  }
+  // Generate outline (exterior boundaries)
+  const outline = getFilteredMesh(geographies, (a, b) => a === b, objectName);
 
-  return null;
+  // Generate borders (interior boundaries)
+  const borders = getFilteredMesh(geographies, (a, b) => a !== b, objectName);
+
+  return outline || borders ? { outline, borders } : null;
 }
 
 /**
@@ -256,15 +343,31 @@ function getUniqueFallbackRsmKey(
   return getUniqueRsmKey(`geo-${index}`, [usedKeys, reservedExplicitKeys]);
 }
 
+/**
+ * Checks whether a feature projects to anything without building its path string
+ * @param feature - Feature to test
+ * @param path - D3 path generator
+ * @returns True when the projected bounds are finite
+ */
+function hasProjectedExtent(
+  feature: Feature<Geometry>,
+  path: GeoPath,
+): boolean {
+  const [[x0, y0], [x1, y1]] = path.bounds(feature);
+  return x0 <= x1 && y0 <= y1;
+}
+
 /**
  * Prepares features by generating SVG paths for each feature
  * @param features - Array of features to prepare
  * @param path - D3 path generator
+ * @param options - Set `svgPaths: false` to skip path strings (canvas rendering)
  * @returns Array of prepared features with SVG paths
  */
 export function prepareFeatures(
   features: Feature<Geometry>[] | undefined,
   path: GeoPath,
+  { svgPaths = true }: { svgPaths?: boolean } = {},
 ): PreparedFeature[] {
   if (!features || features.length === 0) {
     return [];
@@ -272,8 +375,12 @@ export function prepareFeatures(
 
   const preparedCandidates = features
     .map((feature, index) => {
-      const svgPath = path(feature);
-      if (!svgPath) {
+      const svgPath = svgPaths
+        ? path(feature)
+        : hasProjectedExtent(feature, path)
+          ? ''
+          : null;
+      if (svgPath === null || (svgPaths && !svgPath)) {
         return null;
       }
 
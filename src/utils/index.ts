@@ -11,6 +11,7 @@ export {
   // Geography processing
   getFeatures,
   getMesh,
+  getFilteredMesh,
   prepareMesh,
   prepareFeatures,
   createConnectorPath,
@@ -1,6 +1,11 @@
 import { createGeographyFetchError } from './error-utils';
 import { createRotationAngles, createParallels } from '../types';
-import type { Coordinates, ProjectionConfig } from '../types';
+import type {
+  Coordinates,
+  ProjectedExtent,
+  ProjectionConfig,
+  ProjectionFitTarget,
+} from '../types';
 
 /**
  * Input validation configuration
@@ -304,6 +309,99 @@ export function validateObject(
   return validated;
 }
 
+/**
+ * Validate boolean input
+ * @param input - Value to validate
+ * @param name - Setting name for the error message
+ * @returns Validated boolean
+ */
+function validateBoolean(input: unknown, name: string): boolean {
+  if (typeof input !== 'boolean') {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      `${name} must be a boolean, got ${typeof input}`,
+    );
+  }
+
+  return input;
+}
+
+/**
+ * Validate a projected extent
+ * @param input - [[x0, y0], [x1, y1]] with x0 <= x1 and y0 <= y1
+ * @returns Validated extent
+ */
+function validateExtent(input: unknown): ProjectedExtent {
+  const corners = validateArray(input, (corner) =>
+    validateArray(corner, (value) => validateNumber(value)),
+  );
+  const [topLeft, bottomRight] = corners;
+  if (
+    corners.length !== 2 ||
+    topLeft?.length !== 2 ||
+    bottomRight?.length !== 2
+  ) {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      'Extent must be [[x0, y0], [x1, y1]]',
+    );
+  }
+
+  const [x0, y0] = topLeft as [number, number];
+  const [x1, y1] = bottomRight as [number, number];
+  if (x0 > x1 || y0 > y1) {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      `Extent corners are out of order: [[${x0}, ${y0}], [${x1}, ${y1}]]`,
+    );
+  }
+
+  return [
+    [x0, y0],
+    [x1, y1],
+  ];
+}
+
+/**
+ * Validate a projection fit target
+ * @param input - Feature, FeatureCollection or [[west, south], [east, north]]
+ * @returns Validated fit target
+ */
+function validateFitTarget(input: unknown): ProjectionFitTarget {
+  if (Array.isArray(input)) {
+    if (input.length !== 2) {
+      throw createGeographyFetchError(
+        'VALIDATION_ERROR',
+        'fitTo bounds must be [[west, south], [east, north]]',
+      );
+    }
+
+    const southWest = validateCoordinates(input[0]);
+    const northEast = validateCoordinates(input[1]);
+    if (southWest[1] > northEast[1]) {
+      throw createGeographyFetchError(
+        'VALIDATION_ERROR',
+        `fitTo bounds south (${southWest[1]}) must not exceed north (${northEast[1]})`,
+      );
+    }
+
+    return [southWest, northEast];
+  }
+
+  const type =
+    typeof input === 'object' && input !== null
+      ? (input as Record<string, unknown>).type
+      : undefined;
+  if (type !== 'Feature' && type !== 'FeatureCollection') {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      'fitTo must be a Feature, a FeatureCollection or [[west, south], [east, north]] bounds',
+    );
+  }
+
+  return input as ProjectionFitTarget;
+}
+
 /**
  * Validate projection configuration
  * @param input - Projection config to validate
@@ -342,21 +440,53 @@ export function validateProjectionConfig(input: unknown): ProjectionConfig {
   }
 
   if (Object.hasOwn(obj, 'parallels') && obj.parallels !== undefined) {
-    if (Array.isArray(obj.parallels)) {
-      const parallelsArray = validateArray(obj.parallels, (item) =>
-        validateNumber(item, -90, 90),
+    const parallelsArray = validateArray(obj.parallels, (item) =>
+      validateNumber(item, -90, 90),
+    );
+    const [first, second] = parallelsArray;
+    if (
+      parallelsArray.length !== 2 ||
+      first === undefined ||
+      second === undefined
+    ) {
+      throw createGeographyFetchError(
+        'VALIDATION_ERROR',
+        'parallels must be a pair of latitudes',
       );
-      if (
-        parallelsArray.length === 2 &&
-        parallelsArray[0] !== undefined &&
-        parallelsArray[1] !== undefined
-      ) {
-        config.parallels = createParallels(
-          parallelsArray[0],
-          parallelsArray[1],
-        );
-      }
     }
+    config.parallels = createParallels(first, second);
+  }
+
+  if (Object.hasOwn(obj, 'clipAngle') && obj.clipAngle !== undefined) {
+    config.clipAngle = validateNumber(obj.clipAngle, 0, 180);
+  }
+
+  if (Object.hasOwn(obj, 'clipExtent') && obj.clipExtent !== undefined) {
+    config.clipExtent = validateExtent(obj.clipExtent);
+  }
+
+  if (Object.hasOwn(obj, 'precision') && obj.precision !== undefined) {
+    config.precision = validateNumber(obj.precision, 0, 100);
+  }
+
+  if (Object.hasOwn(obj, 'reflectX') && obj.reflectX !== undefined) {
+    config.reflectX = validateBoolean(obj.reflectX, 'reflectX');
+  }
+
+  if (Object.hasOwn(obj, 'reflectY') && obj.reflectY !== undefined) {
+    config.reflectY = validateBoolean(obj.reflectY, 'reflectY');
+  }
+
+  if (Object.hasOwn(obj, 'angle') && obj.angle !== undefined) {
+    config.angle = validateNumber(obj.angle, -360, 360);
+  }
+
+  if (Object.hasOwn(obj, 'fitTo') && obj.fitTo !== undefined) {
+    config.fitTo = validateFitTarget(obj.fitTo);
+  }
+
+  if (Object.hasOwn(obj, 'fitPadding') && obj.fitPadding !== undefined) {
+    config.fitPadding = validateNumber(obj.fitPadding, 0, 10000);
   }
 
   return config;
@@ -0,0 +1,85 @@
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+const ARROW_KEY_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// Perpendicular offsets count this much more than distance along the arrow
+const OFF_AXIS_WEIGHT = 2;
+
+/**
+ * Activates an element from the keyboard the way browsers activate buttons:
+ * by dispatching a click, so click handlers keep receiving mouse events
+ * @param element - Element to click
+ * @param modifiers - Keyboard event whose modifier keys the click carries
+ */
+export function dispatchKeyboardClick(
+  element: Element,
+  {
+    shiftKey,
+    ctrlKey,
+    metaKey,
+    altKey,
+  }: Pick<KeyboardEvent, 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+): void {
+  element.dispatchEvent(
+    new MouseEvent('click', {
+      bubbles: true,
+      cancelable: true,
+      shiftKey,
+      ctrlKey,
+      metaKey,
+      altKey,
+    }),
+  );
+}
+
+/**
+ * Maps an arrow key to a navigation direction
+ * @param key - KeyboardEvent.key
+ * @returns Direction, or null for other keys
+ */
+export function getArrowKeyDirection(key: string): NavigationDirection | null {
+  return Object.hasOwn(ARROW_KEY_DIRECTIONS, key)
+    ? (ARROW_KEY_DIRECTIONS[key] ?? null)
+    : null;
+}
+
+/**
+ * Finds the nearest point within 45 degrees of a direction, preferring points
+ * close to the axis of movement
+ * @param from - Starting point in screen space (y grows downward)
+ * @param points - Candidates; null entries are skipped
+ * @param direction - Direction of movement
+ * @returns Index of the nearest candidate, or -1 when none lies that way
+ */
+export function findNearestInDirection(
+  [x, y]: [number, number],
+  points: ReadonlyArray<[number, number] | null>,
+  direction: NavigationDirection,
+): number {
+  let nearest = -1;
+  let nearestScore = Infinity;
+
+  points.forEach((point, index) => {
+    if (!point) return;
+    const dx = point[0] - x;
+    const dy = point[1] - y;
+    const [along, across] =
+      direction === 'left' || direction === 'right' ? [dx, dy] : [dy, dx];
+    const forward =
+      direction === 'right' || direction === 'down' ? along : -along;
+    if (!(forward > 0) || Math.abs(across) > forward) return;
+
+    const score = forward + OFF_AXIS_WEIGHT * Math.abs(across);
+    if (score < nearestScore) {
+      nearest = index;
+      nearestScore = score;
+    }
+  });
+
+  return nearest;
+}
@@ -0,0 +1,137 @@
+import { GeoProjection } from 'd3-geo';
+import { Coordinates, PointCluster, createCoordinates } from '../types';
+import { isProjectedPointVisible } from './coordinate-utils';
+
+export interface ProjectedPoint<T> {
+  point: T;
+  index: number;
+  x: number;
+  y: number;
+  coordinates: Coordinates;
+}
+
+/**
+ * Projects points once so they can be re-clustered at every zoom level
+ * @param points - Source points
+ * @param getCoordinates - Reads [longitude, latitude] from a point
+ * @param projection - Map projection
+ * @returns Points with projected positions; points the projection cannot place
+ * or clips, such as those on the far side of a globe, are dropped
+ */
+export function projectPoints<T>(
+  points: readonly T[],
+  getCoordinates: (point: T) => Coordinates,
+  projection: GeoProjection,
+): ProjectedPoint<T>[] {
+  const projected: ProjectedPoint<T>[] = [];
+  points.forEach((point, index) => {
+    const coordinates = getCoordinates(point);
+    const position = projection(coordinates);
+    if (!position || !Number.isFinite(position[0] + position[1])) return;
+    if (!isProjectedPointVisible(coordinates, projection)) return;
+    projected.push({
+      point,
+      index,
+      x: position[0],
+      y: position[1],
+      coordinates,
+    });
+  });
+  return projected;
+}
+
+/**
+ * Greedily groups projected points that are within `radius` screen pixels of
+ * a cluster's first point
+ * @param projected - Points from projectPoints
+ * @param radius - Cluster radius in screen pixels
+ * @param k - Current zoom scale; map units are multiplied by k on screen
+ * @param projection - Used to place cluster centroids back on the globe
+ * @returns Clusters in source order; unclustered points are clusters of one
+ */
+export function clusterPoints<T>(
+  projected: readonly ProjectedPoint<T>[],
+  radius: number,
+  k: number,
+  projection: GeoProjection,
+): PointCluster<T>[] {
+  // Bucket points into a grid of radius-sized cells in map units, so each
+  // point only needs to be compared with its neighbouring cells
+  const cellSize = radius > 0 && k > 0 ? radius / k : 0;
+  const cellOf = (value: number) =>
+    cellSize > 0 ? Math.floor(value / cellSize) : 0;
+  const grid = new Map<string, number[]>();
+
+  if (cellSize > 0) {
+    projected.forEach(({ x, y }, index) => {
+      const key = `${cellOf(x)}:${cellOf(y)}`;
+      const cell = grid.get(key);
+      if (cell) cell.push(index);
+      else grid.set(key, [index]);
+    });
+  }
+
+  const assigned = new Uint8Array(projected.length);
+  const clusters: PointCluster<T>[] = [];
+
+  projected.forEach((seed, seedIndex) => {
+    if (assigned[seedIndex]) return;
+    assigned[seedIndex] = 1;
+    const members = [seed];
+
+    if (cellSize > 0) {
+      const column = cellOf(seed.x);
+      const row = cellOf(seed.y);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (const index of grid.get(`${column + dx}:${row + dy}`) ?? []) {
+            if (assigned[index]) continue;
+            const candidate = projected[index] as ProjectedPoint<T>;
+            if (
+              Math.hypot(candidate.x - seed.x, candidate.y - seed.y) <= cellSize
+            ) {
+              assigned[index] = 1;
+              members.push(candidate);
+            }
+          }
+        }
+      }
+    }
+
+    let x0 = Infinity;
+    let y0 = Infinity;
+    let x1 = -Infinity;
+    let y1 = -Infinity;
+    let sumX = 0;
+    let sumY = 0;
+    for (const member of members) {
+      x0 = Math.min(x0, member.x);
+      y0 = Math.min(y0, member.y);
+      x1 = Math.max(x1, member.x);
+      y1 = Math.max(y1, member.y);
+      sumX += member.x;
+      sumY += member.y;
+    }
+
+    const x = sumX / members.length;
+    const y = sumY / members.length;
+    const inverted = members.length > 1 ? projection.invert?.([x, y]) : null;
+
+    clusters.push({
+      id: members.length > 1 ? `cluster-${seed.index}` : `point-${seed.index}`,
+      points: members.map((member) => member.point),
+      count: members.length,
+      x,
+      y,
+      coordinates: inverted
+        ? createCoordinates(inverted[0], inverted[1])
+        : seed.coordinates,
+      extent: [
+        [x0, y0],
+        [x1, y1],
+      ],
+    });
+  });
+
+  return clusters;
+}
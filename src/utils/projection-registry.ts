@@ -0,0 +1,126 @@
+import * as d3Geo from 'd3-geo';
+import { createGeographyFetchError } from './error-utils';
+import type {
+  ProjectionFactories,
+  ProjectionFactory,
+  ProjectionName,
+} from '../types';
+
+const BUILT_IN_PROJECTION_PATTERN = /^geo[A-Za-z0-9]+$/;
+const REGISTERED_PROJECTION_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+
+// d3-geo exports that are not projection factories (raw projections end in Raw)
+const NON_PROJECTION_EXPORTS = new Set([
+  'geoArea',
+  'geoBounds',
+  'geoCentroid',
+  'geoCircle',
+  'geoClipAntimeridian',
+  'geoClipCircle',
+  'geoClipExtent',
+  'geoClipRectangle',
+  'geoContains',
+  'geoDistance',
+  'geoGraticule',
+  'geoGraticule10',
+  'geoInterpolate',
+  'geoLength',
+  'geoPath',
+  'geoProjection',
+  'geoProjectionMutator',
+  'geoRotation',
+  'geoStream',
+  'geoTransform',
+]);
+
+const isBuiltInProjectionName = (name: string): boolean =>
+  BUILT_IN_PROJECTION_PATTERN.test(name) &&
+  !name.endsWith('Raw') &&
+  !NON_PROJECTION_EXPORTS.has(name);
+
+const builtInProjections = d3Geo as unknown as Record<string, unknown>;
+const registeredProjections = new Map<string, ProjectionFactory>();
+
+/**
+ * Makes a projection available by name to every map
+ * @param name - Projection name; names not starting with `geo` need a
+ * `ProjectionRegistry` augmentation to type-check
+ * @param factory - Returns a new projection instance on each call
+ * @returns Function that removes this registration
+ */
+export function registerProjection(
+  name: ProjectionName,
+  factory: ProjectionFactory,
+): () => void {
+  if (typeof name !== 'string' || !REGISTERED_PROJECTION_PATTERN.test(name)) {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      `Invalid projection name: ${String(name)}`,
+    );
+  }
+
+  if (typeof factory !== 'function') {
+    throw createGeographyFetchError(
+      'VALIDATION_ERROR',
+      `Projection factory for ${name} must be a function`,
+    );
+  }
+
+  registeredProjections.set(name, factory);
+
+  return () => {
+    if (registeredProjections.get(name) === factory) {
+      registeredProjections.delete(name);
+    }
+  };
+}
+
+/**
+ * Resolves a projection name, checking a map's own registry first, then
+ * registered projections, then d3-geo
+ * @param name - Projection name
+ * @param registry - Projections of a single map
+ * @returns Projection factory, or undefined when the name is unknown
+ */
+export function resolveProjectionFactory(
+  name: string,
+  registry?: ProjectionFactories,
+): ProjectionFactory | undefined {
+  if (registry && Object.hasOwn(registry, name)) {
+    return registry[name];
+  }
+
+  const registered = registeredProjections.get(name);
+  if (registered) return registered;
+
+  if (
+    isBuiltInProjectionName(name) &&
+    Object.hasOwn(builtInProjections, name) &&
+    typeof builtInProjections[name] === 'function'
+  ) {
+    return builtInProjections[name] as ProjectionFactory;
+  }
+
+  return undefined;
+}
+
+/**
+ * Lists every projection name that resolves
+ * @param registry - Projections of a single map
+ * @returns d3-geo names followed by registered ones
+ */
+export function getAvailableProjections(
+  registry?: ProjectionFactories,
+): string[] {
+  const builtIn = Object.keys(builtInProjections).filter(
+    isBuiltInProjectionName,
+  );
+
+  return [
+    ...new Set([
+      ...builtIn,
+      ...registeredProjections.keys(),
+      ...Object.keys(registry ?? {}),
+    ]),
+  ];
+}
@@ -0,0 +1,185 @@
+import { CSSProperties } from 'react';
+import { GeoProjection, geoPath } from 'd3-geo';
+import { Feature, Geometry } from 'geojson';
+import { ConditionalStyle, SelectableItem, StyleVariant } from '../types';
+import { isProjectedPointVisible } from './coordinate-utils';
+
+type Point = [number, number];
+
+/**
+ * Resolves the style for an interaction variant, with the 'selected' variant
+ * layered on top while the feature is selected
+ * @param style - Conditional style of a geography or marker
+ * @param variant - Current interaction variant
+ * @param selected - Whether the feature is selected
+ * @returns The style to apply, or undefined when none is set
+ */
+export function getVariantStyle(
+  style: ConditionalStyle<CSSProperties>,
+  variant: StyleVariant,
+  selected: boolean,
+): CSSProperties | undefined {
+  if (!selected || !style.selected) return style[variant];
+  return { ...style[variant], ...style.selected };
+}
+
+/**
+ * Projects a feature to the rings drawn for it, after clipping and resampling
+ * @param geography - GeoJSON feature
+ * @param projection - Map projection
+ * @returns Rings in untransformed map (projection) space; points are single-vertex rings
+ */
+export function getProjectedRings(
+  geography: Feature<Geometry>,
+  projection: GeoProjection,
+): Point[][] {
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+
+  geoPath(projection, {
+    beginPath: () => {},
+    moveTo: (x, y) => {
+      ring = [[x, y]];
+      rings.push(ring);
+    },
+    lineTo: (x, y) => {
+      ring.push([x, y]);
+    },
+    // Point geometries draw a circle that starts radius to the right of them
+    arc: (x, y) => {
+      ring.length = 0;
+      ring.push([x, y]);
+    },
+    closePath: () => {},
+  })(geography);
+
+  return rings;
+}
+
+/**
+ * Tests a point against a polygon with the even-odd rule
+ * @param point - Point to test
+ * @param rings - One or more rings; holes are rings inside another ring
+ * @returns True when the point is inside
+ */
+export function isPointInPolygon([x, y]: Point, rings: readonly Point[][]) {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i] as Point;
+      const [xj, yj] = ring[j] as Point;
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+function getBounds(points: readonly Point[]): [Point, Point] {
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  for (const [x, y] of points) {
+    x0 = Math.min(x0, x);
+    y0 = Math.min(y0, y);
+    x1 = Math.max(x1, x);
+    y1 = Math.max(y1, y);
+  }
+  return [
+    [x0, y0],
+    [x1, y1],
+  ];
+}
+
+function cross([ax, ay]: Point, [bx, by]: Point, [cx, cy]: Point) {
+  return (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+}
+
+function doSegmentsCross(a: Point, b: Point, c: Point, d: Point) {
+  return (
+    cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0
+  );
+}
+
+function doRingsCross(a: readonly Point[], b: readonly Point[]) {
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      if (
+        doSegmentsCross(
+          a[j] as Point,
+          a[i] as Point,
+          b[l] as Point,
+          b[k] as Point,
+        )
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Tests whether a projected shape and a selection polygon overlap
+ * @param rings - Projected rings of the shape (see getProjectedRings)
+ * @param polygon - Closed selection outline in the same space
+ * @returns True when either contains part of the other or their edges cross
+ */
+export function doesShapeOverlapPolygon(
+  rings: readonly Point[][],
+  polygon: readonly Point[],
+): boolean {
+  const vertices = rings.flat();
+  if (polygon.length < 3 || vertices.length === 0) return false;
+
+  const [[px0, py0], [px1, py1]] = getBounds(polygon);
+  const [[sx0, sy0], [sx1, sy1]] = getBounds(vertices);
+  if (sx1 < px0 || sx0 > px1 || sy1 < py0 || sy0 > py1) return false;
+
+  const outline = [polygon as Point[]];
+  if (vertices.some((vertex) => isPointInPolygon(vertex, outline))) {
+    return true;
+  }
+  // A polygon drawn entirely inside a large feature
+  if (isPointInPolygon(polygon[0] as Point, rings)) return true;
+  return rings.some((ring) => doRingsCross(ring, polygon));
+}
+
+/**
+ * Finds the selectable items a selection polygon overlaps
+ * @param items - Registered geographies and markers
+ * @param polygon - Selection outline in untransformed map (projection) space
+ * @param projection - Map projection
+ * @param getRings - Projected rings of a geography, usually cached
+ * @returns Keys of the items hit, without duplicates, in registration order
+ */
+export function findItemsInPolygon(
+  items: readonly SelectableItem[],
+  polygon: readonly Point[],
+  projection: GeoProjection,
+  getRings: (geography: Feature<Geometry>) => Point[][] = (geography) =>
+    getProjectedRings(geography, projection),
+): string[] {
+  const keys = new Set<string>();
+  for (const item of items) {
+    if (keys.has(item.key)) continue;
+    if ('geography' in item) {
+      if (doesShapeOverlapPolygon(getRings(item.geography), polygon)) {
+        keys.add(item.key);
+      }
+      continue;
+    }
+    // Markers on the far side of a globe cannot be lassoed
+    const point = projection(item.coordinates);
+    if (
+      point &&
+      isProjectedPointVisible(item.coordinates, projection) &&
+      isPointInPolygon(point, [polygon as Point[]])
+    ) {
+      keys.add(item.key);
+    }
+  }
+  return Array.from(keys);
+}
@@ -0,0 +1,74 @@
+import { GeoPath } from 'd3-geo';
+import { Topology } from 'topojson-specification';
+import { TopologyLayer } from '../types';
+import {
+  getFeatures,
+  getMesh,
+  prepareFeatures,
+  prepareMesh,
+} from './geography-processing';
+import {
+  cacheFeatures,
+  getCachedFeatures,
+  cachePreparedFeatures,
+  getCachedPreparedFeatures,
+  cacheMeshData,
+  getCachedMeshData,
+  generateFeaturesCacheKey,
+  generatePreparedFeaturesCacheKey,
+  generateMeshCacheKey,
+} from './geography-cache';
+
+/**
+ * Prepares a single TopoJSON object as a renderable layer. Features, prepared
+ * paths and mesh paths are cached per object, so several layers of one
+ * topology share a single download and each object is only parsed once.
+ * @param topology - Topology object
+ * @param objectName - Name of the object in `topology.objects`
+ * @param path - D3 path generator
+ * @returns Prepared features with outline and borders paths
+ * @throws VALIDATION_ERROR when the object does not exist in the topology
+ */
+export function prepareTopologyLayer(
+  topology: Topology,
+  objectName: string,
+  path: GeoPath,
+): TopologyLayer {
+  const featuresCacheKey = generateFeaturesCacheKey(
+    topology,
+    undefined,
+    objectName,
+  );
+  let features = getCachedFeatures(featuresCacheKey);
+  if (!features) {
+    features = getFeatures(topology, undefined, objectName);
+    cacheFeatures(featuresCacheKey, features);
+  }
+
+  const preparedCacheKey = generatePreparedFeaturesCacheKey(features, path);
+  let geographies = getCachedPreparedFeatures(preparedCacheKey);
+  if (!geographies) {
+    geographies = prepareFeatures(features, path);
+    cachePreparedFeatures(preparedCacheKey, geographies);
+  }
+
+  const meshCacheKey = generateMeshCacheKey(topology, path, objectName);
+  let meshData = getCachedMeshData(meshCacheKey);
+  if (!meshData) {
+    const mesh = getMesh(topology, objectName);
+    const prepared = mesh
+      ? prepareMesh(mesh.outline || null, mesh.borders || null, path)
+      : {};
+    meshData = {
+      outline: prepared.outline || '',
+      borders: prepared.borders || '',
+    };
+    cacheMeshData(meshCacheKey, meshData);
+  }
+
+  return {
+    geographies,
+    outline: meshData.outline,
+    borders: meshData.borders,
+  };
+}
@@ -0,0 +1,100 @@
+import { GlobeRotation } from '../types';
+
+// Unit quaternions for rotating a globe under the pointer ("versor dragging").
+// The formulas follow the versor module by Mike Bostock.
+
+export type Versor = [number, number, number, number];
+type Vector = [number, number, number];
+
+const RADIANS = Math.PI / 180;
+const DEGREES = 180 / Math.PI;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+/**
+ * Converts spherical coordinates to a point on the unit sphere
+ * @param coordinates - [longitude, latitude] in degrees
+ * @returns [x, y, z]
+ */
+export function toCartesian([longitude, latitude]: [number, number]): Vector {
+  const lambda = longitude * RADIANS;
+  const phi = latitude * RADIANS;
+  const cosPhi = Math.cos(phi);
+  return [cosPhi * Math.cos(lambda), cosPhi * Math.sin(lambda), Math.sin(phi)];
+}
+
+/**
+ * Converts projection rotation angles to a versor
+ * @param rotation - [lambda, phi, gamma] in degrees
+ * @returns Equivalent versor
+ */
+export function toVersor([lambda, phi, gamma]: GlobeRotation): Versor {
+  const l = (lambda / 2) * RADIANS;
+  const p = (phi / 2) * RADIANS;
+  const g = (gamma / 2) * RADIANS;
+  const sl = Math.sin(l);
+  const cl = Math.cos(l);
+  const sp = Math.sin(p);
+  const cp = Math.cos(p);
+  const sg = Math.sin(g);
+  const cg = Math.cos(g);
+  return [
+    cl * cp * cg + sl * sp * sg,
+    sl * cp * cg - cl * sp * sg,
+    cl * sp * cg + sl * cp * sg,
+    cl * cp * sg - sl * sp * cg,
+  ];
+}
+
+/**
+ * Converts a versor to projection rotation angles
+ * @param versor - Unit quaternion
+ * @returns [lambda, phi, gamma] in degrees
+ */
+export function toRotation([a, b, c, d]: Versor): GlobeRotation {
+  return [
+    Math.atan2(2 * (a * b + c * d), 1 - 2 * (b * b + c * c)) * DEGREES,
+    Math.asin(clamp(2 * (a * c - d * b))) * DEGREES,
+    Math.atan2(2 * (a * d + b * c), 1 - 2 * (c * c + d * d)) * DEGREES,
+  ];
+}
+
+/**
+ * Finds the rotation that carries one point of the unit sphere to another
+ * @param from - Start point
+ * @param to - End point
+ * @returns Versor of the shortest rotation
+ */
+export function versorDelta(from: Vector, to: Vector): Versor {
+  const [x0, y0, z0] = from;
+  const [x1, y1, z1] = to;
+  const w: Vector = [y0 * z1 - z0 * y1, z0 * x1 - x0 * z1, x0 * y1 - y0 * x1];
+  const length = Math.hypot(...w);
+  if (!length) return [1, 0, 0, 0];
+
+  const half = Math.acos(clamp(x0 * x1 + y0 * y1 + z0 * z1)) / 2;
+  const sin = Math.sin(half);
+  return [
+    Math.cos(half),
+    (w[2] / length) * sin,
+    (-w[1] / length) * sin,
+    (w[0] / length) * sin,
+  ];
+}
+
+/**
+ * Composes two rotations
+ * @param q0 - First versor
+ * @param q1 - Second versor
+ * @returns q0 × q1
+ */
+export function multiplyVersors(q0: Versor, q1: Versor): Versor {
+  const [a0, b0, c0, d0] = q0;
+  const [a1, b1, c1, d1] = q1;
+  return [
+    a0 * a1 - b0 * b1 - c0 * c1 - d0 * d1,
+    a0 * b1 + b0 * a1 + c0 * d1 - d0 * c1,
+    a0 * c1 - b0 * d1 + c0 * a1 + d0 * b1,
+    a0 * d1 + b0 * c1 - c0 * b1 + d0 * a1,
+  ];
+}
@@ -0,0 +1,197 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import type { FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import { ZoomPanProvider } from '../src/components/ZoomPanProvider';
+import type { GeographyEventData, PreparedFeature } from '../src/types';
+import { square } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: ['A', 'B'].map((id, index) => ({
+    type: 'Feature',
+    id,
+    properties: {},
+    geometry: square(index * 20),
+  })),
+};
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+function createRecordingContext() {
+  const fills: string[] = [];
+  const transforms: number[][] = [];
+  const context = {
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    globalAlpha: 1,
+    setTransform: (...args: number[]) => {
+      transforms.push(args);
+    },
+    clearRect: () => {},
+    beginPath: () => {},
+    moveTo: () => {},
+    lineTo: () => {},
+    closePath: () => {},
+    arc: () => {},
+    fill() {
+      fills.push(String(this.fillStyle));
+    },
+    stroke: () => {},
+  };
+  return { context, fills, transforms };
+}
+
+let recording: ReturnType<typeof createRecordingContext>;
+
+beforeEach(() => {
+  recording = createRecordingContext();
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+    () => recording.context as unknown as CanvasRenderingContext2D,
+  );
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const clientPoint = (lon: number, lat: number) => {
+  const [clientX, clientY] = projection([lon, lat])!;
+  return { clientX, clientY };
+};
+
+describe('Geographies canvas renderer', () => {
+  it('draws geographies to a canvas instead of SVG paths', async () => {
+    const seen: PreparedFeature[][] = [];
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <Geographies geography={featureCollection} renderer="canvas">
+          {({ geographies }) => {
+            seen.push(geographies as PreparedFeature[]);
+            return geographies.map((geo) => (
+              <Geography
+                key={(geo as PreparedFeature).rsmKey}
+                geography={geo}
+                fill={geo.id === 'A' ? 'red' : 'blue'}
+              />
+            ));
+          }}
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(recording.fills).toEqual(['red', 'blue']);
+    });
+    expect(container.querySelector('foreignObject canvas')).not.toBeNull();
+    expect(container.querySelectorAll('path')).toHaveLength(0);
+    expect(seen.at(-1)?.map((geo) => geo.svgPath)).toEqual(['', '']);
+  });
+
+  it('hit-tests pointer events and passes GeographyEventData', async () => {
+    const onClick = vi.fn();
+    const onMouseEnter = vi.fn();
+    const onMouseLeave = vi.fn();
+
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <Geographies geography={featureCollection} renderer="canvas">
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography
+                key={(geo as PreparedFeature).rsmKey}
+                geography={geo}
+                onClick={onClick}
+                onMouseEnter={onMouseEnter}
+                onMouseLeave={onMouseLeave}
+                style={{
+                  default: { fill: 'gray' },
+                  hover: { fill: 'orange' },
+                }}
+              />
+            ))
+          }
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(recording.fills).toEqual(['gray', 'gray']);
+    });
+    const canvas = container.querySelector('canvas')!;
+
+    recording.fills.length = 0;
+    fireEvent.mouseMove(canvas, clientPoint(25, 5));
+    expect(onMouseEnter).toHaveBeenCalledTimes(1);
+    const data = onMouseEnter.mock.calls[0]![1] as GeographyEventData;
+    expect(data.geography.id).toBe('B');
+    expect(data.centroid?.[0]).toBeCloseTo(25, 0);
+    expect(recording.fills).toEqual(['gray', 'orange']);
+
+    fireEvent.click(canvas, clientPoint(25, 5));
+    expect(onClick.mock.calls[0]![1].geography.id).toBe('B');
+
+    fireEvent.mouseMove(canvas, clientPoint(15, 5));
+    expect(onMouseLeave).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(canvas, clientPoint(15, 5));
+    expect(onClick).toHaveBeenCalledTimes(1);
+
+    // Enter clicks the focused feature, not the one under the pointer
+    fireEvent.focus(canvas);
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    expect(onClick).toHaveBeenCalledTimes(2);
+    expect(onClick.mock.calls[1]![0].type).toBe('click');
+    expect(onClick.mock.calls[1]![1].geography.id).toBe('A');
+  });
+
+  it('follows the zoom transform and moves focus with arrow keys', async () => {
+    const onFocus = vi.fn();
+
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <ZoomPanProvider
+          value={{
+            x: -100,
+            y: 50,
+            k: 2,
+            transformString: 'translate(-100 50) scale(2)',
+          }}
+        >
+          <Geographies geography={featureCollection} renderer="canvas">
+            {({ geographies }) =>
+              geographies.map((geo) => (
+                <Geography
+                  key={(geo as PreparedFeature).rsmKey}
+                  geography={geo}
+                  onFocus={onFocus}
+                />
+              ))
+            }
+          </Geographies>
+        </ZoomPanProvider>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(recording.fills).toHaveLength(2);
+    });
+    expect(
+      container.querySelector('foreignObject')!.getAttribute('transform'),
+    ).toBe('scale(0.5) translate(100 -50)');
+    expect(recording.transforms).toContainEqual([2, 0, 0, 2, -100, 50]);
+
+    const canvas = container.querySelector('canvas')!;
+    const [x, y] = projection([5, 5])!;
+    fireEvent.mouseMove(canvas, { clientX: x * 2 - 100, clientY: y * 2 + 50 });
+    fireEvent.focus(canvas);
+    expect(onFocus.mock.calls[0]![1].geography.id).toBe('A');
+
+    fireEvent.keyDown(canvas, { key: 'ArrowRight' });
+    expect(onFocus.mock.calls[1]![1].geography.id).toBe('B');
+  });
+});
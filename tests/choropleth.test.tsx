@@ -0,0 +1,248 @@
+import { render, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Choropleth from '../src/components/Choropleth';
+import { createColorScale, getColorScaleBins } from '../src/utils/color-scales';
+import { getFeatureKey } from '../src/utils/feature-keys';
+import { square } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      id: 'AAA',
+      properties: { iso: 'A' },
+      geometry: square(0),
+    },
+    {
+      type: 'Feature',
+      id: 'BBB',
+      properties: { iso: 'B' },
+      geometry: square(20),
+    },
+    {
+      type: 'Feature',
+      id: 'CCC',
+      properties: { iso: 'C' },
+      geometry: square(40),
+    },
+  ],
+};
+
+describe('Color scales', () => {
+  const colors = ['#000', '#111', '#222', '#333'];
+
+  it('quantizes the domain into equal intervals', () => {
+    const scale = createColorScale(
+      { type: 'quantize', range: colors },
+      [0, 100],
+    );
+    expect(scale.thresholds).toEqual([25, 50, 75]);
+    expect(scale(10)).toBe('#000');
+    expect(scale(60)).toBe('#222');
+    expect(scale(100)).toBe('#333');
+  });
+
+  it('splits quantile scales by data distribution', () => {
+    const scale = createColorScale(
+      { type: 'quantile', range: ['a', 'b'] },
+      [1, 2, 3, 100],
+    );
+    expect(scale.thresholds).toEqual([2.5]);
+    expect(scale(2)).toBe('a');
+    expect(scale(3)).toBe('b');
+  });
+
+  it('validates threshold scales', () => {
+    expect(() =>
+      createColorScale({
+        type: 'threshold',
+        range: ['a', 'b'],
+        thresholds: [],
+      }),
+    ).toThrow(/thresholds/);
+
+    try {
+      createColorScale({ type: 'linear', range: ['#000'] });
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect((err as Error & { type: string }).type).toBe('VALIDATION_ERROR');
+    }
+
+    const scale = createColorScale({
+      type: 'threshold',
+      range: ['a', 'b', 'c'],
+      thresholds: [10, 20],
+    });
+    expect([scale(5), scale(10), scale(25)]).toEqual(['a', 'b', 'c']);
+    expect(getColorScaleBins(scale, [1, 15, 30, 40])).toEqual([
+      { index: 0, color: 'a', min: -Infinity, max: 10, count: 1 },
+      { index: 1, color: 'b', min: 10, max: 20, count: 1 },
+      { index: 2, color: 'c', min: 20, max: Infinity, count: 2 },
+    ]);
+  });
+
+  it('computes the default domain of large datasets', () => {
+    const values = Array.from({ length: 500_000 }, (_, index) => index);
+    expect(
+      createColorScale({ type: 'quantize', range: colors }, values).domain,
+    ).toEqual([0, 499_999]);
+  });
+
+  it('interpolates linear and log scales', () => {
+    const linear = createColorScale(
+      { type: 'linear', range: ['#000000', '#ffffff'] },
+      [0, 10],
+    );
+    expect(linear(0)).toBe('rgb(0, 0, 0)');
+    expect(linear(10)).toBe('rgb(255, 255, 255)');
+    expect(linear(20)).toBe('rgb(255, 255, 255)');
+
+    expect(() =>
+      createColorScale({
+        type: 'log',
+        range: ['#000', '#fff'],
+        domain: [0, 10],
+      }),
+    ).toThrow(/positive/);
+    expect(
+      createColorScale({ type: 'log', range: ['#000', '#fff'] }, [-5, 0, 2, 8])
+        .domain,
+    ).toEqual([2, 8]);
+
+    const log = createColorScale(
+      { type: 'log', range: ['#000000', '#ffffff'] },
+      [1, 100],
+    );
+    expect(log(10)).toBe(linear(5));
+    expect(getColorScaleBins(log, [1, 50, 100])[0]).toMatchObject({
+      min: 1,
+      max: 100,
+      count: 3,
+    });
+  });
+});
+
+describe('Choropleth', () => {
+  it('reads join keys from ids, property paths and accessors', () => {
+    const feature = featureCollection.features[0]!;
+    expect(getFeatureKey(feature)).toBe('AAA');
+    expect(getFeatureKey(feature, 'properties.iso')).toBe('A');
+    expect(getFeatureKey(feature, 'properties.__proto__')).toBeNull();
+    expect(getFeatureKey(feature, (geo) => `x-${geo.id}`)).toBe('x-AAA');
+  });
+
+  it('fills joined features and styles features without data', async () => {
+    const rows = [
+      { code: 'A', rate: 1 },
+      { code: 'B', rate: 9 },
+    ];
+
+    const { container } = render(
+      <ComposableMap>
+        <Choropleth
+          geography={featureCollection}
+          data={rows}
+          featureKey="properties.iso"
+          dataKey="code"
+          value={(row) => row.rate}
+          scale={{ type: 'quantize', range: ['red', 'blue'] }}
+          style={{ default: { fill: 'black', stroke: 'white' } }}
+          noDataStyle={{ default: { fill: 'gray' } }}
+          geographyProps={(geo) => ({ 'aria-label': String(geo.id) })}
+        />
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('path.rsm-geography')).toHaveLength(3);
+    });
+
+    const fillOf = (id: string) =>
+      (
+        container.querySelector(
+          `path[aria-label="${id}"]`,
+        ) as SVGPathElement | null
+      )?.style.fill;
+
+    expect(fillOf('AAA')).toBe('red');
+    expect(fillOf('BBB')).toBe('blue');
+    expect(fillOf('CCC')).toBe('gray');
+    expect(
+      container.querySelector<SVGPathElement>('path[aria-label="AAA"]')!.style
+        .stroke,
+    ).toBe('white');
+  });
+
+  it('leaves zero and negative values out of log scales', async () => {
+    const rows = [
+      { code: 'A', rate: 10 },
+      { code: 'B', rate: 0 },
+      { code: 'C', rate: 1000 },
+    ];
+
+    const { container } = render(
+      <ComposableMap>
+        <Choropleth
+          geography={featureCollection}
+          data={rows}
+          featureKey="properties.iso"
+          dataKey="code"
+          value={(row) => row.rate}
+          scale={{ type: 'log', range: ['#000000', '#ffffff'] }}
+          noDataStyle={{ default: { fill: 'gray' } }}
+          geographyProps={(geo) => ({ 'aria-label': String(geo.id) })}
+        />
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('path.rsm-geography')).toHaveLength(3);
+    });
+
+    const fillOf = (id: string) =>
+      (
+        container.querySelector(
+          `path[aria-label="${id}"]`,
+        ) as SVGPathElement | null
+      )?.style.fill;
+
+    expect(fillOf('AAA')).toBe('rgb(0, 0, 0)');
+    expect(fillOf('BBB')).toBe('gray');
+    expect(fillOf('CCC')).toBe('rgb(255, 255, 255)');
+  });
+
+  it('reports an invalid scale config instead of throwing', async () => {
+    const onGeographyError = vi.fn();
+
+    const { container } = render(
+      <ComposableMap>
+        <Choropleth
+          geography={featureCollection}
+          data={[{ code: 'A', rate: 1 }]}
+          featureKey="properties.iso"
+          dataKey="code"
+          value={(row) => row.rate}
+          scale={{ type: 'threshold', range: ['a', 'b'], thresholds: [] }}
+          noDataStyle={{ default: { fill: 'gray' } }}
+          onGeographyError={onGeographyError}
+        />
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('path.rsm-geography')).toHaveLength(3);
+    });
+
+    expect(onGeographyError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'VALIDATION_ERROR' }),
+    );
+    for (const path of container.querySelectorAll<SVGPathElement>(
+      'path.rsm-geography',
+    )) {
+      expect(path.style.fill).toBe('gray');
+    }
+  });
+});
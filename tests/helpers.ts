@@ -0,0 +1,54 @@
+// Shared fixtures for component tests
+import { vi } from 'vitest';
+
+// Square polygon with its south-west corner at [x, y]. Clockwise, as d3-geo
+// expects for exterior rings.
+export const square = (x: number, y = 0, size = 10) => ({
+  type: 'Polygon' as const,
+  coordinates: [
+    [
+      [x, y],
+      [x, y + size],
+      [x + size, y + size],
+      [x + size, y],
+      [x, y],
+    ],
+  ],
+});
+
+function mockLayout(
+  prototype: Element,
+  { left = 0, top = 0, width = 800, height = 600 } = {},
+) {
+  return vi.spyOn(prototype, 'getBoundingClientRect').mockReturnValue({
+    left,
+    top,
+    width,
+    height,
+    right: left + width,
+    bottom: top + height,
+    x: left,
+    y: top,
+    toJSON: () => ({}),
+  });
+}
+
+/**
+ * Lays out every SVG element at one client rect, since jsdom does no layout.
+ * Restore it with vi.restoreAllMocks().
+ * @param rect - Client position and size (default: 800 x 600 at the origin)
+ */
+export function mockSvgLayout(rect: Parameters<typeof mockLayout>[1] = {}) {
+  return mockLayout(SVGElement.prototype, rect);
+}
+
+/**
+ * Lays out every HTML div, such as the map's HTML layer, at one client rect.
+ * Restore it with vi.restoreAllMocks().
+ * @param rect - Client position and size (default: 800 x 600 at the origin)
+ */
+export function mockHtmlLayerLayout(
+  rect: Parameters<typeof mockLayout>[1] = {},
+) {
+  return mockLayout(HTMLDivElement.prototype, rect);
+}
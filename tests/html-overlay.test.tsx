@@ -0,0 +1,167 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular, geoOrthographic } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import { HtmlOverlay, HtmlOverlayItem } from '../src/components/HtmlOverlay';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import { createCoordinates } from '../src/types';
+import { mockSvgLayout } from './helpers';
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+describe('HtmlOverlay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('positions items at projected coordinates through the zoom', async () => {
+    mockSvgLayout();
+    render(
+      <ComposableMap projection={projection} htmlLayer>
+        <ZoomableGroup center={createCoordinates(10, 0)} zoom={2} />
+        <HtmlOverlay className="cards">
+          <HtmlOverlayItem coordinates={createCoordinates(10, 0)}>
+            <button>Center</button>
+          </HtmlOverlayItem>
+          <HtmlOverlayItem
+            coordinates={createCoordinates(0, 0)}
+            anchor="bottom"
+          >
+            Origin
+          </HtmlOverlayItem>
+          <HtmlOverlayItem coordinates={createCoordinates(100, 0)}>
+            Off screen
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+
+    const center = screen.getByText('Center').parentElement!;
+    await waitFor(() => {
+      expect(center.style.left).toBe('400px');
+    });
+    expect(center.style.top).toBe('300px');
+    expect(center.style.transform).toBe('translate(-50%, -50%)');
+    const overlay = center.closest('.rsm-html-overlay')!;
+    expect(overlay.className).toBe('rsm-html-overlay cards');
+    // Rendered as HTML next to the <svg>, not inside it
+    expect(overlay.closest('svg')).toBeNull();
+    expect(overlay.parentElement!.className).toBe('rsm-html-layer');
+    expect(overlay.parentElement!.previousElementSibling!.tagName).toBe('svg');
+
+    const [x] = projection([10, 0])!;
+    const origin = screen.getByText('Origin');
+    expect(parseFloat(origin.style.left)).toBeCloseTo(400 - 2 * (x - 400));
+    expect(origin.style.transform).toBe('translate(-50%, -100%)');
+
+    // Zoomed in, 100° E lies beyond the right edge of the map
+    const offScreen = screen.getByText('Off screen');
+    expect(offScreen.style.display).toBe('none');
+    expect(offScreen.getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('converts positions to CSS pixels of the drawn map', async () => {
+    // The 800 x 600 viewBox drawn at half size, offset inside the layer
+    mockSvgLayout({ left: 20, top: 10, width: 400, height: 300 });
+    render(
+      <ComposableMap projection={projection} htmlLayer>
+        <HtmlOverlay>
+          <HtmlOverlayItem coordinates={createCoordinates(0, 0)}>
+            Origin
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+
+    const origin = screen.getByText('Origin');
+    await waitFor(() => {
+      expect(origin.style.left).toBe('220px');
+    });
+    expect(origin.style.top).toBe('160px');
+  });
+
+  it('hides items until the map is laid out', () => {
+    render(
+      <ComposableMap projection={projection} htmlLayer>
+        <HtmlOverlay>
+          <HtmlOverlayItem coordinates={createCoordinates(0, 0)}>
+            Origin
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+
+    expect(screen.getByText('Origin').style.display).toBe('none');
+  });
+
+  it('hides items on the far side of a globe without unmounting them', () => {
+    mockSvgLayout();
+    const globe = (longitude: number) =>
+      geoOrthographic()
+        .translate([400, 300])
+        .scale(250)
+        .clipAngle(90)
+        .rotate([-longitude, 0]);
+    const { rerender } = render(
+      <ComposableMap projection={globe(0)} htmlLayer>
+        <HtmlOverlay>
+          <HtmlOverlayItem coordinates={createCoordinates(120, 0)}>
+            <input aria-label="Note" defaultValue="draft" />
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+    const input = screen.getByLabelText<HTMLInputElement>('Note');
+    expect(input.parentElement!.style.display).toBe('none');
+
+    input.value = 'edited';
+    rerender(
+      <ComposableMap projection={globe(120)} htmlLayer>
+        <HtmlOverlay>
+          <HtmlOverlayItem coordinates={createCoordinates(120, 0)}>
+            <input aria-label="Note" defaultValue="draft" />
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+
+    const shown = screen.getByLabelText<HTMLInputElement>('Note');
+    expect(shown).toBe(input);
+    expect(shown.value).toBe('edited');
+    expect(shown.parentElement!.style.display).toBe('');
+    expect(shown.parentElement!.style.left).toBe('400px');
+  });
+
+  it('needs a map with an HTML layer', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <HtmlOverlay>
+          <HtmlOverlayItem coordinates={createCoordinates(0, 0)}>
+            Origin
+          </HtmlOverlayItem>
+        </HtmlOverlay>
+      </ComposableMap>,
+    );
+
+    // Without the prop the <svg> stays the map's root element
+    expect(container.firstElementChild!.tagName).toBe('svg');
+    expect(container.querySelector('.rsm-html-layer')).toBeNull();
+    expect(screen.queryByText('Origin')).toBeNull();
+    expect(warn).toHaveBeenCalledWith(
+      'HtmlOverlay renders nothing without <ComposableMap htmlLayer>',
+    );
+  });
+
+  it('requires an HtmlOverlay around its items', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      render(
+        <ComposableMap htmlLayer>
+          <HtmlOverlayItem coordinates={createCoordinates(0, 0)} />
+        </ComposableMap>,
+      ),
+    ).toThrow(/must be used within an HtmlOverlay/);
+  });
+});
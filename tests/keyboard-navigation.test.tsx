@@ -0,0 +1,204 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import type { FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import Marker from '../src/components/Marker';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import { createCoordinates, type GeographiesProps } from '../src/types';
+import { square } from './helpers';
+
+// A B
+// C D
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: [
+    { id: 'A', name: 'Alpha', geometry: square(0, 0) },
+    { id: 'B', name: 'Bravo', geometry: square(20, 2) },
+    { id: 'C', name: 'Charlie', geometry: square(-2, -20) },
+    { id: 'D', geometry: square(20, -20) },
+  ].map(({ id, name, geometry }) => ({
+    type: 'Feature',
+    id,
+    properties: name ? { name } : {},
+    geometry,
+  })),
+};
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+async function renderGeographies(
+  props: Partial<GeographiesProps> = {},
+  onClick = vi.fn(),
+  wrap: (children: ReactNode) => ReactNode = (children) => children,
+) {
+  const { container } = render(
+    <ComposableMap projection={projection}>
+      {wrap(
+        <Geographies geography={featureCollection} {...props}>
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography
+                key={String(geo.id)}
+                geography={geo}
+                onClick={onClick}
+              />
+            ))
+          }
+        </Geographies>,
+      )}
+    </ComposableMap>,
+  );
+
+  await waitFor(() => {
+    expect(container.querySelectorAll('path.rsm-geography')).toHaveLength(4);
+  });
+  const paths = Array.from(
+    container.querySelectorAll<SVGPathElement>('path.rsm-geography'),
+  );
+  return { container, paths, onClick };
+}
+
+describe('keyboard navigation', () => {
+  it('labels geographies and keeps a single tab stop', async () => {
+    const { paths } = await renderGeographies();
+
+    expect(paths.map((path) => path.getAttribute('aria-label'))).toEqual([
+      'Alpha',
+      'Bravo',
+      'Charlie',
+      'D',
+    ]);
+    expect(paths.map((path) => path.getAttribute('tabindex'))).toEqual([
+      '0',
+      '-1',
+      '-1',
+      '-1',
+    ]);
+    expect(paths[0]!.getAttribute('role')).toBe('button');
+
+    const custom = await renderGeographies({
+      geographyLabel: (geo) => `Region ${geo.id}`,
+    });
+    expect(custom.paths[1]!.getAttribute('aria-label')).toBe('Region B');
+  });
+
+  it('moves focus to the nearest neighbor with the arrow keys', async () => {
+    const { paths } = await renderGeographies();
+    const [a, b, c, d] = paths;
+
+    a!.focus();
+    fireEvent.keyDown(a!, { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(a);
+
+    fireEvent.keyDown(a!, { key: 'ArrowRight' });
+    expect(document.activeElement).toBe(b);
+    expect(b!.getAttribute('tabindex')).toBe('0');
+    expect(a!.getAttribute('tabindex')).toBe('-1');
+
+    fireEvent.keyDown(b!, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(d);
+    fireEvent.keyDown(d!, { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(c);
+    fireEvent.keyDown(c!, { key: 'ArrowUp' });
+    expect(document.activeElement).toBe(a);
+  });
+
+  it('activates geographies with Enter and Space', async () => {
+    const { paths, onClick } = await renderGeographies();
+
+    fireEvent.keyDown(paths[1]!, { key: 'Enter' });
+    fireEvent.keyDown(paths[2]!, { key: ' ' });
+    fireEvent.keyDown(paths[2]!, { key: 'a' });
+
+    expect(onClick).toHaveBeenCalledTimes(2);
+    // A real click, as on a button
+    expect(onClick.mock.calls[0]![0].type).toBe('click');
+    expect(onClick.mock.calls[0]![1].geography.id).toBe('B');
+    expect(onClick.mock.calls[0]![1].centroid[0]).toBeCloseTo(25);
+    expect(onClick.mock.calls[1]![1].geography.id).toBe('C');
+  });
+
+  it('activates clickable markers from the keyboard', () => {
+    const onClick = vi.fn();
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <Marker coordinates={createCoordinates(0, 0)} onClick={onClick} />
+        <Marker coordinates={createCoordinates(5, 0)} aria-label="Depot" />
+      </ComposableMap>,
+    );
+    const [clickable, labelled] = Array.from(
+      container.querySelectorAll('g.rsm-marker'),
+    );
+
+    expect(clickable!.getAttribute('role')).toBe('button');
+    expect(clickable!.getAttribute('tabindex')).toBe('0');
+    expect(labelled!.getAttribute('role')).toBe('img');
+    expect(labelled!.hasAttribute('tabindex')).toBe(false);
+
+    fireEvent.keyDown(clickable!, { key: 'Enter', shiftKey: true });
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(onClick.mock.calls[0]![0].type).toBe('click');
+    expect(onClick.mock.calls[0]![0].shiftKey).toBe(true);
+  });
+});
+
+describe('ZoomableGroup keyboard zoom and pan', () => {
+  it('zooms with +/- and pans with the arrow keys', async () => {
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <ZoomableGroup
+          center={createCoordinates(0, 0)}
+          zoom={2}
+          maxZoom={8}
+          keyboardNavigation
+        >
+          <circle r={1} />
+        </ZoomableGroup>
+      </ComposableMap>,
+    );
+    const zoomable = container.querySelector<SVGGElement>('g[tabindex="0"]')!;
+    const transform = () =>
+      container
+        .querySelector('g.rsm-zoomable-group')!
+        .getAttribute('transform');
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-400 -300) scale(2)');
+    });
+
+    fireEvent.keyDown(zoomable, { key: '+' });
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-1200 -900) scale(4)');
+    });
+
+    // 10% of the 800 x 600 map per key press
+    fireEvent.keyDown(zoomable, { key: 'ArrowRight' });
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-1280 -900) scale(4)');
+    });
+
+    fireEvent.keyDown(zoomable, { key: '-' });
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-440 -300) scale(2)');
+    });
+  });
+
+  it('leaves arrow keys to focused geographies and is off by default', async () => {
+    const { container, paths } = await renderGeographies(
+      {},
+      vi.fn(),
+      (children) => <ZoomableGroup>{children}</ZoomableGroup>,
+    );
+    const zoomable = container.querySelector('g.rsm-zoomable-group')!;
+
+    expect(container.querySelector('g[tabindex]')).toBeNull();
+    fireEvent.keyDown(paths[0]!, { key: 'ArrowRight' });
+    fireEvent.keyDown(paths[1]!, { key: '+' });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(zoomable.getAttribute('transform')).toBe('translate(0 0) scale(1)');
+    expect(document.activeElement).toBe(paths[1]);
+  });
+});
@@ -0,0 +1,171 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import type { FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Choropleth from '../src/components/Choropleth';
+import Legend from '../src/components/Legend';
+import {
+  createColorScale,
+  getColorScaleBins,
+  isValueInBin,
+} from '../src/utils/color-scales';
+import type { LegendEntry } from '../src/types';
+import { square } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: ['A', 'B', 'C'].map((id, index) => ({
+    type: 'Feature',
+    id,
+    properties: {},
+    geometry: square(index * 20),
+  })),
+};
+
+const rows = [
+  { id: 'A', value: 5 },
+  { id: 'B', value: 15 },
+  { id: 'C', value: 25 },
+];
+
+const thresholdScale = createColorScale({
+  type: 'threshold',
+  range: ['red', 'green', 'blue'],
+  thresholds: [10, 20],
+});
+
+describe('isValueInBin', () => {
+  it('matches discrete bins by index and continuous bins by range', () => {
+    const [low, middle] = getColorScaleBins(thresholdScale);
+    expect(isValueInBin(thresholdScale, low!, -100)).toBe(true);
+    expect(isValueInBin(thresholdScale, middle!, 10)).toBe(true);
+    expect(isValueInBin(thresholdScale, middle!, 20)).toBe(false);
+
+    const linear = createColorScale(
+      { type: 'linear', range: ['#000000', '#888888', '#ffffff'] },
+      [0, 10],
+    );
+    const [first, last] = getColorScaleBins(linear);
+    expect(isValueInBin(linear, first!, -5)).toBe(true);
+    expect(isValueInBin(linear, first!, 5)).toBe(false);
+    expect(isValueInBin(linear, last!, 10)).toBe(true);
+  });
+});
+
+describe('Legend', () => {
+  it('renders stepped bins anchored to the map corner', () => {
+    const { container } = render(
+      <ComposableMap width={400} height={300}>
+        <Legend
+          type="stepped"
+          scale={thresholdScale}
+          title="Rate"
+          position="top-right"
+          margin={10}
+        />
+      </ComposableMap>,
+    );
+
+    const legend = container.querySelector('g.rsm-legend')!;
+    expect(legend.getAttribute('transform')).toBe('translate(390, 10)');
+    expect(legend.getAttribute('aria-label')).toBe('Rate');
+
+    const labels = Array.from(
+      container.querySelectorAll('.rsm-legend-item text'),
+    ).map((text) => text.textContent);
+    expect(labels).toEqual(['< 10', '10 – 20', '≥ 20']);
+    expect(
+      Array.from(container.querySelectorAll('.rsm-legend-item rect')).map(
+        (rect) => rect.getAttribute('fill'),
+      ),
+    ).toEqual(['red', 'green', 'blue']);
+  });
+
+  it('renders gradient stops and proportional circles', () => {
+    const linear = createColorScale(
+      { type: 'linear', range: ['#000000', '#ffffff'] },
+      [0, 100],
+    );
+    const { container } = render(
+      <ComposableMap width={400} height={300}>
+        <Legend type="gradient" scale={linear} ticks={3} />
+        <Legend
+          type="proportional"
+          radius={(value) => Math.sqrt(value)}
+          values={[25, 100]}
+          position="bottom-right"
+        />
+      </ComposableMap>,
+    );
+
+    const gradient = container.querySelector('linearGradient')!;
+    expect(gradient.querySelectorAll('stop')).toHaveLength(2);
+    expect(
+      container
+        .querySelector('.rsm-legend-gradient rect')!
+        .getAttribute('fill'),
+    ).toBe(`url(#${gradient.id})`);
+    expect(
+      Array.from(container.querySelectorAll('.rsm-legend-tick')).map(
+        (text) => text.textContent,
+      ),
+    ).toEqual(['0', '50', '100']);
+
+    const proportional = container.querySelector('.rsm-legend-proportional')!;
+    expect(proportional.getAttribute('transform')).toBe('translate(384, 264)');
+    expect(
+      Array.from(proportional.querySelectorAll('circle')).map((circle) =>
+        circle.getAttribute('r'),
+      ),
+    ).toEqual(['10', '5']);
+  });
+
+  it('highlights matching choropleth features while a bin is hovered', async () => {
+    function HighlightedMap() {
+      const [highlight, setHighlight] = useState<LegendEntry | null>(null);
+      return (
+        <ComposableMap>
+          <Choropleth
+            geography={featureCollection}
+            data={rows}
+            dataKey="id"
+            value={(row) => row.value}
+            scale={thresholdScale}
+            highlight={highlight}
+            highlightStyle={{ default: { stroke: 'black' } }}
+            geographyProps={(geo) => ({ 'aria-label': String(geo.id) })}
+          />
+          <Legend
+            type="stepped"
+            scale={thresholdScale}
+            onHighlightChange={setHighlight}
+          />
+        </ComposableMap>
+      );
+    }
+
+    const { container } = render(<HighlightedMap />);
+    await waitFor(() => {
+      expect(container.querySelectorAll('path.rsm-geography')).toHaveLength(3);
+    });
+
+    const strokeOf = (id: string) =>
+      (container.querySelector(`path[aria-label="${id}"]`) as SVGPathElement)
+        .style.stroke;
+
+    const items = container.querySelectorAll('.rsm-legend-item');
+    fireEvent.mouseEnter(items[1]!);
+    expect(strokeOf('A')).toBe('');
+    expect(strokeOf('B')).toBe('black');
+    expect(items[1]!.getAttribute('class')).toContain(
+      'rsm-legend-item--active',
+    );
+
+    fireEvent.mouseLeave(items[1]!);
+    expect(strokeOf('B')).toBe('');
+
+    fireEvent.focus(items[2]!);
+    expect(strokeOf('C')).toBe('black');
+  });
+});
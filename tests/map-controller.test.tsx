@@ -0,0 +1,174 @@
+import { act, render, waitFor } from '@testing-library/react';
+import { createRef, useEffect } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import useMapController from '../src/components/useMapController';
+import {
+  createCoordinates,
+  type GeographyError,
+  type MapController,
+} from '../src/types';
+
+// 10 map units per degree, centered on [0, 0]
+const projection = geoEquirectangular()
+  .translate([400, 300])
+  .scale((180 / Math.PI) * 10);
+
+function renderMap(props: Record<string, unknown> = {}) {
+  const controllerRef = createRef<MapController>();
+  const callbacks = {
+    onMoveStart: vi.fn(),
+    onMove: vi.fn(),
+    onMoveEnd: vi.fn(),
+  };
+  const { container } = render(
+    <ComposableMap projection={projection}>
+      <ZoomableGroup
+        maxZoom={16}
+        controllerRef={controllerRef}
+        {...callbacks}
+        {...props}
+      >
+        <circle r={1} />
+      </ZoomableGroup>
+    </ComposableMap>,
+  );
+  const transform = () =>
+    container.querySelector('g.rsm-zoomable-group')!.getAttribute('transform');
+  return { controller: () => controllerRef.current!, transform, ...callbacks };
+}
+
+describe('Map controller', () => {
+  it('flies to coordinates and reports one move', async () => {
+    const map = renderMap();
+
+    act(() => {
+      map.controller().flyTo(createCoordinates(10, 0), 2, { duration: 0 });
+    });
+
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-600 -300) scale(2)');
+    });
+    expect(map.onMoveStart).toHaveBeenCalledTimes(1);
+    expect(map.onMove).toHaveBeenCalledTimes(1);
+    expect(map.onMoveEnd).toHaveBeenCalledTimes(1);
+    expect(map.onMoveEnd.mock.calls[0]![0].coordinates[0]).toBeCloseTo(10);
+    expect(map.controller().getPosition().zoom).toBe(2);
+  });
+
+  it('animates fitBounds with a single move start and end', async () => {
+    const map = renderMap();
+
+    act(() => {
+      map
+        .controller()
+        .fitBounds([createCoordinates(-20, -10), createCoordinates(20, 10)], {
+          duration: 60,
+        });
+    });
+
+    // 400 x 200 map units fit 800 x 600 at k = 2
+    await waitFor(() => {
+      expect(map.onMoveEnd).toHaveBeenCalledTimes(1);
+    });
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-400 -300) scale(2)');
+    });
+    expect(map.onMoveStart).toHaveBeenCalledTimes(1);
+    expect(map.onMove.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it('zooms in and out around the center, clamps, and resets', async () => {
+    const map = renderMap({ center: createCoordinates(10, 0), zoom: 2 });
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-600 -300) scale(2)');
+    });
+
+    act(() => map.controller().zoomIn(4, { duration: 0 }));
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-3600 -2100) scale(8)');
+    });
+
+    act(() => map.controller().zoomIn(4, { duration: 0 }));
+    await waitFor(() => {
+      expect(map.controller().getPosition().zoom).toBe(16);
+    });
+
+    act(() => map.controller().zoomOut(undefined, { duration: 0 }));
+    await waitFor(() => {
+      expect(map.controller().getPosition().zoom).toBe(8);
+    });
+
+    act(() => map.controller().resetView({ duration: 0 }));
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-600 -300) scale(2)');
+    });
+
+    expect(() => map.controller().zoomIn(0)).toThrow(/positive/);
+  });
+
+  it('fits features with padding', async () => {
+    const map = renderMap();
+
+    act(() => {
+      map.controller().fitFeature(
+        {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+          ],
+        },
+        { padding: 200, duration: 0 },
+      );
+    });
+
+    // 100 x 100 map units into a 400 x 200 padded box (k = 2), centered on [450, 250]
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-500 -200) scale(2)');
+    });
+  });
+
+  it('is available to children through useMapController', async () => {
+    function FlyOnMount() {
+      const controller = useMapController();
+      useEffect(() => {
+        controller.flyTo(createCoordinates(-10, 0), 4, { duration: 0 });
+      }, [controller]);
+      return null;
+    }
+
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <ZoomableGroup>
+          <FlyOnMount />
+        </ZoomableGroup>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(
+        container
+          .querySelector('g.rsm-zoomable-group')!
+          .getAttribute('transform'),
+      ).toBe('translate(-800 -900) scale(4)');
+    });
+
+    function Outside() {
+      useMapController();
+      return null;
+    }
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let thrown: GeographyError | undefined;
+    try {
+      render(<Outside />);
+    } catch (error) {
+      thrown = error as GeographyError;
+    }
+    expect(thrown?.type).toBe('CONTEXT_ERROR');
+    vi.restoreAllMocks();
+  });
+});
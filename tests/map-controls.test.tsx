@@ -0,0 +1,170 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
+import { createRef } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import MapControls from '../src/components/MapControls';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import ZoomControls from '../src/components/ZoomControls';
+import {
+  createCoordinates,
+  type MapController,
+  type MapControlsRenderProps,
+} from '../src/types';
+
+// 10 map units per degree, centered on [0, 0]
+const projection = geoEquirectangular()
+  .translate([400, 300])
+  .scale((180 / Math.PI) * 10);
+
+const instant = { duration: 0 };
+
+describe('ZoomControls', () => {
+  it('zooms within the group limits and resets its view', async () => {
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <ZoomableGroup center={createCoordinates(10, 0)} maxZoom={4}>
+          <circle r={1} />
+        </ZoomableGroup>
+        <ZoomControls animation={instant} labels={{ reset: 'Home' }} />
+      </ComposableMap>,
+    );
+    const transform = () =>
+      container
+        .querySelector('g.rsm-zoomable-group')!
+        .getAttribute('transform');
+    const zoomIn = screen.getByRole('button', { name: 'Zoom in' });
+    const zoomOut = screen.getByRole('button', { name: 'Zoom out' });
+
+    expect(
+      container.querySelector('.rsm-zoom-controls')!.getAttribute('transform'),
+    ).toBe('translate(756, 16)');
+    await waitFor(() => {
+      expect(zoomOut.getAttribute('aria-disabled')).toBe('true');
+    });
+    expect(zoomIn.getAttribute('aria-disabled')).toBe('false');
+
+    fireEvent.click(zoomIn);
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-600 -300) scale(2)');
+    });
+    fireEvent.keyDown(zoomIn, { key: 'Enter' });
+    await waitFor(() => {
+      expect(zoomIn.getAttribute('aria-disabled')).toBe('true');
+    });
+    expect(transform()).toBe('translate(-1600 -900) scale(4)');
+
+    // At the limit the button does nothing
+    fireEvent.click(zoomIn);
+    fireEvent.keyDown(zoomOut, { key: ' ' });
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-600 -300) scale(2)');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Home' }));
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-100 0) scale(1)');
+    });
+  });
+});
+
+describe('MapControls', () => {
+  it('follows camera moves and moves the camera', async () => {
+    const controllerRef = createRef<MapController>();
+    const onPositionChange = vi.fn();
+    let controls: MapControlsRenderProps | undefined;
+
+    render(
+      <ComposableMap projection={projection}>
+        <ZoomableGroup minZoom={1} maxZoom={4} controllerRef={controllerRef}>
+          <circle r={1} />
+        </ZoomableGroup>
+        <MapControls animation={instant} onPositionChange={onPositionChange}>
+          {(props) => {
+            controls = props;
+            return null;
+          }}
+        </MapControls>
+      </ComposableMap>,
+    );
+    await waitFor(() => expect(controls!.isReady).toBe(true));
+    expect(controls!.minZoom).toBe(1);
+    expect(controls!.maxZoom).toBe(4);
+    expect(onPositionChange).not.toHaveBeenCalled();
+
+    // Moves made elsewhere, as by dragging, reach the controls
+    act(() => {
+      controllerRef.current!.flyTo(createCoordinates(20, 10), 2, instant);
+    });
+    await waitFor(() => expect(controls!.position.zoom).toBe(2));
+    expect(controls!.position.coordinates[0]).toBeCloseTo(20);
+    expect(controls!.position.coordinates[1]).toBeCloseTo(10);
+    expect(onPositionChange).toHaveBeenLastCalledWith(controls!.position);
+
+    act(() => controls!.setZoom(8));
+    expect(controls!.error).toBe(
+      'Invalid zoom level. Must be between 1 and 4.',
+    );
+
+    act(() => controls!.setZoom(3));
+    await waitFor(() => expect(controls!.position.zoom).toBe(3));
+    expect(controls!.error).toBeNull();
+    expect(controls!.position.coordinates[0]).toBeCloseTo(20);
+
+    act(() => controls!.setCenter(createCoordinates(-30, 5)));
+    await waitFor(() => {
+      expect(controls!.position.coordinates[0]).toBeCloseTo(-30);
+    });
+    expect(controls!.canZoomIn).toBe(true);
+    expect(controls!.canZoomOut).toBe(true);
+
+    act(() => controls!.resetView());
+    await waitFor(() => expect(controls!.position.zoom).toBe(1));
+    expect(controls!.position.coordinates[0]).toBeCloseTo(0);
+    expect(controls!.canZoomOut).toBe(false);
+  });
+
+  it('keeps its own position outside a map', () => {
+    const onPositionChange = vi.fn();
+    let controls: MapControlsRenderProps | undefined;
+    render(
+      <MapControls
+        initialPosition={{ coordinates: createCoordinates(10, 5), zoom: 2 }}
+        onPositionChange={onPositionChange}
+      >
+        {(props) => {
+          controls = props;
+          return null;
+        }}
+      </MapControls>,
+    );
+
+    expect(controls!.isReady).toBe(true);
+    expect(controls!.isLoading).toBe(false);
+    expect(controls!.position.zoom).toBe(2);
+
+    act(() => controls!.setZoom(4));
+    expect(controls!.position.zoom).toBe(4);
+    expect(onPositionChange).toHaveBeenLastCalledWith(controls!.position);
+
+    act(() => controls!.setZoom(50));
+    expect(controls!.error).toBe(
+      'Invalid zoom level. Must be between 0.1 and 20.',
+    );
+
+    act(() => controls!.setCenter(createCoordinates(-30, 5)));
+    expect(controls!.position.coordinates).toEqual([-30, 5]);
+
+    act(() => controls!.resetView());
+    expect(controls!.position).toEqual({
+      coordinates: [10, 5],
+      zoom: 2,
+    });
+  });
+});
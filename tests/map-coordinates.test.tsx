@@ -0,0 +1,105 @@
+import { render, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geoEqualEarth } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import useMapCoordinates from '../src/components/useMapCoordinates';
+import { createCoordinates, type MapCoordinates } from '../src/types';
+import { mockSvgLayout } from './helpers';
+
+// The default projection for an 800 x 600 map
+const equalEarth = geoEqualEarth().translate([400, 300]);
+
+function renderCoordinates(wrap: (probe: ReactNode) => ReactNode = (p) => p) {
+  const result: { current?: MapCoordinates } = {};
+  function Probe() {
+    result.current = useMapCoordinates();
+    return null;
+  }
+
+  render(<ComposableMap>{wrap(<Probe />)}</ComposableMap>);
+  return () => result.current!;
+}
+
+describe('useMapCoordinates', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converts through the projection and the viewBox scaling', () => {
+    // 800 x 600 viewBox drawn at half size, offset by (100, 50)
+    mockSvgLayout({ left: 100, top: 50, width: 400, height: 300 });
+    const coordinates = renderCoordinates();
+
+    const center = coordinates().toGeo(300, 200)!;
+    expect(center[0]).toBeCloseTo(0);
+    expect(center[1]).toBeCloseTo(0);
+
+    const [x, y] = equalEarth([100, 40])!;
+    const screen = coordinates().toScreen(createCoordinates(100, 40))!;
+    expect(screen[0]).toBeCloseTo(100 + x / 2);
+    expect(screen[1]).toBeCloseTo(50 + y / 2);
+
+    const roundTrip = coordinates().toGeo(screen[0], screen[1])!;
+    expect(roundTrip[0]).toBeCloseTo(100);
+    expect(roundTrip[1]).toBeCloseTo(40);
+
+    // The map corner lies outside the Equal Earth outline
+    expect(coordinates().toGeo(101, 51)).toBeNull();
+  });
+
+  it('accounts for letterboxing of the viewBox', () => {
+    // 800 x 600 into 400 x 400: scale 0.5, centered vertically
+    mockSvgLayout({ width: 400, height: 400 });
+    const coordinates = renderCoordinates();
+
+    const screen = coordinates().toScreen(createCoordinates(0, 0))!;
+    expect(screen[0]).toBeCloseTo(200);
+    expect(screen[1]).toBeCloseTo(200);
+  });
+
+  it('prefers the SVG screen matrix when available', () => {
+    // jsdom has no getScreenCTM; a 2x scale offset by (10, 20)
+    Object.defineProperty(SVGSVGElement.prototype, 'getScreenCTM', {
+      configurable: true,
+      value: () => ({
+        a: 2,
+        b: 0,
+        c: 0,
+        d: 2,
+        e: 10,
+        f: 20,
+        inverse: () => ({ a: 0.5, b: 0, c: 0, d: 0.5, e: -5, f: -10 }),
+      }),
+    });
+
+    try {
+      const coordinates = renderCoordinates();
+
+      expect(coordinates().toScreen(createCoordinates(0, 0))).toEqual([
+        810, 620,
+      ]);
+      expect(coordinates().toGeo(810, 620)?.[0]).toBeCloseTo(0);
+    } finally {
+      delete (SVGSVGElement.prototype as { getScreenCTM?: unknown })
+        .getScreenCTM;
+    }
+  });
+
+  it('follows the ZoomableGroup transform', async () => {
+    mockSvgLayout();
+    const coordinates = renderCoordinates((probe) => (
+      <ZoomableGroup center={createCoordinates(10, 0)} zoom={2}>
+        {probe}
+      </ZoomableGroup>
+    ));
+
+    await waitFor(() => {
+      expect(coordinates().toGeo(400, 300)?.[0]).toBeCloseTo(10);
+    });
+    const screen = coordinates().toScreen(createCoordinates(10, 0))!;
+    expect(screen[0]).toBeCloseTo(400);
+    expect(screen[1]).toBeCloseTo(300);
+  });
+});
@@ -0,0 +1,247 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext, useLayoutEffect } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import type { FeatureCollection, Geometry } from 'geojson';
+import Choropleth from '../src/components/Choropleth';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import MapDataTable from '../src/components/MapDataTable';
+import { MapContext } from '../src/components/MapProvider';
+import useChoropleth from '../src/components/useChoropleth';
+import type { MapDataTableProps } from '../src/types';
+import { square } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: ['Alpha', 'Bravo', 'Charlie'].map((name, index) => ({
+    type: 'Feature',
+    id: name[0],
+    properties: { name, population: (index + 1) * 1000 },
+    geometry: square(index * 20),
+  })),
+};
+
+const rates: { id: string; rate: number; source?: { year: number } }[] = [
+  { id: 'A', rate: 4.5 },
+  { id: 'B', rate: 7, source: { year: 2024 } },
+];
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+async function renderTable(props: MapDataTableProps = {}) {
+  const { container } = render(
+    <ComposableMap projection={projection} htmlLayer>
+      <Geographies
+        geography={featureCollection}
+        parseGeographies={(features) =>
+          features.filter((feature) => feature.id !== 'C')
+        }
+      >
+        {({ geographies }) =>
+          geographies.map((geo) => (
+            <Geography
+              key={String(geo.id)}
+              geography={geo}
+              style={{ focused: { fill: 'red' } }}
+            />
+          ))
+        }
+      </Geographies>
+      <MapDataTable caption="Regions" {...props} />
+    </ComposableMap>,
+  );
+
+  await waitFor(() => {
+    expect(container.querySelectorAll('tbody tr')).toHaveLength(2);
+  });
+  return {
+    rows: Array.from(container.querySelectorAll<HTMLElement>('tbody tr')),
+    paths: Array.from(
+      container.querySelectorAll<SVGPathElement>('path.rsm-geography'),
+    ),
+  };
+}
+
+describe('MapDataTable', () => {
+  it('lists the rendered geographies with default columns', async () => {
+    const { rows } = await renderTable();
+
+    screen.getByText('Regions');
+    expect(
+      Array.from(document.querySelectorAll('th'), (th) => th.textContent),
+    ).toEqual(['Name', 'Centroid']);
+    expect(
+      rows.map((row) =>
+        Array.from(row.querySelectorAll('td'), (td) => td.textContent),
+      ),
+    ).toEqual([
+      ['Alpha', '5.01° N, 5.00° E'],
+      ['Bravo', '5.01° N, 25.00° E'],
+    ]);
+    const table = document.querySelector<HTMLElement>('.rsm-data-table')!;
+    expect(table.parentElement!.style.position).toBe('absolute');
+    expect(table.parentElement!.style.clipPath).toBe('inset(50%)');
+    // HTML next to the <svg>, not inside it
+    expect(table.closest('svg')).toBeNull();
+    expect(table.closest('.rsm-html-layer')).not.toBeNull();
+  });
+
+  it('renders custom columns and can be shown', async () => {
+    const { rows } = await renderTable({
+      visuallyHidden: false,
+      columns: [
+        { header: 'Region', cell: ({ label }) => label },
+        {
+          header: 'Population',
+          cell: ({ geography }) =>
+            String(geography.properties?.population ?? ''),
+        },
+      ],
+    });
+
+    expect(rows[1]!.textContent).toBe('Bravo2000');
+    const overlay =
+      document.querySelector<HTMLElement>('.rsm-data-table')!.parentElement!;
+    expect(overlay.style.clipPath).toBe('');
+    expect(overlay.style.pointerEvents).toBe('auto');
+  });
+
+  it('adds value and data columns for a Choropleth', async () => {
+    const { container } = render(
+      <ComposableMap projection={projection} htmlLayer>
+        <Choropleth
+          geography={featureCollection}
+          data={rates}
+          dataKey="id"
+          value={(d) => d.rate}
+          scale={{ type: 'quantize', range: ['#eee', '#333'] }}
+        />
+        <MapDataTable />
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('tbody tr')).toHaveLength(3);
+    });
+    expect(
+      Array.from(container.querySelectorAll('th'), (th) => th.textContent),
+    ).toEqual(['Name', 'Value', 'Centroid', 'id', 'rate', 'source']);
+    expect(
+      Array.from(container.querySelectorAll('tbody tr'), (row) =>
+        Array.from(row.querySelectorAll('td'), (td) => td.textContent),
+      ),
+    ).toEqual([
+      ['Alpha', '4.5', '5.01° N, 5.00° E', 'A', '4.5', ''],
+      ['Bravo', '7', '5.01° N, 25.00° E', 'B', '7', '{"year":2024}'],
+      ['Charlie', '', '5.01° N, 45.00° E', '', '', ''],
+    ]);
+  });
+
+  it('lists data from a useChoropleth outside the map', async () => {
+    function RateMap() {
+      const choropleth = useChoropleth({
+        data: rates,
+        dataKey: 'id',
+        value: (d) => d.rate,
+        scale: { type: 'quantize', range: ['#eee', '#333'] },
+      });
+      return (
+        <ComposableMap projection={projection} htmlLayer>
+          <Geographies geography={featureCollection}>
+            {({ geographies }) =>
+              geographies.map((geo) => (
+                <Geography key={String(geo.id)} geography={geo} />
+              ))
+            }
+          </Geographies>
+          <MapDataTable
+            data={choropleth}
+            columns={[
+              { header: 'Region', cell: ({ label }) => label },
+              { header: 'Rate', cell: ({ value }) => value ?? 'No data' },
+            ]}
+          />
+        </ComposableMap>
+      );
+    }
+    const { container } = render(<RateMap />);
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('tbody tr')).toHaveLength(3);
+    });
+    expect(
+      Array.from(
+        container.querySelectorAll('tbody tr'),
+        (row) => row.textContent,
+      ),
+    ).toEqual(['Alpha4.5', 'Bravo7', 'CharlieNo data']);
+  });
+
+  it('syncs keyboard focus between rows and geographies', async () => {
+    const { rows, paths } = await renderTable();
+    expect(rows.map((row) => row.tabIndex)).toEqual([0, -1]);
+
+    // A focused row highlights its geography
+    rows[0]!.focus();
+    fireEvent.keyDown(rows[0]!, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(rows[1]);
+    await waitFor(() => {
+      expect(paths[1]!.style.fill).toBe('red');
+    });
+    expect(paths[0]!.style.fill).toBe('');
+    expect(rows[1]!.getAttribute('aria-current')).toBe('true');
+
+    // Enter moves focus to the geography, which keeps its row current
+    fireEvent.keyDown(rows[1]!, { key: 'Enter' });
+    expect(document.activeElement).toBe(paths[1]);
+    expect(rows[1]!.getAttribute('aria-current')).toBe('true');
+
+    // A focused geography marks its row and makes it the tab stop
+    paths[0]!.focus();
+    await waitFor(() => {
+      expect(rows[0]!.getAttribute('aria-current')).toBe('true');
+    });
+    expect(rows.map((row) => row.tabIndex)).toEqual([0, -1]);
+    expect(rows[1]!.hasAttribute('aria-current')).toBe(false);
+  });
+
+  it('notifies subscribers once when a layer registers its geographies', async () => {
+    const listener = vi.fn();
+    const manySquares: FeatureCollection<Geometry> = {
+      type: 'FeatureCollection',
+      features: Array.from({ length: 20 }, (_, index) => ({
+        type: 'Feature',
+        id: `F${index}`,
+        properties: { name: `Feature ${index}` },
+        geometry: square((index % 5) * 20, Math.floor(index / 5) * 20),
+      })),
+    };
+
+    function Subscriber() {
+      const featureIndex = useContext(MapContext)?.featureIndex;
+      useLayoutEffect(() => featureIndex?.subscribe(listener), [featureIndex]);
+      return null;
+    }
+
+    const { container } = render(
+      <ComposableMap projection={projection} htmlLayer>
+        <Subscriber />
+        <Geographies geography={manySquares}>
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography key={String(geo.id)} geography={geo} />
+            ))
+          }
+        </Geographies>
+        <MapDataTable />
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('tbody tr')).toHaveLength(20);
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
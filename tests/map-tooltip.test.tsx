@@ -0,0 +1,160 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import MapTooltip from '../src/components/MapTooltip';
+import Marker from '../src/components/Marker';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import useTooltip from '../src/components/useTooltip';
+import { createCoordinates, type Coordinates } from '../src/types';
+import { mockHtmlLayerLayout, mockSvgLayout } from './helpers';
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+// Tooltips measure 100 x 40
+function mockTooltipSize() {
+  for (const [name, value] of [
+    ['offsetWidth', 100],
+    ['offsetHeight', 40],
+  ] as const) {
+    Object.defineProperty(HTMLElement.prototype, name, {
+      configurable: true,
+      get: () => value,
+    });
+  }
+}
+
+function renderTooltip(
+  coordinates: Coordinates | null,
+  wrap: (children: ReactNode) => ReactNode = (children) => children,
+) {
+  function TooltipMap() {
+    const tooltip = useTooltip<string>();
+    return (
+      <ComposableMap projection={projection} htmlLayer>
+        {wrap(
+          <Marker
+            coordinates={createCoordinates(10, 0)}
+            tabIndex={0}
+            {...tooltip.getTargetProps('Depot', coordinates)}
+          >
+            <circle r={4} />
+          </Marker>,
+        )}
+        <MapTooltip tooltip={tooltip} className="custom">
+          {(name) => <strong>{name}</strong>}
+        </MapTooltip>
+      </ComposableMap>
+    );
+  }
+
+  const { container } = render(<TooltipMap />);
+  const marker = container.querySelector<SVGGElement>('g.rsm-marker')!;
+  const position = () => {
+    const element = container.querySelector<HTMLElement>('.rsm-tooltip');
+    return element && [element.style.left, element.style.top];
+  };
+  return { marker, position };
+}
+
+describe('MapTooltip', () => {
+  beforeEach(() => {
+    // The 800 x 600 map drawn at its own size at the page origin
+    mockSvgLayout();
+    mockHtmlLayerLayout();
+    mockTooltipSize();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (HTMLElement.prototype as { offsetWidth?: number }).offsetWidth;
+    delete (HTMLElement.prototype as { offsetHeight?: number }).offsetHeight;
+  });
+
+  it('follows the pointer and clamps to the map', () => {
+    const { marker, position } = renderTooltip(null);
+    expect(position()).toBeNull();
+    expect(marker.hasAttribute('aria-describedby')).toBe(false);
+
+    fireEvent.pointerEnter(marker, { clientX: 400, clientY: 300 });
+    const tooltip = screen.getByRole('tooltip');
+    expect(tooltip.textContent).toBe('Depot');
+    expect(tooltip.className).toBe('rsm-tooltip custom');
+    expect(marker.getAttribute('aria-describedby')).toBe(tooltip.id);
+    expect(position()).toEqual(['350px', '248px']);
+
+    // No room above: flips below, and stays inside the left edge
+    fireEvent.pointerMove(marker, { clientX: 5, clientY: 5 });
+    expect(position()).toEqual(['0px', '17px']);
+
+    fireEvent.pointerMove(marker, { clientX: 795, clientY: 595 });
+    expect(position()).toEqual(['700px', '543px']);
+
+    fireEvent.pointerLeave(marker);
+    expect(position()).toBeNull();
+    expect(marker.hasAttribute('aria-describedby')).toBe(false);
+  });
+
+  it('renders in the HTML layer and clamps to its rect', () => {
+    // The map and its layer sit lower on the page; the layer is narrower
+    // than the drawn map, as when the container crops it
+    mockSvgLayout({ left: 100, top: 50 });
+    mockHtmlLayerLayout({ left: 100, top: 50, width: 500, height: 600 });
+    const { marker, position } = renderTooltip(null);
+
+    fireEvent.pointerEnter(marker, { clientX: 500, clientY: 350 });
+    const tooltip = screen.getByRole('tooltip');
+    expect(tooltip.closest('svg')).toBeNull();
+    expect(tooltip.parentElement!.className).toBe('rsm-html-layer');
+    expect(position()).toEqual(['350px', '248px']);
+
+    fireEvent.pointerMove(marker, { clientX: 590, clientY: 350 });
+    expect(position()).toEqual(['400px', '248px']);
+  });
+
+  it('anchors to coordinates through the zoom transform', async () => {
+    const { marker, position } = renderTooltip(
+      createCoordinates(10, 0),
+      (children) => (
+        <ZoomableGroup center={createCoordinates(0, 0)} zoom={2}>
+          {children}
+        </ZoomableGroup>
+      ),
+    );
+
+    await act(async () => {
+      marker.focus();
+    });
+    const [x, y] = projection([10, 0])!;
+    expect(position()).toEqual([
+      `${2 * x - 400 - 50}px`,
+      `${2 * y - 300 - 52}px`,
+    ]);
+    expect(marker.getAttribute('aria-describedby')).toBe(
+      screen.getByRole('tooltip').id,
+    );
+
+    act(() => {
+      marker.blur();
+    });
+    expect(position()).toBeNull();
+    expect(marker.hasAttribute('aria-describedby')).toBe(false);
+  });
+
+  it('toggles on touch taps', () => {
+    const { marker, position } = renderTooltip(createCoordinates(10, 0));
+    const touch = { pointerType: 'touch', clientX: 1, clientY: 1 };
+
+    fireEvent.pointerEnter(marker, touch);
+    expect(position()).toBeNull();
+
+    fireEvent.pointerDown(marker, touch);
+    expect(screen.getByRole('tooltip').textContent).toBe('Depot');
+    fireEvent.pointerLeave(marker, touch);
+    expect(position()).not.toBeNull();
+
+    fireEvent.pointerDown(marker, touch);
+    expect(position()).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import MarkerCluster from '../src/components/MarkerCluster';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import useClusters from '../src/components/useClusters';
+import { ZoomPanProvider } from '../src/components/ZoomPanProvider';
+import { clusterPoints, projectPoints } from '../src/utils/marker-clustering';
+import { Coordinates, MapController, createCoordinates } from '../src/types';
+
+// 10 map units per degree around the origin
+const projection = geoEquirectangular()
+  .translate([400, 300])
+  .scale((180 / Math.PI) * 10);
+
+interface City {
+  name: string;
+  coordinates: Coordinates;
+}
+
+const cities: City[] = [
+  { name: 'a', coordinates: createCoordinates(0, 0) },
+  { name: 'b', coordinates: createCoordinates(1, 0) },
+  { name: 'c', coordinates: createCoordinates(0, 1) },
+  { name: 'd', coordinates: createCoordinates(20, 0) },
+];
+
+const getCoordinates = (city: City) => city.coordinates;
+
+const zoomPanValue = (k: number, fitExtent = vi.fn()) => ({
+  x: 0,
+  y: 0,
+  k,
+  transformString: `translate(0 0) scale(${k})`,
+  controller: { fitExtent } as unknown as MapController,
+});
+
+describe('clusterPoints', () => {
+  it('groups points within the screen radius at the current zoom', () => {
+    const projected = projectPoints(cities, getCoordinates, projection);
+
+    const zoomedOut = clusterPoints(projected, 40, 1, projection);
+    expect(zoomedOut.map((cluster) => cluster.count)).toEqual([3, 1]);
+    expect(zoomedOut[0]).toMatchObject({
+      id: 'cluster-0',
+      extent: [
+        [400, 290],
+        [410, 300],
+      ],
+    });
+    expect(zoomedOut[0]!.coordinates[0]).toBeCloseTo(1 / 3);
+
+    const zoomedIn = clusterPoints(projected, 40, 8, projection);
+    expect(zoomedIn.map((cluster) => cluster.id)).toEqual([
+      'point-0',
+      'point-1',
+      'point-2',
+      'point-3',
+    ]);
+  });
+});
+
+describe('useClusters', () => {
+  it('projects points again only when they change', () => {
+    let calls = 0;
+    function Clusters({ points }: { points: City[] }) {
+      const clusters = useClusters({
+        points,
+        coordinates: (city) => {
+          calls += 1;
+          return city.coordinates;
+        },
+      });
+      return <text>{clusters.length}</text>;
+    }
+    const map = (points: City[]) => (
+      <ComposableMap projection={projection}>
+        <Clusters points={points} />
+      </ComposableMap>
+    );
+
+    const { rerender } = render(map(cities));
+    expect(calls).toBe(4);
+
+    // A new inline accessor alone does not re-project
+    rerender(map(cities));
+    expect(calls).toBe(4);
+
+    rerender(map(cities.slice(0, 2)));
+    expect(calls).toBe(6);
+  });
+});
+
+describe('MarkerCluster', () => {
+  it('re-clusters as the zoom changes and zooms to clicked clusters', () => {
+    const fitExtent = vi.fn();
+    const map = (k: number) => (
+      <ComposableMap projection={projection}>
+        <ZoomPanProvider value={zoomPanValue(k, fitExtent)}>
+          <MarkerCluster
+            points={cities}
+            coordinates={getCoordinates}
+            renderCluster={(cluster) => <text>{cluster.count} cities</text>}
+          />
+        </ZoomPanProvider>
+      </ComposableMap>
+    );
+
+    const { container, rerender } = render(map(1));
+    const cluster = container.querySelector('g.rsm-cluster')!;
+    expect(cluster.textContent).toBe('3 cities');
+    expect(cluster.getAttribute('transform')).toBe(
+      'translate(403.3333333333333, 296.6666666666667) scale(1)',
+    );
+    expect(container.querySelectorAll('g.rsm-marker')).toHaveLength(1);
+
+    fireEvent.click(cluster);
+    expect(fitExtent).toHaveBeenCalledWith(
+      [
+        [400, 290],
+        [410, 300],
+      ],
+      { padding: 40 },
+    );
+
+    rerender(map(8));
+    expect(container.querySelector('g.rsm-cluster')).toBeNull();
+    expect(container.querySelectorAll('g.rsm-marker')).toHaveLength(4);
+  });
+
+  it('zooms through ZoomableGroup and reports the move', async () => {
+    const onMoveEnd = vi.fn();
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <ZoomableGroup maxZoom={20} onMoveEnd={onMoveEnd}>
+          <MarkerCluster
+            points={cities}
+            coordinates={getCoordinates}
+            zoomOptions={{ padding: 0, duration: 0 }}
+          />
+        </ZoomableGroup>
+      </ComposableMap>,
+    );
+
+    fireEvent.keyDown(container.querySelector('g.rsm-cluster')!, {
+      key: 'Enter',
+    });
+
+    // Fitting a 10x10 extent needs k = 60, clamped to the max zoom of 20
+    await waitFor(() => {
+      expect(
+        container
+          .querySelector('g.rsm-zoomable-group')!
+          .getAttribute('transform'),
+      ).toBe('translate(-7700 -5600) scale(20)');
+    });
+    expect(onMoveEnd).toHaveBeenCalled();
+    expect(onMoveEnd.mock.calls.at(-1)![0].zoom).toBe(20);
+  });
+});
@@ -0,0 +1,91 @@
+import { act, render, waitFor } from '@testing-library/react';
+import { createRef } from 'react';
+import { describe, expect, it } from 'vitest';
+import { geoEquirectangular, geoOrthographic, geoPath } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import {
+  createCoordinates,
+  type MapController,
+  type PanBounds,
+} from '../src/types';
+import { projectPanBounds } from '../src/utils/coordinate-utils';
+
+// 10 map units per degree, centered on [0, 0]
+const flat = () =>
+  geoEquirectangular()
+    .translate([400, 300])
+    .scale((180 / Math.PI) * 10);
+const globe = () => geoOrthographic().translate([400, 300]).scale(200);
+
+const europe: PanBounds = [
+  [-10, 35],
+  [40, 70],
+];
+
+function renderMap(projection: ReturnType<typeof flat>, panBounds: PanBounds) {
+  const controllerRef = createRef<MapController>();
+  const { container } = render(
+    <ComposableMap projection={projection}>
+      <ZoomableGroup
+        maxZoom={16}
+        controllerRef={controllerRef}
+        panBounds={panBounds}
+      >
+        <circle r={1} />
+      </ZoomableGroup>
+    </ComposableMap>,
+  );
+  const transform = () =>
+    container.querySelector('g.rsm-zoomable-group')!.getAttribute('transform');
+  return { controller: () => controllerRef.current!, transform };
+}
+
+describe('Pan bounds', () => {
+  it('keeps the view inside geographic bounds', async () => {
+    const map = renderMap(flat(), europe);
+
+    act(() => {
+      map.controller().flyTo(createCoordinates(100, -20), 4, { duration: 0 });
+    });
+
+    // The view's south-east corner stops at [40, 35], or [800, -50]
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(-2400 800) scale(4)');
+    });
+  });
+
+  it('keeps the sphere in view', async () => {
+    const map = renderMap(globe(), 'sphere');
+
+    // At zoom 1 the whole globe fits, so it stays centered
+    act(() => map.controller().panBy(300, 0, { duration: 0 }));
+    await waitFor(() => {
+      expect(map.transform()).toBe('translate(0 0) scale(1)');
+    });
+
+    // Zoomed in, the view stops at the globe's western rim
+    act(() => map.controller().zoomIn(4, { duration: 0 }));
+    act(() => map.controller().panBy(-1000, 0, { duration: 0 }));
+    await waitFor(() => {
+      const [x, y, k] = map
+        .transform()!
+        .match(/-?[\d.]+/g)!
+        .map(Number);
+      expect(x).toBeCloseTo(-800);
+      expect(y).toBeCloseTo(-900);
+      expect(k).toBe(4);
+    });
+  });
+});
+
+describe('projectPanBounds', () => {
+  it('projects the bounds through the projection', () => {
+    expect(projectPanBounds(europe, geoPath(flat()))).toEqual([
+      [300, -400],
+      [800, -50],
+    ]);
+    const [[x0, y0], [x1, y1]] = projectPanBounds('sphere', geoPath(globe()))!;
+    expect([x0, y0, x1, y1].map(Math.round)).toEqual([200, 100, 600, 500]);
+  });
+});
@@ -0,0 +1,117 @@
+import { fireEvent, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { geoOrthographic } from 'd3-geo';
+import Annotation from '../src/components/Annotation';
+import ComposableMap from '../src/components/ComposableMap';
+import Marker from '../src/components/Marker';
+import MarkerCluster from '../src/components/MarkerCluster';
+import RotatableGlobe from '../src/components/RotatableGlobe';
+import { createCoordinates } from '../src/types';
+import { getHorizonOpacity } from '../src/utils/coordinate-utils';
+
+const globe = () => geoOrthographic().translate([400, 300]).scale(200);
+
+describe('far side visibility', () => {
+  it('hides markers and annotations behind the globe', () => {
+    const { container } = render(
+      <ComposableMap projection={globe()}>
+        <Marker
+          coordinates={createCoordinates(0, 0)}
+          className="front"
+          onClick={() => {}}
+        >
+          <circle r={2} />
+        </Marker>
+        <Marker
+          coordinates={createCoordinates(180, 0)}
+          className="back"
+          onClick={() => {}}
+        >
+          <circle r={2} />
+        </Marker>
+        <Marker
+          coordinates={createCoordinates(80, 0)}
+          className="edge"
+          horizonFade={20}
+        >
+          <circle r={2} />
+        </Marker>
+        <Annotation subject={createCoordinates(170, 10)}>
+          <text>Back</text>
+        </Annotation>
+      </ComposableMap>,
+    );
+    const marker = (name: string) =>
+      container.querySelector(`g.rsm-marker.${name}`)!;
+
+    expect(marker('front').getAttribute('visibility')).toBeNull();
+    expect(marker('front').getAttribute('tabindex')).toBe('0');
+    expect(marker('back').getAttribute('visibility')).toBe('hidden');
+    expect(marker('back').getAttribute('aria-hidden')).toBe('true');
+    expect(marker('back').getAttribute('tabindex')).toBeNull();
+    expect(Number(marker('edge').getAttribute('opacity'))).toBeCloseTo(0.5);
+    expect(
+      container.querySelector('g.rsm-annotation')!.getAttribute('visibility'),
+    ).toBe('hidden');
+  });
+
+  it('reports markers crossing the horizon as the globe turns', () => {
+    const onVisibilityChange = vi.fn();
+    const { container } = render(
+      <ComposableMap projection={globe()}>
+        <RotatableGlobe>
+          <Marker
+            coordinates={createCoordinates(100, 0)}
+            onVisibilityChange={onVisibilityChange}
+          >
+            <circle r={2} />
+          </Marker>
+        </RotatableGlobe>
+      </ComposableMap>,
+    );
+    const group = container.querySelector('g.rsm-rotatable-globe')!;
+    expect(onVisibilityChange).toHaveBeenCalledTimes(1);
+    expect(onVisibilityChange).toHaveBeenLastCalledWith(false);
+
+    // Turning east by 15° brings the marker 85° from the center
+    fireEvent.keyDown(group, { key: 'ArrowRight' });
+    expect(onVisibilityChange).toHaveBeenLastCalledWith(true);
+    expect(
+      container.querySelector('g.rsm-marker')!.getAttribute('visibility'),
+    ).toBeNull();
+
+    fireEvent.keyDown(group, { key: 'ArrowRight' });
+    expect(onVisibilityChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves points on the far side out of clusters', () => {
+    const points = [
+      createCoordinates(0, 0),
+      createCoordinates(1, 0),
+      createCoordinates(180, 0),
+    ];
+    const { container } = render(
+      <ComposableMap projection={globe()}>
+        <MarkerCluster
+          points={points}
+          coordinates={(point) => point}
+          radius={0}
+        />
+      </ComposableMap>,
+    );
+    expect(container.querySelectorAll('g.rsm-marker')).toHaveLength(2);
+  });
+});
+
+describe('getHorizonOpacity', () => {
+  it('fades over the given degrees inside the clip angle', () => {
+    const projection = globe().rotate([-30, 0]);
+    const at = (longitude: number, fade: number) =>
+      getHorizonOpacity(createCoordinates(longitude, 0), projection, fade);
+
+    expect(at(30, 10)).toBe(1);
+    expect(at(115, 10)).toBeCloseTo(0.5);
+    expect(at(120, 10)).toBeCloseTo(0);
+    expect(at(115, 0)).toBe(1);
+  });
+});
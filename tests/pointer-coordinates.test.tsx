@@ -0,0 +1,120 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoEqualEarth } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import CoordinateReadout from '../src/components/CoordinateReadout';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import usePointerCoordinates from '../src/components/usePointerCoordinates';
+import { createCoordinates, type PointerCoordinates } from '../src/types';
+import { mockSvgLayout } from './helpers';
+
+// The default projection for an 800 x 600 map
+const equalEarth = geoEqualEarth().translate([400, 300]);
+
+function renderPointer(children: (probe: ReactNode) => ReactNode = (p) => p) {
+  const result: { current?: PointerCoordinates | null } = {};
+  function Probe() {
+    result.current = usePointerCoordinates();
+    return null;
+  }
+
+  const { container } = render(
+    <ComposableMap>{children(<Probe />)}</ComposableMap>,
+  );
+  const svg = container.querySelector('svg')!;
+  return {
+    svg,
+    pointer: () => result.current,
+    move: (clientX: number, clientY: number) =>
+      fireEvent.pointerMove(svg, { clientX, clientY }),
+  };
+}
+
+describe('usePointerCoordinates', () => {
+  beforeEach(() => {
+    // 800 x 600 viewBox drawn at half size
+    mockSvgLayout({ width: 400, height: 300 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('inverts the pointer and clears it outside the sphere', () => {
+    const { svg, pointer, move } = renderPointer();
+    expect(pointer()).toBeNull();
+
+    const [x, y] = equalEarth([-74, 40.7])!;
+    move(x / 2, y / 2);
+    expect(pointer()!.coordinates[0]).toBeCloseTo(-74);
+    expect(pointer()!.coordinates[1]).toBeCloseTo(40.7);
+    expect(pointer()!.point[0]).toBeCloseTo(x);
+    expect(pointer()!.projected[1]).toBeCloseTo(y);
+
+    // Map corner, outside the Equal Earth outline
+    move(1, 1);
+    expect(pointer()).toBeNull();
+
+    move(200, 150);
+    expect(pointer()).not.toBeNull();
+    fireEvent.pointerLeave(svg);
+    expect(pointer()).toBeNull();
+  });
+
+  it('follows the zoom transform from outside the ZoomableGroup', async () => {
+    const { pointer, move } = renderPointer((probe) => (
+      <>
+        <ZoomableGroup center={createCoordinates(10, 0)} zoom={2} />
+        {probe}
+      </>
+    ));
+
+    move(200, 150);
+    await waitFor(() => {
+      expect(pointer()?.coordinates[0]).toBeCloseTo(10);
+    });
+    expect(pointer()!.point).toEqual([400, 300]);
+    expect(pointer()!.projected[0]).toBeCloseTo(equalEarth([10, 0])![0]);
+  });
+});
+
+describe('CoordinateReadout', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('formats the pointer position and shows the placeholder off the map', () => {
+    mockSvgLayout();
+    const { container } = render(
+      <ComposableMap>
+        <CoordinateReadout position="top-right" placeholder="—" />
+        <CoordinateReadout
+          className="custom"
+          format={([lon, lat]) => `${Math.round(lon)} / ${Math.round(lat)}`}
+        />
+      </ComposableMap>,
+    );
+    const svg = container.querySelector('svg')!;
+    expect(screen.getByText('—').getAttribute('text-anchor')).toBe('end');
+
+    const [x, y] = equalEarth([-74.006, 40.713])!;
+    act(() => {
+      fireEvent.pointerMove(svg, { clientX: x, clientY: y });
+    });
+    expect(screen.queryByText('—')).toBeNull();
+    screen.getByText('40.71° N, 74.01° W');
+    expect(screen.getByText('-74 / 41').getAttribute('y')).toBe('584');
+    expect(
+      container
+        .querySelector('.rsm-coordinate-readout')!
+        .hasAttribute('aria-live'),
+    ).toBe(false);
+  });
+});
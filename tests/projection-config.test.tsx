@@ -0,0 +1,98 @@
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GeoConicProjection, GeoProjection } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import { useMapContext } from '../src/components/MapProvider';
+import { validateProjectionConfig } from '../src/utils/input-validation';
+import { createParallels, type ProjectionConfig } from '../src/types';
+
+function renderProjection(
+  projection: string,
+  projectionConfig: ProjectionConfig,
+): GeoProjection {
+  let result: GeoProjection | undefined;
+  function ProjectionProbe() {
+    result = useMapContext().projection;
+    return null;
+  }
+
+  render(
+    <ComposableMap projection={projection} projectionConfig={projectionConfig}>
+      <ProjectionProbe />
+    </ComposableMap>,
+  );
+  return result!;
+}
+
+describe('projectionConfig settings', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('applies every supported setting', () => {
+    const conic = renderProjection('geoConicEqualArea', {
+      parallels: createParallels(20, 50),
+      precision: 0.2,
+      reflectY: true,
+      angle: 15,
+      clipExtent: [
+        [10, 10],
+        [790, 590],
+      ],
+    }) as GeoConicProjection;
+
+    expect(conic.parallels()).toEqual([20, 50]);
+    expect(conic.precision()).toBeCloseTo(0.2);
+    expect(conic.reflectY()).toBe(true);
+    expect(conic.reflectX()).toBe(false);
+    expect(conic.angle()).toBeCloseTo(15);
+    expect(conic.clipExtent()).toEqual([
+      [10, 10],
+      [790, 590],
+    ]);
+
+    const globe = renderProjection('geoOrthographic', { clipAngle: 90 });
+    expect(globe.clipAngle()).toBe(90);
+  });
+
+  it('raises a PROJECTION_ERROR for settings a projection lacks', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      renderProjection('geoMercator', { parallels: createParallels(20, 50) }),
+    ).toThrow(/geoMercator does not support the parallels setting/);
+
+    try {
+      renderProjection('geoAlbersUsa', { clipAngle: 90 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({
+        type: 'PROJECTION_ERROR',
+        details: { projection: 'geoAlbersUsa', setting: 'clipAngle' },
+      });
+    }
+  });
+
+  it('validates each setting', () => {
+    expect(() => validateProjectionConfig({ parallels: [20] })).toThrow(
+      /pair of latitudes/,
+    );
+    expect(() => validateProjectionConfig({ clipAngle: 270 })).toThrow(
+      /outside allowed range/,
+    );
+    expect(() =>
+      validateProjectionConfig({
+        clipExtent: [
+          [100, 0],
+          [0, 100],
+        ],
+      }),
+    ).toThrow(/out of order/);
+    expect(() => validateProjectionConfig({ reflectX: 'yes' })).toThrow(
+      /reflectX must be a boolean/,
+    );
+    expect(() => validateProjectionConfig({ precision: -1 })).toThrow(
+      /outside allowed range/,
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { geoEquirectangular, GeoPermissibleObjects, geoPath } from 'd3-geo';
+import { Feature, FeatureCollection, MultiPoint } from 'geojson';
+import type { GeoProjection } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import { useMapContext } from '../src/components/MapProvider';
+import { validateProjectionConfig } from '../src/utils/input-validation';
+import { createCoordinates, type ProjectionConfig } from '../src/types';
+
+// Corners of a 20° x 10° box; points avoid great-circle edge resampling
+const corners: Feature<MultiPoint> = {
+  type: 'Feature',
+  properties: {},
+  geometry: {
+    type: 'MultiPoint',
+    coordinates: [
+      [0, 0],
+      [0, 10],
+      [20, 10],
+      [20, 0],
+    ],
+  },
+};
+
+function ProjectionProbe({
+  onProjection,
+}: {
+  onProjection: (projection: GeoProjection) => void;
+}) {
+  onProjection(useMapContext().projection);
+  return null;
+}
+
+function renderFitted(
+  projectionConfig: ProjectionConfig,
+  width = 400,
+  height = 400,
+) {
+  let projection: GeoProjection | undefined;
+  const ui = (w: number, h: number) => (
+    <ComposableMap
+      width={w}
+      height={h}
+      projection="geoEquirectangular"
+      projectionConfig={projectionConfig}
+    >
+      <ProjectionProbe onProjection={(p) => (projection = p)} />
+    </ComposableMap>
+  );
+  const { rerender } = render(ui(width, height));
+  return {
+    projection: () => projection!,
+    resize: (w: number, h: number) => rerender(ui(w, h)),
+  };
+}
+
+function projectedBounds(
+  projection: GeoProjection,
+  object: GeoPermissibleObjects,
+) {
+  return geoPath(projection)
+    .bounds(object)
+    .flat()
+    .map((value) => Math.round(value));
+}
+
+describe('projectionConfig.fitTo', () => {
+  it('fits a feature inside the padded map extent', () => {
+    const { projection } = renderFitted({ fitTo: corners, fitPadding: 20 });
+
+    // 2:1 feature in a square map: width fills, height is centered
+    expect(projectedBounds(projection(), corners)).toEqual([20, 110, 380, 290]);
+  });
+
+  it('fits a FeatureCollection and bounds pairs', () => {
+    const collection: FeatureCollection = {
+      type: 'FeatureCollection',
+      features: [corners],
+    };
+    const fromCollection = renderFitted({ fitTo: collection }).projection();
+    expect(projectedBounds(fromCollection, corners)).toEqual([
+      0, 100, 400, 300,
+    ]);
+
+    const fromBounds = renderFitted({
+      fitTo: [createCoordinates(0, 0), createCoordinates(20, 10)],
+    }).projection();
+    expect(projectedBounds(fromBounds, corners)).toEqual([0, 100, 400, 300]);
+  });
+
+  it('re-fits when the map is resized', () => {
+    const { projection, resize } = renderFitted({ fitTo: corners });
+    expect(projectedBounds(projection(), corners)).toEqual([0, 100, 400, 300]);
+
+    resize(800, 200);
+    expect(projectedBounds(projection(), corners)).toEqual([200, 0, 600, 200]);
+  });
+
+  it('leaves the projection unfitted for targets without area', () => {
+    const { projection } = renderFitted({
+      fitTo: { type: 'FeatureCollection', features: [] },
+      scale: 120,
+    });
+
+    expect(projection().scale()).toBe(120);
+    expect(projection().translate()).toEqual([200, 200]);
+  });
+
+  it('rejects malformed fit targets and padding', () => {
+    expect(() =>
+      validateProjectionConfig({ fitTo: { type: 'Point' } }),
+    ).toThrow(/fitTo must be a Feature/);
+    expect(() =>
+      validateProjectionConfig({
+        fitTo: [
+          [0, 10],
+          [20, 0],
+        ],
+      }),
+    ).toThrow(/south \(10\) must not exceed north \(0\)/);
+    expect(() =>
+      validateProjectionConfig({ fitTo: corners, fitPadding: -1 }),
+    ).toThrow(/outside allowed range/);
+  });
+});
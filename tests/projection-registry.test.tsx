@@ -0,0 +1,110 @@
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  geoAlbersUsa,
+  geoEquirectangular,
+  geoMercator,
+  type GeoProjection,
+} from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import { useMapContext } from '../src/components/MapProvider';
+import {
+  getAvailableProjections,
+  registerProjection,
+} from '../src/utils/projection-registry';
+import type { ProjectionFactories } from '../src/types';
+
+function renderProjection(
+  projection: string,
+  projectionRegistry?: ProjectionFactories,
+): GeoProjection {
+  let result: GeoProjection | undefined;
+  function ProjectionProbe() {
+    result = useMapContext().projection;
+    return null;
+  }
+
+  render(
+    <ComposableMap
+      projection={projection}
+      {...(projectionRegistry && { projectionRegistry })}
+    >
+      <ProjectionProbe />
+    </ComposableMap>,
+  );
+  return result!;
+}
+
+describe('projection registry', () => {
+  const unregister: Array<() => void> = [];
+
+  afterEach(() => {
+    unregister.splice(0).forEach((remove) => remove());
+    vi.restoreAllMocks();
+  });
+
+  it('resolves registered projections by name until unregistered', () => {
+    const factory = vi.fn(() => geoEquirectangular().scale(42));
+    unregister.push(registerProjection('geoFlat', factory));
+
+    const projection = renderProjection('geoFlat');
+    expect(factory).toHaveBeenCalled();
+    expect(projection.scale()).toBe(42);
+    expect(projection.translate()).toEqual([400, 300]);
+    expect(getAvailableProjections()).toContain('geoFlat');
+
+    unregister.pop()!();
+    expect(getAvailableProjections()).not.toContain('geoFlat');
+  });
+
+  it('prefers a map registry over global registrations and d3-geo', () => {
+    unregister.push(registerProjection('geoMercator', () => geoAlbersUsa()));
+
+    const projection = renderProjection('geoMercator', {
+      geoMercator: () => geoEquirectangular().scale(7),
+    });
+    expect(projection.scale()).toBe(7);
+
+    // Names without the geo prefix resolve once registered
+    const inset = renderProjection('albersWithInsets', {
+      albersWithInsets: () => geoMercator().scale(9),
+    });
+    expect(inset.scale()).toBe(9);
+  });
+
+  it('lists every registered projection in unknown projection errors', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    unregister.push(registerProjection('geoFlat', () => geoEquirectangular()));
+
+    try {
+      renderProjection('geoMissing', { geoLocal: () => geoMercator() });
+      expect.unreachable();
+    } catch (error) {
+      const { availableProjections } = (
+        error as { details: { availableProjections: string[] } }
+      ).details;
+      expect(error).toMatchObject({ type: 'PROJECTION_ERROR' });
+      expect(availableProjections).toEqual(
+        expect.arrayContaining(['geoEqualEarth', 'geoFlat', 'geoLocal']),
+      );
+      expect(availableProjections).not.toContain('geoPath');
+      expect(availableProjections).not.toContain('geoMercatorRaw');
+    }
+  });
+
+  it('rejects invalid registrations and factories', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => registerProjection('geo-flat', () => geoMercator())).toThrow(
+      /Invalid projection name/,
+    );
+    expect(() =>
+      registerProjection('geoFlat', 'geoMercator' as unknown as () => never),
+    ).toThrow(/must be a function/);
+    expect(() =>
+      renderProjection('geoBroken', {
+        geoBroken: () => ({}) as GeoProjection,
+      }),
+    ).toThrow(/did not return a projection/);
+  });
+});
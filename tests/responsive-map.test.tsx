@@ -0,0 +1,171 @@
+import { act, render, waitFor } from '@testing-library/react';
+import { createRef, type ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeoProjection } from 'd3-geo';
+import ComposableMap from '../src/components/ComposableMap';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import { useMapContext } from '../src/components/MapProvider';
+import {
+  createCoordinates,
+  createTranslateExtent,
+  type ComposableMapProps,
+  type MapController,
+} from '../src/types';
+
+class FakeResizeObserver {
+  static active: FakeResizeObserver[] = [];
+
+  constructor(private readonly callback: ResizeObserverCallback) {}
+
+  observe() {
+    FakeResizeObserver.active.push(this);
+  }
+
+  unobserve() {}
+
+  disconnect() {
+    FakeResizeObserver.active = FakeResizeObserver.active.filter(
+      (observer) => observer !== this,
+    );
+  }
+
+  resize(width: number, height: number) {
+    this.callback(
+      [{ contentRect: { width, height } } as ResizeObserverEntry],
+      this as unknown as ResizeObserver,
+    );
+  }
+}
+
+function resizeParent(width: number, height: number) {
+  act(() => {
+    FakeResizeObserver.active.forEach((observer) =>
+      observer.resize(width, height),
+    );
+  });
+}
+
+// 10 map units per degree at the nominal 800 x 600 size
+const projectionConfig = { scale: (180 / Math.PI) * 10 };
+
+function renderMap(props: Partial<ComposableMapProps>, children?: ReactNode) {
+  let projection: GeoProjection | undefined;
+  function ProjectionProbe() {
+    projection = useMapContext().projection;
+    return null;
+  }
+
+  const { container } = render(
+    <div>
+      <ComposableMap
+        projection="geoEquirectangular"
+        projectionConfig={projectionConfig}
+        {...props}
+      >
+        <ProjectionProbe />
+        {children}
+      </ComposableMap>
+    </div>,
+  );
+  return {
+    svg: () => container.querySelector('svg')!,
+    projection: () => projection!,
+  };
+}
+
+describe('responsive ComposableMap', () => {
+  beforeEach(() => {
+    vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeResizeObserver.active = [];
+  });
+
+  it('draws the measured parent size and refits the projection', () => {
+    const map = renderMap({ responsive: true });
+    expect(map.svg().getAttribute('viewBox')).toBe('0 0 800 600');
+    expect(map.svg().getAttribute('width')).toBe('100%');
+
+    resizeParent(1000, 500);
+
+    expect(map.svg().getAttribute('viewBox')).toBe('0 0 1000 500');
+    expect(map.projection().translate()).toEqual([500, 250]);
+    // The nominal 800 x 600 view scaled into 1000 x 500
+    expect(map.projection()([10, 0])![0]).toBeCloseTo(500 + 250 / 3);
+  });
+
+  it('keeps the projection scale with the keep policy', () => {
+    const map = renderMap({ responsive: true, resizePolicy: 'keep' });
+
+    resizeParent(1000, 500);
+
+    expect(map.projection().translate()).toEqual([500, 250]);
+    expect(map.projection()([10, 0])![0]).toBeCloseTo(600);
+  });
+
+  it('uses the nominal aspect ratio when the parent has no height', () => {
+    const map = renderMap({ responsive: true });
+
+    resizeParent(400, 0);
+
+    expect(map.svg().getAttribute('viewBox')).toBe('0 0 400 300');
+  });
+
+  it('ignores the parent size unless responsive', () => {
+    const map = renderMap({});
+
+    expect(FakeResizeObserver.active).toHaveLength(0);
+    expect(map.svg().getAttribute('viewBox')).toBe('0 0 800 600');
+    expect(map.svg().hasAttribute('width')).toBe(false);
+  });
+
+  it('keeps the zoomed view and translate extent through resizes', async () => {
+    const controllerRef = createRef<MapController>();
+    const map = renderMap(
+      { responsive: true },
+      <ZoomableGroup
+        center={createCoordinates(10, 0)}
+        zoom={2}
+        translateExtent={createTranslateExtent(
+          createCoordinates(0, 0),
+          createCoordinates(800, 600),
+        )}
+        controllerRef={controllerRef}
+      >
+        <circle r={1} />
+      </ZoomableGroup>,
+    );
+    const transform = () =>
+      map
+        .svg()
+        .querySelector('g.rsm-zoomable-group')!
+        .getAttribute('transform');
+    const translateX = () =>
+      Number(/translate\(([-\d.e]+)/.exec(transform()!)![1]);
+
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-600 -300) scale(2)');
+    });
+
+    resizeParent(1000, 500);
+
+    // Lon 10 sits at x = 500 + 250 / 3 in the resized map
+    await waitFor(() => {
+      expect(translateX()).toBeCloseTo(500 - (500 + 250 / 3) * 2);
+    });
+    expect(controllerRef.current!.getPosition().coordinates[0]).toBeCloseTo(10);
+    expect(controllerRef.current!.getPosition().zoom).toBe(2);
+
+    // The nominal extent [0, 800] now spans [166.7, 833.3]
+    act(() => {
+      controllerRef.current!.flyTo(createCoordinates(-170, 0), 2, {
+        duration: 0,
+      });
+    });
+    await waitFor(() => {
+      expect(translateX()).toBeCloseTo(-1000 / 3);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoOrthographic } from 'd3-geo';
+import type { FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import Marker from '../src/components/Marker';
+import RotatableGlobe from '../src/components/RotatableGlobe';
+import {
+  createCoordinates,
+  createRotationAngles,
+  type RotatableGlobeProps,
+} from '../src/types';
+import { mockSvgLayout } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      id: 'A',
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-10, -10],
+            [-10, 10],
+            [10, 10],
+            [10, -10],
+            [-10, -10],
+          ],
+        ],
+      },
+    },
+  ],
+};
+
+const markerPosition = (container: HTMLElement, className: string) => {
+  const transform = container
+    .querySelector(`g.rsm-marker.${className}`)!
+    .getAttribute('transform')!;
+  const [, x, y] = /translate\(([-\d.e]+), ([-\d.e]+)\)/.exec(transform)!;
+  return [Number(x), Number(y)];
+};
+
+function renderGlobe(props: Omit<RotatableGlobeProps, 'children'> = {}) {
+  // A globe of radius 200 centered in the 800 x 600 map
+  const projection = geoOrthographic().translate([400, 300]).scale(200);
+  const globe = (globeProps: typeof props | null) => (
+    <ComposableMap projection={projection}>
+      {globeProps && (
+        <RotatableGlobe {...globeProps}>
+          <Geographies geography={featureCollection}>
+            {({ geographies }) =>
+              geographies.map((geo) => (
+                <Geography key={String(geo.id)} geography={geo} />
+              ))
+            }
+          </Geographies>
+          <Marker coordinates={createCoordinates(0, 0)} className="origin">
+            <circle r={2} />
+          </Marker>
+        </RotatableGlobe>
+      )}
+      <Marker coordinates={createCoordinates(30, 0)} className="east">
+        <circle r={2} />
+      </Marker>
+    </ComposableMap>
+  );
+  const result = render(globe(props));
+  return {
+    ...result,
+    group: () => result.container.querySelector('g.rsm-rotatable-globe')!,
+    origin: () => markerPosition(result.container, 'origin'),
+    east: () => markerPosition(result.container, 'east'),
+    removeGlobe: () => result.rerender(globe(null)),
+  };
+}
+
+describe('RotatableGlobe', () => {
+  beforeEach(() => {
+    mockSvgLayout();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the grabbed point under the pointer while dragging', async () => {
+    const onRotate = vi.fn();
+    const onRotateEnd = vi.fn();
+    const { container, group, origin, east } = renderGlobe({
+      inertia: false,
+      onRotate,
+      onRotateEnd,
+    });
+    await waitFor(() => {
+      expect(container.querySelector('path.rsm-geography')).not.toBeNull();
+    });
+    const path = () =>
+      container.querySelector('path.rsm-geography')!.getAttribute('d');
+    const initialPath = path();
+    expect(origin()).toEqual([400, 300]);
+
+    fireEvent.pointerDown(group(), { button: 0, clientX: 400, clientY: 300 });
+    fireEvent.pointerMove(group(), { clientX: 500, clientY: 250 });
+    const [x, y] = origin();
+    expect(x).toBeCloseTo(500);
+    expect(y).toBeCloseTo(250);
+    expect(path()).not.toBe(initialPath);
+    // Markers outside the group share the rotated projection
+    expect(east()[0]).not.toBeCloseTo(500);
+    expect(onRotate).toHaveBeenCalledTimes(1);
+    expect(onRotateEnd).not.toHaveBeenCalled();
+
+    fireEvent.pointerUp(group(), { clientX: 500, clientY: 250 });
+    expect(onRotateEnd).toHaveBeenCalledTimes(1);
+    expect(onRotateEnd.mock.calls[0]![0].zoom).toBe(1);
+
+    // Drags starting off the globe do nothing
+    fireEvent.pointerDown(group(), { button: 0, clientX: 5, clientY: 5 });
+    fireEvent.pointerMove(group(), { clientX: 400, clientY: 300 });
+    expect(origin()[0]).toBeCloseTo(500);
+  });
+
+  it('rotates and zooms from the keyboard and the wheel', () => {
+    const { group, east } = renderGlobe({ maxZoom: 4 });
+    expect(group().getAttribute('tabindex')).toBe('0');
+
+    // Left turns the globe to show what lies west of the center
+    fireEvent.keyDown(group(), { key: 'ArrowLeft' });
+    expect(east()[0]).toBeCloseTo(400 + 200 * Math.sin((45 * Math.PI) / 180));
+
+    fireEvent.keyDown(group(), { key: 'ArrowRight' });
+    fireEvent.keyDown(group(), { key: 'ArrowUp' });
+    expect(east()[1]).toBeGreaterThan(300);
+    fireEvent.keyDown(group(), { key: 'ArrowDown' });
+
+    fireEvent.keyDown(group(), { key: '+' });
+    expect(east()[0]).toBeCloseTo(600);
+
+    // Zoom stops at maxZoom
+    fireEvent.wheel(group(), { deltaY: -5000 });
+    expect(east()[0]).toBeCloseTo(800);
+    fireEvent.keyDown(group(), { key: '+' });
+    expect(east()[0]).toBeCloseTo(800);
+
+    fireEvent.keyDown(group(), { key: '-', ctrlKey: true });
+    expect(east()[0]).toBeCloseTo(800);
+  });
+
+  it('spins on its own and restores the projection when removed', async () => {
+    const { east, removeGlobe } = renderGlobe({
+      rotation: [-30, 0, 0],
+      autoRotate: 360,
+    });
+    const [startX] = east();
+    expect(startX).toBeCloseTo(400);
+
+    await waitFor(() => expect(east()[0]).toBeLessThan(startX - 1));
+
+    removeGlobe();
+    expect(east()[0]).toBeCloseTo(500);
+  });
+
+  it('draws views with copies of the projection', () => {
+    const projection = geoOrthographic()
+      .translate([400, 300])
+      .scale(200)
+      .rotate([-20, 0]);
+    const globe = (map: { projection: typeof projection | string }) => (
+      <ComposableMap
+        projection={map.projection}
+        projectionConfig={{
+          rotate: createRotationAngles(-20, 0, 0),
+          scale: 200,
+        }}
+      >
+        <RotatableGlobe>
+          <Marker coordinates={createCoordinates(30, 10)} className="point">
+            <circle r={2} />
+          </Marker>
+        </RotatableGlobe>
+      </ComposableMap>
+    );
+    const expected = geoOrthographic()
+      .translate([400, 300])
+      .scale(400)
+      .rotate([-5, 0, 0])([30, 10])!;
+
+    for (const source of [projection, 'geoOrthographic']) {
+      const { container, unmount } = render(globe({ projection: source }));
+      const group = container.querySelector('g.rsm-rotatable-globe')!;
+      fireEvent.keyDown(group, { key: 'ArrowLeft' });
+      fireEvent.keyDown(group, { key: '+' });
+
+      const [x, y] = markerPosition(container, 'point');
+      expect(x).toBeCloseTo(expected[0]);
+      expect(y).toBeCloseTo(expected[1]);
+      unmount();
+    }
+
+    // The projection passed to the map keeps its own view
+    expect(projection.rotate()).toEqual([-20, 0, 0]);
+    expect(projection.scale()).toBe(200);
+  });
+});
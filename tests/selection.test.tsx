@@ -0,0 +1,284 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import Marker from '../src/components/Marker';
+import SelectionLasso from '../src/components/SelectionLasso';
+import {
+  SelectionProvider,
+  useSelection,
+} from '../src/components/SelectionProvider';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import {
+  createCoordinates,
+  type SelectionLassoShape,
+  type SelectionProviderProps,
+} from '../src/types';
+import {
+  doesShapeOverlapPolygon,
+  getProjectedRings,
+} from '../src/utils/selection';
+import { square, mockSvgLayout } from './helpers';
+
+const featureCollection: FeatureCollection<Geometry> = {
+  type: 'FeatureCollection',
+  features: ['A', 'B', 'C'].map((id, index) => ({
+    type: 'Feature',
+    id,
+    properties: { name: id },
+    geometry: square(index * 20),
+  })),
+};
+
+const projection = geoEquirectangular().translate([400, 300]).scale(200);
+
+function SelectionSummary() {
+  const { selected } = useSelection();
+  return <output>{selected.join(',')}</output>;
+}
+
+function renderMap(
+  props: Omit<SelectionProviderProps, 'children'> = {},
+  lasso?: SelectionLassoShape,
+) {
+  const { container } = render(
+    <SelectionProvider {...props}>
+      <ComposableMap projection={projection}>
+        <ZoomableGroup center={createCoordinates(0, 0)} zoom={2}>
+          <Geographies geography={featureCollection}>
+            {({ geographies }) =>
+              geographies.map((geo) => (
+                <Geography
+                  key={String(geo.id)}
+                  geography={geo}
+                  style={{
+                    default: { fill: 'gray', stroke: 'white' },
+                    selected: { fill: 'orange' },
+                  }}
+                />
+              ))
+            }
+          </Geographies>
+          <Marker coordinates={createCoordinates(12, -10)} selectionKey="depot">
+            <circle r={4} />
+          </Marker>
+        </ZoomableGroup>
+        {lasso && <SelectionLasso shape={lasso} className="custom" />}
+      </ComposableMap>
+      <SelectionSummary />
+    </SelectionProvider>,
+  );
+
+  const paths = () =>
+    Array.from(
+      container.querySelectorAll<SVGPathElement>('path.rsm-geography'),
+    );
+  return {
+    container,
+    paths,
+    marker: container.querySelector<SVGGElement>('g.rsm-marker')!,
+    summary: () => screen.getByRole('status').textContent,
+  };
+}
+
+// viewBox position of a geographic point through the zoom above
+const toViewBox = (longitude: number, latitude: number) => {
+  const [x, y] = projection([longitude, latitude])!;
+  return { clientX: 2 * x - 400, clientY: 2 * y - 300 };
+};
+
+describe('Selection', () => {
+  beforeEach(() => {
+    // The 800 x 600 map drawn at its own size at the page origin
+    mockSvgLayout();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('selects one feature at a time in single mode', async () => {
+    const { paths, marker, summary } = renderMap();
+    await waitFor(() => expect(paths()).toHaveLength(3));
+    const [a, b] = paths();
+
+    fireEvent.click(a!);
+    expect(summary()).toBe('A');
+    expect(a!.getAttribute('aria-pressed')).toBe('true');
+    expect(a!.getAttribute('role')).toBe('button');
+    // The selected variant is layered over the default one
+    expect(a!.style.fill).toBe('orange');
+    expect(a!.style.stroke).toBe('white');
+
+    fireEvent.click(b!, { shiftKey: true });
+    expect(summary()).toBe('B');
+    expect(a!.getAttribute('aria-pressed')).toBe('false');
+    expect(a!.style.fill).toBe('gray');
+
+    fireEvent.keyDown(marker, { key: 'Enter' });
+    expect(summary()).toBe('depot');
+    expect(marker.getAttribute('aria-pressed')).toBe('true');
+
+    // A second click deselects
+    fireEvent.click(marker);
+    expect(summary()).toBe('');
+  });
+
+  it('toggles with modifier keys in multiple mode', async () => {
+    const { paths, summary } = renderMap({
+      mode: 'multiple',
+      defaultSelected: ['C'],
+    });
+    await waitFor(() => expect(paths()).toHaveLength(3));
+    const [a, b, c] = paths();
+    expect(c!.style.fill).toBe('orange');
+
+    fireEvent.click(a!, { shiftKey: true });
+    fireEvent.click(b!, { ctrlKey: true });
+    expect(summary()).toBe('C,A,B');
+
+    fireEvent.click(c!, { metaKey: true });
+    expect(summary()).toBe('A,B');
+
+    fireEvent.click(b!);
+    expect(summary()).toBe('B');
+  });
+
+  it('follows the selected prop when controlled', async () => {
+    const onSelectionChange = vi.fn();
+    function ControlledMap() {
+      const [selected, setSelected] = useState<readonly string[]>(['A']);
+      return (
+        <>
+          <button onClick={() => setSelected(['B', 'C'])}>Pick</button>
+          <SelectionProvider
+            mode="multiple"
+            selected={selected}
+            onSelectionChange={(keys) => {
+              onSelectionChange(keys);
+              if (keys.length < 2) setSelected(keys);
+            }}
+          >
+            <ComposableMap projection={projection}>
+              <Geographies geography={featureCollection}>
+                {({ geographies }) =>
+                  geographies.map((geo) => (
+                    <Geography key={String(geo.id)} geography={geo} />
+                  ))
+                }
+              </Geographies>
+            </ComposableMap>
+            <SelectionSummary />
+          </SelectionProvider>
+        </>
+      );
+    }
+
+    const { container } = render(<ControlledMap />);
+    const paths = () =>
+      Array.from(container.querySelectorAll('path.rsm-geography'));
+    await waitFor(() => expect(paths()).toHaveLength(3));
+    const summary = () => screen.getByRole('status').textContent;
+    expect(summary()).toBe('A');
+
+    // Rejected by the parent: the selection stays put
+    fireEvent.click(paths()[1]!, { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A', 'B']);
+    expect(summary()).toBe('A');
+
+    fireEvent.click(paths()[2]!);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['C']);
+    expect(summary()).toBe('C');
+
+    fireEvent.click(screen.getByText('Pick'));
+    expect(summary()).toBe('B,C');
+    expect(paths()[1]!.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('selects what a rectangle or lasso overlaps through the zoom', async () => {
+    const { container, paths, summary } = renderMap(
+      { mode: 'multiple' },
+      'rectangle',
+    );
+    await waitFor(() => expect(paths()).toHaveLength(3));
+    const surface = container.querySelector('.rsm-selection-lasso rect')!;
+
+    // From inside A down and right past the marker; B is not reached
+    fireEvent.pointerDown(surface, { button: 0, ...toViewBox(8, 2) });
+    fireEvent.pointerMove(surface, toViewBox(15, -15));
+    expect(
+      container
+        .querySelector('.rsm-selection-lasso-outline')!
+        .getAttribute('class'),
+    ).toBe('rsm-selection-lasso-outline custom');
+    fireEvent.pointerUp(surface, toViewBox(15, -15));
+    expect(summary()).toBe('depot,A');
+    expect(container.querySelector('.rsm-selection-lasso-outline')).toBeNull();
+
+    // A click without a drag clears
+    fireEvent.pointerDown(surface, { button: 0, ...toViewBox(15, 30) });
+    fireEvent.pointerUp(surface, toViewBox(15, 30));
+    expect(summary()).toBe('');
+  });
+
+  it('adds freehand lasso hits with a modifier', async () => {
+    const { container, paths, summary } = renderMap(
+      { mode: 'multiple', defaultSelected: ['A'] },
+      'freehand',
+    );
+    await waitFor(() => expect(paths()).toHaveLength(3));
+    const surface = container.querySelector('.rsm-selection-lasso rect')!;
+
+    // A triangle drawn inside C, touching none of its vertices
+    fireEvent.pointerDown(surface, { button: 0, ...toViewBox(42, 2) });
+    fireEvent.pointerMove(surface, toViewBox(48, 2));
+    fireEvent.pointerMove(surface, toViewBox(45, 8));
+    fireEvent.pointerUp(surface, { shiftKey: true, ...toViewBox(45, 8) });
+    expect(summary()).toBe('A,C');
+  });
+});
+
+describe('doesShapeOverlapPolygon', () => {
+  const feature = (geometry: Geometry): Feature<Geometry> => ({
+    type: 'Feature',
+    properties: {},
+    geometry,
+  });
+
+  it('detects edges that cross without enclosed vertices', () => {
+    // A long thin strip crossed in its middle by a narrow box
+    const rings = getProjectedRings(
+      feature({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [0, 1],
+            [40, 1],
+            [40, 0],
+            [0, 0],
+          ],
+        ],
+      }),
+      projection,
+    );
+    const [x] = projection([20, 0])!;
+    const crossing: [number, number][] = [
+      [x - 2, 250],
+      [x + 2, 250],
+      [x + 2, 350],
+      [x - 2, 350],
+    ];
+    expect(doesShapeOverlapPolygon(rings, crossing)).toBe(true);
+    expect(
+      doesShapeOverlapPolygon(
+        rings,
+        crossing.map(([px, py]) => [px, py - 80]),
+      ),
+    ).toBe(false);
+  });
+});
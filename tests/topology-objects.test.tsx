@@ -0,0 +1,317 @@
+import { render, waitFor } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { Topology } from 'topojson-specification';
+import ComposableMap from '../src/components/ComposableMap';
+import Geographies from '../src/components/Geographies';
+import Geography from '../src/components/Geography';
+import TopologyLayers from '../src/components/TopologyLayers';
+import { prepareTopologyLayer } from '../src/utils/topology-layers';
+import {
+  getFeatures,
+  getFilteredMesh,
+  getMesh,
+} from '../src/utils/geography-processing';
+import { geoPath } from 'd3-geo';
+import {
+  cacheGeographyData,
+  cachePreparedFeaturesWeakMap,
+  generateFeaturesCacheKey,
+  generateMeshCacheKey,
+  getCachedGeographyData,
+  getCachedPreparedFeaturesWeakMap,
+} from '../src/utils/geography-cache';
+
+const topology: Topology = {
+  type: 'Topology',
+  arcs: [
+    [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ],
+    [
+      [20, 0],
+      [30, 0],
+      [30, 10],
+      [20, 10],
+      [20, 0],
+    ],
+  ],
+  objects: {
+    countries: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0]], id: 'a' },
+        { type: 'Polygon', arcs: [[1]], id: 'b' },
+      ],
+    },
+    land: {
+      type: 'GeometryCollection',
+      geometries: [{ type: 'MultiPolygon', arcs: [[[0]], [[1]]], id: 'land' }],
+    },
+  },
+};
+
+describe('TopoJSON object selection', () => {
+  it('reads the first object when no objectName is given', () => {
+    expect(getFeatures(topology).map((feature) => feature.id)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('reads a named object and concatenates a list of objects', () => {
+    expect(
+      getFeatures(topology, undefined, 'land').map((feature) => feature.id),
+    ).toEqual(['land']);
+    expect(
+      getFeatures(topology, undefined, ['land', 'countries']).map(
+        (feature) => feature.id,
+      ),
+    ).toEqual(['land', 'a', 'b']);
+  });
+
+  it('builds the mesh from the selected object', () => {
+    const mesh = getMesh(topology, 'land');
+    expect(mesh?.outline?.type).toBe('MultiLineString');
+    expect(mesh?.outline?.coordinates).toHaveLength(2);
+  });
+
+  it('raises a VALIDATION_ERROR listing the available objects', () => {
+    try {
+      getFeatures(topology, undefined, 'states');
+      expect.fail('should have thrown');
+    } catch (err) {
+      const error = err as Error & {
+        type: string;
+        details?: Record<string, unknown>;
+      };
+      expect(error.type).toBe('VALIDATION_ERROR');
+      expect(error.message).toContain('countries, land');
+      expect(error.details?.availableObjects).toEqual(['countries', 'land']);
+    }
+
+    expect(() => getMesh(topology, ['countries', 'states'])).toThrow(/states/);
+  });
+
+  it('keys the caches by object selection', () => {
+    expect(generateFeaturesCacheKey(topology, undefined, 'land')).not.toBe(
+      generateFeaturesCacheKey(topology, undefined, 'countries'),
+    );
+    expect(generateFeaturesCacheKey(topology)).not.toBe(
+      generateFeaturesCacheKey(topology, undefined, 'countries'),
+    );
+
+    const path = () => null;
+    expect(generateMeshCacheKey(topology, path, 'land')).not.toBe(
+      generateMeshCacheKey(topology, path, 'countries'),
+    );
+    expect(generateMeshCacheKey(topology, path, ['countries'])).toBe(
+      generateMeshCacheKey(topology, path, 'countries'),
+    );
+  });
+
+  it('keeps every object selection of a topology cached at once', () => {
+    const source: Topology = { ...topology };
+    const land = getFeatures(source, undefined, 'land');
+    const countries = getFeatures(source, undefined, 'countries');
+
+    cacheGeographyData(source, land, getMesh(source, 'land'), 'land');
+    cacheGeographyData(source, countries, null, 'countries');
+    cachePreparedFeaturesWeakMap(source, [], 'path', 'land');
+    cachePreparedFeaturesWeakMap(source, [], 'path', 'countries');
+
+    expect(getCachedGeographyData(source, 'land')?.features).toBe(land);
+    expect(getCachedGeographyData(source, 'countries')?.features).toBe(
+      countries,
+    );
+    expect(getCachedPreparedFeaturesWeakMap(source, 'path', 'land')).toEqual(
+      [],
+    );
+    expect(
+      getCachedPreparedFeaturesWeakMap(source, 'other-path', 'land'),
+    ).toBeNull();
+  });
+
+  it('renders the selected layer through Geographies', async () => {
+    const { container, rerender } = render(
+      <ComposableMap>
+        <Geographies geography={topology} objectName="land">
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography
+                key={geo.rsmKey}
+                geography={geo}
+                data-id={String(geo.id)}
+              />
+            ))
+          }
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(
+        [...container.querySelectorAll('path.rsm-geography')].map((path) =>
+          path.getAttribute('data-id'),
+        ),
+      ).toEqual(['land']);
+    });
+
+    rerender(
+      <ComposableMap>
+        <Geographies geography={topology} objectName="countries">
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography
+                key={geo.rsmKey}
+                geography={geo}
+                data-id={String(geo.id)}
+              />
+            ))
+          }
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(
+        [...container.querySelectorAll('path.rsm-geography')].map((path) =>
+          path.getAttribute('data-id'),
+        ),
+      ).toEqual(['a', 'b']);
+    });
+  });
+
+  it('surfaces an unknown objectName as a Geographies error', async () => {
+    const errors: Error[] = [];
+    const { container } = render(
+      <ComposableMap>
+        <Geographies
+          geography={topology}
+          objectName="counties"
+          onGeographyError={(error) => errors.push(error)}
+        >
+          {({ geographies }) =>
+            geographies.map((geo) => (
+              <Geography key={geo.rsmKey} geography={geo} />
+            ))
+          }
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelector('.rsm-error-text')).not.toBeNull();
+    });
+    expect(errors[0]?.message).toContain('counties');
+  });
+});
+
+describe('TopologyLayers', () => {
+  it('prepares each object once and reuses the cached layer', () => {
+    const path = geoPath();
+    const first = prepareTopologyLayer(topology, 'countries', path);
+    const second = prepareTopologyLayer(topology, 'countries', path);
+
+    expect(first.geographies).toHaveLength(2);
+    expect(first.outline).toBeTruthy();
+    expect(second.geographies).toBe(first.geographies);
+    expect(prepareTopologyLayer(topology, 'land', path).geographies).not.toBe(
+      first.geographies,
+    );
+  });
+
+  it('renders several layers from one topology', async () => {
+    const { container } = render(
+      <ComposableMap>
+        <TopologyLayers geography={topology}>
+          {({ layers, objectNames }) => (
+            <>
+              {objectNames.map((name) =>
+                layers[name]?.geographies.map((geo) => (
+                  <Geography
+                    key={`${name}-${geo.rsmKey}`}
+                    geography={geo}
+                    data-layer={name}
+                  />
+                )),
+              )}
+              <path className="land-outline" d={layers.land?.outline} />
+            </>
+          )}
+        </TopologyLayers>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(
+        container.querySelectorAll('path[data-layer="countries"]'),
+      ).toHaveLength(2);
+    });
+    expect(container.querySelectorAll('path[data-layer="land"]')).toHaveLength(
+      1,
+    );
+    expect(
+      container.querySelector('path.land-outline')?.getAttribute('d'),
+    ).toBeTruthy();
+  });
+
+  it('reports unknown layer names through onGeographyError', async () => {
+    const errors: Error[] = [];
+    const { container } = render(
+      <ComposableMap>
+        <TopologyLayers
+          geography={topology}
+          objects={['counties']}
+          onGeographyError={(error) => errors.push(error)}
+        >
+          {() => null}
+        </TopologyLayers>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(container.querySelector('.rsm-error-text')).not.toBeNull();
+    });
+    expect(errors[0]?.message).toContain('counties');
+  });
+});
+
+describe('Custom mesh filters', () => {
+  const onlyA = (
+    a: { id?: string | number },
+    b: { id?: string | number },
+  ): boolean => a === b && a.id === 'a';
+
+  it('meshes arcs that pass the filter', () => {
+    const mesh = getFilteredMesh(topology, onlyA, 'countries');
+    expect(mesh?.coordinates).toHaveLength(1);
+    expect(
+      getFilteredMesh({ type: 'FeatureCollection', features: [] }, onlyA),
+    ).toBeNull();
+  });
+
+  it('passes each named mesh to the Geographies render prop', async () => {
+    const meshes = { onlyA, none: () => false };
+    let received: Record<string, string> | undefined;
+
+    render(
+      <ComposableMap>
+        <Geographies geography={topology} meshes={meshes}>
+          {({ meshes: paths }) => {
+            received = paths;
+            return null;
+          }}
+        </Geographies>
+      </ComposableMap>,
+    );
+
+    await waitFor(() => {
+      expect(received?.onlyA).toBeTruthy();
+    });
+    expect(received?.none).toBe('');
+  });
+});
@@ -0,0 +1,212 @@
+import { act, fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geoEquirectangular } from 'd3-geo';
+import type { Feature, Geometry } from 'geojson';
+import ComposableMap from '../src/components/ComposableMap';
+import Geography from '../src/components/Geography';
+import Marker from '../src/components/Marker';
+import ZoomableGroup from '../src/components/ZoomableGroup';
+import { createCoordinates, type ZoomGestureOptions } from '../src/types';
+import { mockSvgLayout } from './helpers';
+
+const projection = geoEquirectangular().translate([400, 300]).scale(100);
+
+const touch = (identifier: number, clientX: number, clientY: number) => ({
+  identifier,
+  clientX,
+  clientY,
+  pageX: clientX,
+  pageY: clientY,
+});
+
+function renderMap(gestures?: ZoomGestureOptions) {
+  const { container } = render(
+    <ComposableMap projection={projection}>
+      <ZoomableGroup {...(gestures && { gestures })}>
+        <circle r={1} />
+      </ZoomableGroup>
+    </ComposableMap>,
+  );
+  // d3-zoom listens on the group's outer element
+  const surface = container.querySelector<SVGGElement>('svg > g')!;
+  return {
+    container,
+    surface,
+    transform: () =>
+      container
+        .querySelector('g.rsm-zoomable-group')!
+        .getAttribute('transform'),
+    hint: () => container.querySelector('.rsm-gesture-hint'),
+  };
+}
+
+const pinch = (surface: Element) => {
+  const start = [touch(0, 350, 300), touch(1, 450, 300)];
+  fireEvent.touchStart(surface, { touches: start, changedTouches: start });
+  const moved = [touch(0, 300, 300), touch(1, 500, 300)];
+  fireEvent.touchMove(surface, { touches: moved, changedTouches: moved });
+  fireEvent.touchEnd(surface, { touches: [], changedTouches: moved });
+};
+
+const tap = (surface: Element, x: number, y: number) => {
+  const touches = [touch(0, x, y)];
+  fireEvent.touchStart(surface, { touches, changedTouches: touches });
+  fireEvent.touchEnd(surface, { touches: [], changedTouches: touches });
+};
+
+describe('ZoomableGroup gestures', () => {
+  beforeEach(() => {
+    mockSvgLayout();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pinches to zoom unless pinchZoom is off', () => {
+    const zoomed = renderMap();
+    pinch(zoomed.surface);
+    expect(zoomed.transform()).toBe('translate(-400 -300) scale(2)');
+
+    const fixed = renderMap({ pinchZoom: false });
+    pinch(fixed.surface);
+    expect(fixed.transform()).toBe('translate(0 0) scale(1)');
+  });
+
+  it('zooms in on double click unless doubleTapZoom is off', async () => {
+    const fixed = renderMap({ doubleTapZoom: false });
+    fireEvent.dblClick(fixed.surface, { clientX: 400, clientY: 300 });
+
+    const zoomed = renderMap();
+    fireEvent.dblClick(zoomed.surface, { clientX: 400, clientY: 300 });
+    await waitFor(() => {
+      expect(zoomed.transform()).toBe('translate(-400 -300) scale(2)');
+    });
+    expect(fixed.transform()).toBe('translate(0 0) scale(1)');
+  });
+
+  it('leaves one finger to the page with twoFingerPan', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const { surface, transform, hint } = renderMap({
+        twoFingerPan: true,
+        cooperativeOverlay: { touch: 'Two fingers, please' },
+      });
+      expect(surface.style.touchAction).toBe('pan-x pan-y');
+
+      const start = [touch(0, 100, 100)];
+      const moved = [touch(0, 160, 100)];
+      fireEvent.touchStart(surface, { touches: start, changedTouches: start });
+      fireEvent.touchMove(surface, { touches: moved, changedTouches: moved });
+      expect(transform()).toBe('translate(0 0) scale(1)');
+      expect(hint()!.textContent).toBe('Two fingers, please');
+      fireEvent.touchEnd(surface, { touches: [], changedTouches: moved });
+
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(hint()).toBeNull();
+
+      // Two fingers still pan and zoom
+      pinch(surface);
+      expect(transform()).toBe('translate(-400 -300) scale(2)');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('leaves plain wheel scrolls to the page with modifier wheel zoom', () => {
+    const { surface, transform, hint } = renderMap({
+      wheelZoom: 'modifier',
+      cooperativeOverlay: { wheel: 'Zoom with Ctrl' },
+    });
+    const wheel = { deltaY: -100, clientX: 400, clientY: 300 };
+
+    // Not prevented, so the page scrolls
+    expect(fireEvent.wheel(surface, wheel)).toBe(true);
+    expect(transform()).toBe('translate(0 0) scale(1)');
+    expect(hint()!.textContent).toBe('Zoom with Ctrl');
+    expect(hint()!.getAttribute('class')).toContain('rsm-gesture-hint-wheel');
+
+    expect(fireEvent.wheel(surface, { ...wheel, metaKey: true })).toBe(false);
+    expect(transform()).not.toBe('translate(0 0) scale(1)');
+    expect(hint()).toBeNull();
+
+    const fixed = renderMap({ wheelZoom: false });
+    expect(fireEvent.wheel(fixed.surface, { ...wheel, ctrlKey: true })).toBe(
+      true,
+    );
+    expect(fixed.transform()).toBe('translate(0 0) scale(1)');
+    expect(fixed.hint()).toBeNull();
+  });
+
+  it('zooms on a double tap with twoFingerPan', async () => {
+    const { surface, transform, hint } = renderMap({ twoFingerPan: true });
+    tap(surface, 400, 300);
+    tap(surface, 402, 300);
+    // Centered on the second tap
+    await waitFor(() => {
+      expect(transform()).toBe('translate(-402 -300) scale(2)');
+    });
+    expect(hint()).toBeNull();
+  });
+});
+
+describe('pointer events', () => {
+  const feature: Feature<Geometry> = {
+    type: 'Feature',
+    properties: { name: 'Square' },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [0, 10],
+          [10, 10],
+          [10, 0],
+          [0, 0],
+        ],
+      ],
+    },
+  };
+
+  it('pass geography data and press geographies and markers', () => {
+    const onPointerDown = vi.fn();
+    const onPointerUp = vi.fn();
+    const onMarkerPointerDown = vi.fn();
+    const { container } = render(
+      <ComposableMap projection={projection}>
+        <Geography
+          geography={feature}
+          style={{ default: { fill: 'gray' }, pressed: { fill: 'red' } }}
+          onPointerDown={onPointerDown}
+          onPointerUp={onPointerUp}
+        />
+        <Marker
+          coordinates={createCoordinates(20, 20)}
+          style={{ pressed: { opacity: 0.5 } }}
+          onPointerDown={onMarkerPointerDown}
+        >
+          <circle r={2} />
+        </Marker>
+      </ComposableMap>,
+    );
+    const path = container.querySelector<SVGPathElement>('path')!;
+    const marker = container.querySelector<SVGGElement>('g.rsm-marker')!;
+
+    fireEvent.pointerDown(path, { pointerType: 'touch' });
+    expect(path.style.fill).toBe('red');
+    expect(onPointerDown.mock.calls[0]![1].geography).toBe(feature);
+    expect(onPointerDown.mock.calls[0]![1].centroid[0]).toBeCloseTo(5);
+
+    fireEvent.pointerUp(path, { pointerType: 'touch' });
+    expect(path.style.fill).toBe('gray');
+    expect(onPointerUp.mock.calls[0]![1].geography).toBe(feature);
+
+    fireEvent.pointerDown(marker, { pointerType: 'touch' });
+    expect(marker.style.opacity).toBe('0.5');
+    expect(onMarkerPointerDown).toHaveBeenCalledTimes(1);
+    fireEvent.pointerLeave(marker, { pointerType: 'touch' });
+    expect(marker.style.opacity).toBe('');
+  });
+});